@@ -0,0 +1,8 @@
+import Stripe from "stripe";
+
+// Lazy Stripe init to allow running without keys in dev/demo
+export function getStripe(): Stripe | null {
+  const key = process.env.STRIPE_SECRET_KEY;
+  if (!key) return null;
+  return new Stripe(key, { apiVersion: "2024-06-20" } as any);
+}
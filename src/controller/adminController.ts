@@ -9,6 +9,42 @@ import {
   generateCategoryCode,
 } from "../utils/skuGenerator";
 import { uploadToCloudinary, deleteFromCloudinary } from "../config/cloudinary";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import { reprocessWebhookEvent as reprocessStripeWebhookEvent } from "../services/stripeWebhookService";
+import { normalizeCode, PROMOTION_TYPES } from "../services/promotionService";
+import { retryFulfillment } from "../services/fulfillmentService";
+import { DEFAULT_BOXES, parsePackageInput } from "../services/packingService";
+import { getOrderPaymentDetails as loadOrderPaymentDetails } from "../services/paymentDetailsService";
+import {
+  buildDisputeEvidence,
+  DISPUTE_STATUSES,
+  submitDisputeEvidence,
+} from "../services/disputeService";
+import { runReconciliation } from "../services/reconciliationService";
+import { recomputeReservedStock } from "../services/inventoryReservationService";
+import {
+  getExchangeRates as loadExchangeRates,
+  setExchangeRate,
+  setPriceBook,
+} from "../services/currencyService";
+import {
+  deleteTaxRate,
+  getTaxReport as loadTaxReport,
+  listTaxRates,
+  upsertTaxRate,
+} from "../services/taxService";
+import {
+  issueGiftCard as issueGiftCardCredit,
+  normalizeGiftCardCode,
+  voidGiftCard as voidGiftCardCredit,
+} from "../services/giftCardService";
+import {
+  approveReturn,
+  receiveReturn,
+  rejectReturn,
+  RETURN_STATUSES,
+} from "../services/returnService";
 
 const prisma = new PrismaClient();
 
@@ -609,6 +645,17 @@ export const getInventoryAlerts = async (req: Request, res: Response) => {
   }
 };
 
+// Reset reserved stock to the open checkout holds (Admin)
+export const recomputeReservedInventory = async (req: Request, res: Response) => {
+  try {
+    const updated = await recomputeReservedStock();
+    res.json({ message: "Reserved stock recomputed", updated });
+  } catch (err) {
+    console.error("Recompute reserved stock error:", err);
+    res.status(500).json({ message: "Error recomputing reserved stock" });
+  }
+};
+
 // ==================== SYSTEM CONFIGURATION ====================
 
 // Get system configuration (Admin)
@@ -639,3 +686,1372 @@ export const getSystemConfig = async (req: Request, res: Response) => {
   }
 };
 
+
+// ==================== WEBHOOK EVENTS ====================
+
+// Get Stripe webhook events that failed processing (Admin)
+export const getFailedWebhookEvents = async (req: Request, res: Response) => {
+  try {
+    const { type, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const where: any = { status: "failed" };
+    if (type) {
+      where.type = type;
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { receivedAt: "desc" },
+        select: {
+          id: true,
+          stripeEventId: true,
+          type: true,
+          status: true,
+          error: true,
+          attempts: true,
+          receivedAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    res.json({
+      events,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get failed webhook events error:", err);
+    res.status(500).json({ message: "Error fetching webhook events" });
+  }
+};
+
+// Reprocess a failed Stripe webhook event (Admin)
+export const reprocessWebhookEvent = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const result = await reprocessStripeWebhookEvent(stripe, req.params.id);
+    const event = await prisma.webhookEvent.findUnique({
+      where: { id: req.params.id },
+    });
+
+    res.json({ message: "Webhook event reprocessed", result, event });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Reprocess webhook event error:", err);
+    res.status(500).json({
+      message: "Error reprocessing webhook event",
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+};
+
+// ==================== PROMOTIONS ====================
+
+const optionalNumber = (value: any, field: string): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new CustomError(`${field} must be a non-negative number`, 400);
+  }
+  return parsed;
+};
+
+const optionalInteger = (value: any, field: string): number | null | undefined => {
+  const parsed = optionalNumber(value, field);
+  if (parsed !== null && parsed !== undefined && !Number.isInteger(parsed)) {
+    throw new CustomError(`${field} must be a whole number`, 400);
+  }
+  return parsed;
+};
+
+const optionalDate = (value: any, field: string): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) {
+    throw new CustomError(`${field} must be a valid date`, 400);
+  }
+  return parsed;
+};
+
+// Validate promotion fields from a create/update request body
+const parsePromotionInput = (body: any, existing?: { type: string }) => {
+  const type = body.type ?? existing?.type;
+  if (!PROMOTION_TYPES.includes(type)) {
+    throw new CustomError(
+      `type must be one of: ${PROMOTION_TYPES.join(", ")}`,
+      400
+    );
+  }
+
+  const data = {
+    name: body.name !== undefined ? String(body.name).trim() : undefined,
+    description: body.description !== undefined ? body.description || null : undefined,
+    type: body.type !== undefined ? type : undefined,
+    value: optionalNumber(body.value, "value") ?? undefined,
+    buyQuantity: optionalInteger(body.buyQuantity, "buyQuantity"),
+    freeQuantity: optionalInteger(body.freeQuantity, "freeQuantity"),
+    minSubtotal: optionalNumber(body.minSubtotal, "minSubtotal"),
+    requiresCode: body.requiresCode !== undefined ? Boolean(body.requiresCode) : undefined,
+    startsAt: optionalDate(body.startsAt, "startsAt"),
+    endsAt: optionalDate(body.endsAt, "endsAt"),
+    usageLimit: optionalInteger(body.usageLimit, "usageLimit"),
+    perCustomerLimit: optionalInteger(body.perCustomerLimit, "perCustomerLimit"),
+    isActive: body.isActive !== undefined ? Boolean(body.isActive) : undefined,
+  };
+
+  if (type === "percentage" && data.value !== undefined && data.value > 100) {
+    throw new CustomError("Percentage value cannot exceed 100", 400);
+  }
+  if (
+    type === "buy_n_packs" &&
+    !existing &&
+    (!data.buyQuantity || !data.freeQuantity)
+  ) {
+    throw new CustomError(
+      "buyQuantity and freeQuantity are required for buy_n_packs promotions",
+      400
+    );
+  }
+  if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+    throw new CustomError("endsAt must be after startsAt", 400);
+  }
+
+  return data;
+};
+
+const parseCodes = (codes: any): string[] => {
+  if (codes === undefined || codes === null) return [];
+  const list = Array.isArray(codes) ? codes : [codes];
+  const normalized = list.map((code) => normalizeCode(String(code)));
+  if (normalized.some((code) => !/^[A-Z0-9_-]{3,32}$/.test(code))) {
+    throw new CustomError(
+      "Codes must be 3-32 characters: letters, numbers, dashes or underscores",
+      400
+    );
+  }
+  return [...new Set(normalized)];
+};
+
+// Get all promotions with their codes (Admin)
+export const getPromotions = async (req: Request, res: Response) => {
+  try {
+    const { active } = req.query;
+
+    const promotions = await prisma.promotion.findMany({
+      where: active !== undefined ? { isActive: active === "true" } : undefined,
+      include: {
+        codes: { orderBy: { createdAt: "asc" } },
+        _count: { select: { redemptions: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({ promotions });
+  } catch (err) {
+    console.error("Get promotions error:", err);
+    res.status(500).json({ message: "Error fetching promotions" });
+  }
+};
+
+// Get a promotion with its codes and recent redemptions (Admin)
+export const getPromotion = async (req: Request, res: Response) => {
+  try {
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: req.params.id },
+      include: {
+        codes: { orderBy: { createdAt: "asc" } },
+        redemptions: {
+          orderBy: { createdAt: "desc" },
+          take: 50,
+          include: { discountCode: { select: { code: true } } },
+        },
+      },
+    });
+
+    if (!promotion) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    const totals = await prisma.promotionRedemption.aggregate({
+      where: { promotionId: promotion.id },
+      _sum: { amount: true },
+      _count: true,
+    });
+
+    res.json({
+      promotion,
+      stats: {
+        redemptions: totals._count,
+        totalDiscount: totals._sum.amount || 0,
+      },
+    });
+  } catch (err) {
+    console.error("Get promotion error:", err);
+    res.status(500).json({ message: "Error fetching promotion" });
+  }
+};
+
+// Create a promotion, optionally with discount codes (Admin)
+export const createPromotion = async (req: Request, res: Response) => {
+  try {
+    const data = parsePromotionInput(req.body);
+    if (!data.name) {
+      return res.status(400).json({ message: "Promotion name is required" });
+    }
+
+    const codes = parseCodes(req.body.codes);
+    if (data.requiresCode !== false && codes.length === 0) {
+      return res.status(400).json({
+        message: "At least one code is required unless requiresCode is false",
+      });
+    }
+
+    const existingCodes = await prisma.discountCode.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+    if (existingCodes.length > 0) {
+      return res.status(400).json({
+        message: `Code already exists: ${existingCodes.map((c) => c.code).join(", ")}`,
+      });
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        ...data,
+        name: data.name,
+        type: data.type,
+        codes: { create: codes.map((code) => ({ code })) },
+      },
+      include: { codes: true },
+    });
+
+    res.status(201).json({
+      message: "Promotion created successfully",
+      promotion,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create promotion error:", err);
+    res.status(500).json({ message: "Error creating promotion" });
+  }
+};
+
+// Update a promotion's rules or limits (Admin)
+export const updatePromotion = async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.promotion.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    const data = parsePromotionInput(req.body, existing);
+    if (data.name === "") {
+      return res.status(400).json({ message: "Promotion name cannot be empty" });
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id: existing.id },
+      data,
+      include: { codes: true },
+    });
+
+    res.json({
+      message: "Promotion updated successfully",
+      promotion,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update promotion error:", err);
+    res.status(500).json({ message: "Error updating promotion" });
+  }
+};
+
+// Delete a promotion, or deactivate it if it has already been used (Admin)
+export const deletePromotion = async (req: Request, res: Response) => {
+  try {
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: req.params.id },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!promotion) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    // Keep used promotions so past orders still show which one they got
+    if (promotion._count.redemptions > 0) {
+      await prisma.promotion.update({
+        where: { id: promotion.id },
+        data: { isActive: false },
+      });
+      return res.json({
+        message: "Promotion has been used, so it was deactivated instead of deleted",
+      });
+    }
+
+    await prisma.promotion.delete({ where: { id: promotion.id } });
+
+    res.json({ message: "Promotion deleted successfully" });
+  } catch (err) {
+    console.error("Delete promotion error:", err);
+    res.status(500).json({ message: "Error deleting promotion" });
+  }
+};
+
+// Add discount codes to a promotion (Admin)
+export const addDiscountCodes = async (req: Request, res: Response) => {
+  try {
+    const promotion = await prisma.promotion.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!promotion) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    const codes = parseCodes(req.body.codes ?? req.body.code);
+    if (codes.length === 0) {
+      return res.status(400).json({ message: "At least one code is required" });
+    }
+
+    const usageLimit = optionalInteger(req.body.usageLimit, "usageLimit");
+
+    const existingCodes = await prisma.discountCode.findMany({
+      where: { code: { in: codes } },
+      select: { code: true },
+    });
+    if (existingCodes.length > 0) {
+      return res.status(400).json({
+        message: `Code already exists: ${existingCodes.map((c) => c.code).join(", ")}`,
+      });
+    }
+
+    await prisma.discountCode.createMany({
+      data: codes.map((code) => ({
+        code,
+        promotionId: promotion.id,
+        usageLimit: usageLimit ?? null,
+      })),
+    });
+
+    const created = await prisma.discountCode.findMany({
+      where: { code: { in: codes } },
+    });
+
+    res.status(201).json({
+      message: `${created.length} code(s) added`,
+      codes: created,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Add discount codes error:", err);
+    res.status(500).json({ message: "Error adding discount codes" });
+  }
+};
+
+// Enable/disable a discount code or change its usage limit (Admin)
+export const updateDiscountCode = async (req: Request, res: Response) => {
+  try {
+    const { isActive } = req.body;
+    const usageLimit = optionalInteger(req.body.usageLimit, "usageLimit");
+
+    const code = await prisma.discountCode.update({
+      where: { id: req.params.id },
+      data: {
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+        usageLimit,
+      },
+    });
+
+    res.json({ message: "Discount code updated successfully", code });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update discount code error:", err);
+    res.status(500).json({ message: "Error updating discount code" });
+  }
+};
+
+// ==================== FULFILLMENT ====================
+
+// Orders whose label purchase failed or is waiting to be retried (Admin)
+export const getFailedFulfillments = async (req: Request, res: Response) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    // Without a status filter, show given-up jobs and ones still retrying
+    const where: any = status
+      ? { status }
+      : {
+          OR: [
+            { status: "failed" },
+            { status: "pending", lastError: { not: null } },
+          ],
+        };
+
+    const [jobs, total] = await Promise.all([
+      prisma.fulfillmentJob.findMany({
+        where,
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { updatedAt: "desc" },
+        include: {
+          order: {
+            select: {
+              id: true,
+              status: true,
+              paymentStatus: true,
+              shippingStatus: true,
+              shippingError: true,
+              guestEmail: true,
+              createdAt: true,
+              user: { select: { email: true } },
+            },
+          },
+        },
+      }),
+      prisma.fulfillmentJob.count({ where }),
+    ]);
+
+    res.json({
+      jobs,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get failed fulfillments error:", err);
+    res.status(500).json({ message: "Error fetching fulfillment jobs" });
+  }
+};
+
+// Retry buying the shipping label for an order now (Admin)
+export const retryOrderFulfillment = async (req: Request, res: Response) => {
+  try {
+    const job = await retryFulfillment(req.params.orderId);
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.orderId },
+      select: {
+        id: true,
+        shippingStatus: true,
+        shippingError: true,
+        trackingNumber: true,
+        shippingLabelUrl: true,
+        shippingCarrier: true,
+      },
+    });
+
+    res.json({
+      message:
+        job.status === "succeeded"
+          ? "Shipping label purchased"
+          : "Label purchase failed, it will be retried",
+      job,
+      order,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Retry fulfillment error:", err);
+    res.status(500).json({ message: "Error retrying fulfillment" });
+  }
+};
+
+// ==================== SHIPPING BOXES ====================
+
+// Validate box fields from a create/update request body
+const parseBoxInput = (body: any, isCreate: boolean) => {
+  const size = parsePackageInput({
+    lengthIn: body.lengthIn,
+    widthIn: body.widthIn,
+    heightIn: body.heightIn,
+  });
+  const data = {
+    name: body.name !== undefined ? String(body.name).trim() : undefined,
+    lengthIn: size.lengthIn ?? undefined,
+    widthIn: size.widthIn ?? undefined,
+    heightIn: size.heightIn ?? undefined,
+    weightOz: optionalNumber(body.weightOz, "weightOz") ?? undefined,
+    maxWeightOz: optionalNumber(body.maxWeightOz, "maxWeightOz") ?? undefined,
+    isActive: body.isActive !== undefined ? Boolean(body.isActive) : undefined,
+  };
+
+  if (
+    isCreate &&
+    (!data.name || !data.lengthIn || !data.widthIn || !data.heightIn || !data.maxWeightOz)
+  ) {
+    throw new CustomError(
+      "name, lengthIn, widthIn, heightIn and maxWeightOz are required",
+      400
+    );
+  }
+
+  return data;
+};
+
+// Get the shipping box catalog (Admin)
+export const getShippingBoxes = async (req: Request, res: Response) => {
+  try {
+    const boxes = await prisma.shippingBox.findMany({
+      orderBy: [{ isActive: "desc" }, { createdAt: "asc" }],
+    });
+
+    res.json({
+      boxes,
+      // Orders are packed into the defaults until a box is active
+      usingDefaults: !boxes.some((box) => box.isActive),
+      defaults: DEFAULT_BOXES,
+    });
+  } catch (err) {
+    console.error("Get shipping boxes error:", err);
+    res.status(500).json({ message: "Error fetching shipping boxes" });
+  }
+};
+
+// Add a shipping box (Admin)
+export const createShippingBox = async (req: Request, res: Response) => {
+  try {
+    const data = parseBoxInput(req.body, true);
+    const box = await prisma.shippingBox.create({
+      data: {
+        ...data,
+        name: data.name!,
+        lengthIn: data.lengthIn!,
+        widthIn: data.widthIn!,
+        heightIn: data.heightIn!,
+        maxWeightOz: data.maxWeightOz!,
+      },
+    });
+
+    res.status(201).json({ message: "Shipping box created", box });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create shipping box error:", err);
+    res.status(500).json({ message: "Error creating shipping box" });
+  }
+};
+
+// Update a shipping box (Admin)
+export const updateShippingBox = async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.shippingBox.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Shipping box not found" });
+    }
+
+    const box = await prisma.shippingBox.update({
+      where: { id: existing.id },
+      data: parseBoxInput(req.body, false),
+    });
+
+    res.json({ message: "Shipping box updated", box });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update shipping box error:", err);
+    res.status(500).json({ message: "Error updating shipping box" });
+  }
+};
+
+// Delete a shipping box (Admin)
+export const deleteShippingBox = async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.shippingBox.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Shipping box not found" });
+    }
+
+    await prisma.shippingBox.delete({ where: { id: existing.id } });
+
+    res.json({ message: "Shipping box deleted" });
+  } catch (err) {
+    console.error("Delete shipping box error:", err);
+    res.status(500).json({ message: "Error deleting shipping box" });
+  }
+};
+
+// Set a pack recipe's shipping size and weight (Admin)
+export const updatePackRecipePackage = async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.packRecipe.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Pack recipe not found" });
+    }
+
+    const recipe = await prisma.packRecipe.update({
+      where: { id: existing.id },
+      data: parsePackageInput(req.body),
+      select: {
+        id: true,
+        title: true,
+        kind: true,
+        weightOz: true,
+        lengthIn: true,
+        widthIn: true,
+        heightIn: true,
+      },
+    });
+
+    res.json({ message: "Pack recipe package updated", recipe });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update pack recipe package error:", err);
+    res.status(500).json({ message: "Error updating pack recipe package" });
+  }
+};
+
+// ==================== WAREHOUSES ====================
+
+const WAREHOUSE_ADDRESS_FIELDS = ["name", "email", "street1", "city", "state", "zip"] as const;
+
+// Validate warehouse fields from a create/update request body
+const parseWarehouseInput = (body: any, isCreate: boolean) => {
+  const text = (value: any) => (value !== undefined ? String(value).trim() : undefined);
+  const optionalText = (value: any) =>
+    value !== undefined ? (value ? String(value).trim() : null) : undefined;
+
+  const data = {
+    code: body.code !== undefined ? String(body.code).trim().toUpperCase() : undefined,
+    name: text(body.name),
+    company: optionalText(body.company),
+    email: text(body.email),
+    phone: optionalText(body.phone),
+    street1: text(body.street1),
+    street2: optionalText(body.street2),
+    city: text(body.city),
+    state: text(body.state),
+    zip: text(body.zip),
+    country: body.country !== undefined ? String(body.country).trim().toUpperCase() : undefined,
+    priority: optionalInteger(body.priority, "priority") ?? undefined,
+    isActive: body.isActive !== undefined ? Boolean(body.isActive) : undefined,
+  };
+
+  const missing = [...WAREHOUSE_ADDRESS_FIELDS, "code" as const].filter((field) =>
+    isCreate ? !data[field] : data[field] === ""
+  );
+  if (missing.length > 0) {
+    throw new CustomError(`Missing required fields: ${missing.join(", ")}`, 400);
+  }
+
+  return data;
+};
+
+// Get warehouses with their stock (Admin)
+export const getWarehouses = async (req: Request, res: Response) => {
+  try {
+    const warehouses = await prisma.warehouse.findMany({
+      include: {
+        inventory: {
+          include: { flavor: { select: { name: true } } },
+          orderBy: { flavor: { name: "asc" } },
+        },
+        _count: { select: { orders: true } },
+      },
+      orderBy: [{ isActive: "desc" }, { priority: "asc" }, { name: "asc" }],
+    });
+
+    res.json({ warehouses });
+  } catch (err) {
+    console.error("Get warehouses error:", err);
+    res.status(500).json({ message: "Error fetching warehouses" });
+  }
+};
+
+// Add a warehouse (Admin)
+export const createWarehouse = async (req: Request, res: Response) => {
+  try {
+    const data = parseWarehouseInput(req.body, true);
+    const warehouse = await prisma.warehouse.create({
+      data: {
+        ...data,
+        code: data.code!,
+        name: data.name!,
+        email: data.email!,
+        street1: data.street1!,
+        city: data.city!,
+        state: data.state!,
+        zip: data.zip!,
+      },
+    });
+
+    res.status(201).json({ message: "Warehouse created", warehouse });
+  } catch (err: any) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    if (err.code === "P2002") {
+      return res.status(409).json({ message: "A warehouse with this code already exists" });
+    }
+    console.error("Create warehouse error:", err);
+    res.status(500).json({ message: "Error creating warehouse" });
+  }
+};
+
+// Update a warehouse (Admin)
+export const updateWarehouse = async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.warehouse.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Warehouse not found" });
+    }
+
+    const warehouse = await prisma.warehouse.update({
+      where: { id: existing.id },
+      data: parseWarehouseInput(req.body, false),
+    });
+
+    res.json({ message: "Warehouse updated", warehouse });
+  } catch (err: any) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    if (err.code === "P2002") {
+      return res.status(409).json({ message: "A warehouse with this code already exists" });
+    }
+    console.error("Update warehouse error:", err);
+    res.status(500).json({ message: "Error updating warehouse" });
+  }
+};
+
+// Delete a warehouse, or deactivate it if orders shipped from it (Admin)
+export const deleteWarehouse = async (req: Request, res: Response) => {
+  try {
+    const warehouse = await prisma.warehouse.findUnique({
+      where: { id: req.params.id },
+      include: { _count: { select: { orders: true } } },
+    });
+
+    if (!warehouse) {
+      return res.status(404).json({ message: "Warehouse not found" });
+    }
+
+    // Keep warehouses with orders so those orders still show where they shipped from
+    if (warehouse._count.orders > 0) {
+      await prisma.warehouse.update({
+        where: { id: warehouse.id },
+        data: { isActive: false },
+      });
+      return res.json({
+        message: "Warehouse has orders, so it was deactivated instead of deleted",
+      });
+    }
+
+    await prisma.warehouse.delete({ where: { id: warehouse.id } });
+
+    res.json({ message: "Warehouse deleted successfully" });
+  } catch (err) {
+    console.error("Delete warehouse error:", err);
+    res.status(500).json({ message: "Error deleting warehouse" });
+  }
+};
+
+// Set flavor stock counts at a warehouse (Admin)
+export const setWarehouseInventory = async (req: Request, res: Response) => {
+  try {
+    const { items } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ message: "items must be a non-empty array of { flavorId, onHand }" });
+    }
+
+    const warehouse = await prisma.warehouse.findUnique({ where: { id: req.params.id } });
+    if (!warehouse) {
+      return res.status(404).json({ message: "Warehouse not found" });
+    }
+
+    const counts = items.map((item: any) => {
+      const onHand = optionalInteger(item?.onHand, "onHand");
+      if (!item?.flavorId || onHand === undefined || onHand === null) {
+        throw new CustomError("Each item needs a flavorId and an onHand count", 400);
+      }
+      return { flavorId: String(item.flavorId), onHand };
+    });
+
+    const flavors = await prisma.flavor.count({
+      where: { id: { in: counts.map((count) => count.flavorId) } },
+    });
+    if (flavors !== new Set(counts.map((count) => count.flavorId)).size) {
+      return res.status(400).json({ message: "One or more flavors were not found" });
+    }
+
+    const inventory = await prisma.$transaction(
+      counts.map(({ flavorId, onHand }) =>
+        prisma.warehouseInventory.upsert({
+          where: { warehouseId_flavorId: { warehouseId: warehouse.id, flavorId } },
+          create: { warehouseId: warehouse.id, flavorId, onHand },
+          update: { onHand },
+        })
+      )
+    );
+
+    res.json({ message: "Warehouse inventory updated", inventory });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Set warehouse inventory error:", err);
+    res.status(500).json({ message: "Error updating warehouse inventory" });
+  }
+};
+
+// ==================== RETURNS ====================
+
+// Get return requests, optionally filtered by status (Admin)
+export const getReturnRequests = async (req: Request, res: Response) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    if (status && !RETURN_STATUSES.includes(status as string)) {
+      return res.status(400).json({
+        message: `status must be one of: ${RETURN_STATUSES.join(", ")}`,
+      });
+    }
+    const where = status ? { status: status as string } : {};
+
+    const [returns, total] = await Promise.all([
+      prisma.returnRequest.findMany({
+        where,
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { createdAt: "desc" },
+        include: {
+          order: {
+            select: {
+              id: true,
+              total: true,
+              guestEmail: true,
+              shippingStatus: true,
+              paymentStatus: true,
+              user: { select: { email: true, name: true } },
+            },
+          },
+          refund: { select: { id: true, amount: true, status: true } },
+        },
+      }),
+      prisma.returnRequest.count({ where }),
+    ]);
+
+    res.json({
+      returns,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get return requests error:", err);
+    res.status(500).json({ message: "Error fetching return requests" });
+  }
+};
+
+// Approve a return and create its Shippo return label (Admin)
+export const approveReturnRequest = async (req: Request, res: Response) => {
+  try {
+    const returnRequest = await approveReturn(req.params.id, (req as any).user?.id);
+
+    res.json({ message: "Return approved and label created", returnRequest });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Approve return error:", err);
+    res.status(500).json({ message: "Error approving return" });
+  }
+};
+
+// Reject a return (Admin)
+export const rejectReturnRequest = async (req: Request, res: Response) => {
+  try {
+    const returnRequest = await rejectReturn(
+      req.params.id,
+      req.body.reason,
+      (req as any).user?.id
+    );
+
+    res.json({ message: "Return rejected", returnRequest });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Reject return error:", err);
+    res.status(500).json({ message: "Error rejecting return" });
+  }
+};
+
+// Mark a return as received, restocking and optionally refunding it (Admin)
+export const receiveReturnRequest = async (req: Request, res: Response) => {
+  try {
+    const { refund, restock } = req.body;
+    const returnRequest = await receiveReturn(req.params.id, {
+      refund: Boolean(refund),
+      restock: restock !== undefined ? Boolean(restock) : undefined,
+      adminId: (req as any).user?.id,
+    });
+
+    res.json({
+      message: returnRequest.refund ? "Return received and refunded" : "Return received",
+      returnRequest,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Receive return error:", err);
+    res.status(500).json({ message: "Error receiving return" });
+  }
+};
+
+// ==================== PAYMENTS ====================
+
+// Card, receipt and dispute details for an order's Stripe payment (Admin)
+export const getOrderPaymentDetails = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const payment = await loadOrderPaymentDetails(stripe, req.params.id);
+
+    res.json({ payment });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get order payment details error:", err);
+    res.status(500).json({ message: "Error fetching payment details" });
+  }
+};
+
+// ==================== DISPUTES ====================
+
+// Get Stripe disputes, optionally filtered by status (Admin)
+export const getDisputes = async (req: Request, res: Response) => {
+  try {
+    const { status, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    if (status && !DISPUTE_STATUSES.includes(status as string)) {
+      return res.status(400).json({
+        message: `status must be one of: ${DISPUTE_STATUSES.join(", ")}`,
+      });
+    }
+    const where = status ? { status: status as string } : {};
+
+    const [disputes, total] = await Promise.all([
+      prisma.dispute.findMany({
+        where,
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { createdAt: "desc" },
+        include: {
+          order: {
+            select: {
+              id: true,
+              total: true,
+              guestEmail: true,
+              shippingStatus: true,
+              paymentStatus: true,
+              trackingNumber: true,
+              flagged: true,
+              user: { select: { email: true, name: true } },
+            },
+          },
+        },
+      }),
+      prisma.dispute.count({ where }),
+    ]);
+
+    res.json({
+      disputes,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get disputes error:", err);
+    res.status(500).json({ message: "Error fetching disputes" });
+  }
+};
+
+// Preview the evidence that would be submitted for a dispute (Admin)
+export const getDisputeEvidence = async (req: Request, res: Response) => {
+  try {
+    const { dispute, evidence } = await buildDisputeEvidence(req.params.id);
+    const { order, ...details } = dispute;
+
+    res.json({ dispute: details, evidence });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get dispute evidence error:", err);
+    res.status(500).json({ message: "Error building dispute evidence" });
+  }
+};
+
+// Send a dispute's evidence to Stripe; `submit: false` only saves it (Admin)
+export const submitDisputeEvidenceToStripe = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const { evidence, submit } = req.body;
+    const result = await submitDisputeEvidence(stripe, req.params.id, {
+      overrides: evidence,
+      submit: submit !== undefined ? Boolean(submit) : undefined,
+    });
+
+    res.json({
+      message: submit === false ? "Dispute evidence saved" : "Dispute evidence submitted",
+      ...result,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Submit dispute evidence error:", err);
+    res.status(500).json({ message: "Error submitting dispute evidence" });
+  }
+};
+
+// ==================== PAYMENT RECONCILIATION ====================
+
+// Past reconciliation runs, newest first, without their mismatch lists (Admin)
+export const getReconciliationRuns = async (req: Request, res: Response) => {
+  try {
+    const { page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const [runs, total] = await Promise.all([
+      prisma.reconciliationRun.findMany({
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { startedAt: "desc" },
+        omit: { mismatches: true },
+      }),
+      prisma.reconciliationRun.count(),
+    ]);
+
+    res.json({
+      runs,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get reconciliation runs error:", err);
+    res.status(500).json({ message: "Error fetching reconciliation runs" });
+  }
+};
+
+// One reconciliation run with its mismatch report (Admin)
+export const getReconciliationRun = async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.reconciliationRun.findUnique({
+      where: { id: req.params.id },
+    });
+    if (!run) {
+      return res.status(404).json({ message: "Reconciliation run not found" });
+    }
+
+    res.json({ run });
+  } catch (err) {
+    console.error("Get reconciliation run error:", err);
+    res.status(500).json({ message: "Error fetching reconciliation run" });
+  }
+};
+
+// Reconcile orders with Stripe now instead of waiting for the schedule (Admin)
+export const startReconciliationRun = async (req: Request, res: Response) => {
+  try {
+    const run = await runReconciliation({
+      trigger: "manual",
+      triggeredById: (req as any).user?.id,
+    });
+
+    res.json({ message: "Reconciliation completed", run });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Reconciliation run error:", err);
+    res.status(500).json({ message: "Error running reconciliation" });
+  }
+};
+
+// ==================== CURRENCIES & PRICE BOOKS ====================
+
+// Exchange rates for every supported currency (Admin)
+export const getExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const rates = await loadExchangeRates();
+    res.json({ rates });
+  } catch (err) {
+    console.error("Get exchange rates error:", err);
+    res.status(500).json({ message: "Error fetching exchange rates" });
+  }
+};
+
+// Set a currency's USD rate (Admin)
+export const updateExchangeRate = async (req: Request, res: Response) => {
+  try {
+    const rate = await setExchangeRate(req.params.currency, req.body.usdRate);
+    res.json({ message: "Exchange rate updated", rate });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update exchange rate error:", err);
+    res.status(500).json({ message: "Error updating exchange rate" });
+  }
+};
+
+// Set a product's prices in other currencies (Admin)
+export const updateProductPrices = async (req: Request, res: Response) => {
+  try {
+    const product = await prisma.product.findUnique({ where: { id: req.params.id } });
+    if (!product) {
+      return res.status(404).json({ message: "Product not found" });
+    }
+
+    const prices = await setPriceBook({ productId: product.id }, req.body.prices);
+    res.json({ message: "Product prices updated", prices });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update product prices error:", err);
+    res.status(500).json({ message: "Error updating product prices" });
+  }
+};
+
+// Set a pack recipe's prices in other currencies (Admin)
+export const updatePackRecipePrices = async (req: Request, res: Response) => {
+  try {
+    const recipe = await prisma.packRecipe.findUnique({ where: { id: req.params.id } });
+    if (!recipe) {
+      return res.status(404).json({ message: "Pack recipe not found" });
+    }
+
+    const prices = await setPriceBook({ recipeId: recipe.id }, req.body.prices);
+    res.json({ message: "Pack recipe prices updated", prices });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update pack recipe prices error:", err);
+    res.status(500).json({ message: "Error updating pack recipe prices" });
+  }
+};
+
+// ==================== SALES TAX ====================
+
+// Every configured tax rate (Admin)
+export const getTaxRates = async (req: Request, res: Response) => {
+  try {
+    const rates = await listTaxRates();
+    res.json({ rates });
+  } catch (err) {
+    console.error("Get tax rates error:", err);
+    res.status(500).json({ message: "Error fetching tax rates" });
+  }
+};
+
+// Create or replace the rate for a country or state/province (Admin)
+export const saveTaxRate = async (req: Request, res: Response) => {
+  try {
+    const rate = await upsertTaxRate(req.body || {});
+    res.json({ message: "Tax rate saved", rate });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Save tax rate error:", err);
+    res.status(500).json({ message: "Error saving tax rate" });
+  }
+};
+
+// Delete a tax rate (Admin)
+export const removeTaxRate = async (req: Request, res: Response) => {
+  try {
+    await deleteTaxRate(req.params.id);
+    res.json({ message: "Tax rate deleted" });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Delete tax rate error:", err);
+    res.status(500).json({ message: "Error deleting tax rate" });
+  }
+};
+
+// Tax collected per jurisdiction, for the current month unless from/to are given (Admin)
+export const getTaxReport = async (req: Request, res: Response) => {
+  try {
+    const now = new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+    const to = req.query.to ? new Date(String(req.query.to)) : now;
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ message: "from and to must be valid dates" });
+    }
+
+    const jurisdictions = await loadTaxReport(from, to);
+    res.json({ from, to, jurisdictions });
+  } catch (err) {
+    console.error("Get tax report error:", err);
+    res.status(500).json({ message: "Error fetching tax report" });
+  }
+};
+
+// ==================== GIFT CARDS & STORE CREDIT ====================
+
+// Gift cards, filtered by user, code or active/voided (Admin)
+export const getGiftCards = async (req: Request, res: Response) => {
+  try {
+    const { userId, code, status, page = 1, limit = 20 } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const where: any = {};
+    if (userId) where.userId = userId as string;
+    if (code) where.code = normalizeGiftCardCode(code as string);
+    if (status === "active") where.voidedAt = null;
+    if (status === "voided") where.voidedAt = { not: null };
+
+    const [giftCards, total] = await Promise.all([
+      prisma.giftCard.findMany({
+        where,
+        skip,
+        take: parseInt(limit as string),
+        orderBy: { createdAt: "desc" },
+        include: { user: { select: { id: true, email: true, name: true } } },
+      }),
+      prisma.giftCard.count({ where }),
+    ]);
+
+    res.json({
+      giftCards,
+      pagination: {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        total,
+        pages: Math.ceil(total / parseInt(limit as string)),
+      },
+    });
+  } catch (err) {
+    console.error("Get gift cards error:", err);
+    res.status(500).json({ message: "Error fetching gift cards" });
+  }
+};
+
+// A gift card with its full transaction history (Admin)
+export const getGiftCardById = async (req: Request, res: Response) => {
+  try {
+    const giftCard = await prisma.giftCard.findUnique({
+      where: { id: req.params.id },
+      include: {
+        user: { select: { id: true, email: true, name: true } },
+        entries: { orderBy: { createdAt: "desc" } },
+      },
+    });
+    if (!giftCard) {
+      return res.status(404).json({ message: "Gift card not found" });
+    }
+    res.json({ giftCard });
+  } catch (err) {
+    console.error("Get gift card error:", err);
+    res.status(500).json({ message: "Error fetching gift card" });
+  }
+};
+
+// Issue store credit to a user or a gift card to an email address (Admin)
+export const issueGiftCard = async (req: Request, res: Response) => {
+  try {
+    const { amount, currency, userId, recipientEmail, reason, expiresAt } = req.body || {};
+    const giftCard = await issueGiftCardCredit({
+      amount,
+      currency,
+      userId,
+      recipientEmail,
+      reason,
+      expiresAt,
+      issuedById: (req as any).user.id,
+    });
+    res.status(201).json({ message: "Gift card issued", giftCard });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Issue gift card error:", err);
+    res.status(500).json({ message: "Error issuing gift card" });
+  }
+};
+
+// Void a gift card and write off its balance (Admin)
+export const voidGiftCard = async (req: Request, res: Response) => {
+  try {
+    const giftCard = await voidGiftCardCredit(
+      req.params.id,
+      (req as any).user.id,
+      req.body?.reason
+    );
+    res.json({ message: "Gift card voided", giftCard });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Void gift card error:", err);
+    res.status(500).json({ message: "Error voiding gift card" });
+  }
+};
@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "../generated/prisma";
+import { toUsd } from "../services/currencyService";
 
 const prisma = new PrismaClient();
 
@@ -60,6 +61,7 @@ export const getDashboardAnalytics = async (req: Request, res: Response) => {
           select: {
             id: true,
             total: true,
+            fxRate: true,
             status: true,
             paymentStatus: true,
             createdAt: true,
@@ -79,11 +81,11 @@ export const getDashboardAnalytics = async (req: Request, res: Response) => {
         getRiskStats(startDate, endDate),
       ]);
 
-    // Calculate key metrics
+    // Calculate key metrics (revenue in USD across order currencies)
     const totalOrders = orders.length;
     const totalRevenue = orders
       .filter((order) => order.paymentStatus === "paid")
-      .reduce((sum, order) => sum + order.total, 0);
+      .reduce((sum, order) => sum + toUsd(order.total, order.fxRate), 0);
     const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
     // Calculate conversion rate (simplified - orders vs estimated visitors)
@@ -126,6 +128,7 @@ async function getHourlyStats(startDate: Date, endDate: Date) {
       select: {
         createdAt: true,
         total: true,
+        fxRate: true,
         paymentStatus: true,
       },
     });
@@ -143,7 +146,7 @@ async function getHourlyStats(startDate: Date, endDate: Date) {
       const current = hourlyMap.get(hour) || { orders: 0, revenue: 0 };
       current.orders += 1;
       if (order.paymentStatus === "paid") {
-        current.revenue += order.total;
+        current.revenue += toUsd(order.total, order.fxRate);
       }
       hourlyMap.set(hour, current);
     });
@@ -213,11 +216,12 @@ async function getPaymentStats(startDate: Date, endDate: Date) {
   }
 }
 
-// Get top performing products
+// Get top performing products (revenue in USD)
 async function getTopProducts(startDate: Date, endDate: Date) {
   try {
-    const topProducts = await prisma.orderItem.groupBy({
-      by: ["productId"],
+    // Item totals are in their order's currency, so they are converted before
+    // being summed instead of grouped in the database
+    const items = await prisma.orderItem.findMany({
       where: {
         order: {
           createdAt: {
@@ -229,22 +233,30 @@ async function getTopProducts(startDate: Date, endDate: Date) {
           paymentStatus: "paid",
         },
       },
-      _sum: {
+      select: {
+        productId: true,
         quantity: true,
         total: true,
+        order: { select: { fxRate: true } },
       },
-      orderBy: {
-        _sum: {
-          total: "desc",
-        },
-      },
-      take: 5,
     });
 
+    const totals = new Map<string | null, { quantity: number; revenue: number }>();
+    for (const item of items) {
+      const current = totals.get(item.productId) || { quantity: 0, revenue: 0 };
+      current.quantity += item.quantity;
+      current.revenue += toUsd(item.total, item.order.fxRate);
+      totals.set(item.productId, current);
+    }
+
+    const topProducts = [...totals.entries()]
+      .sort(([, a], [, b]) => b.revenue - a.revenue)
+      .slice(0, 5);
+
     // Get product details for the top products
     // Filter out null productIds (custom packs)
     const productIds = topProducts
-      .map((item) => item.productId)
+      .map(([productId]) => productId)
       .filter((id): id is string => id !== null);
     
     const products = await prisma.product.findMany({
@@ -254,10 +266,10 @@ async function getTopProducts(startDate: Date, endDate: Date) {
 
     const productMap = new Map(products.map((p) => [p.id, p.name]));
 
-    return topProducts.map((item) => ({
-      productName: item.productId ? (productMap.get(item.productId) || item.productId) : "Custom Pack",
-      quantity: item._sum.quantity || 0,
-      revenue: item._sum.total || 0,
+    return topProducts.map(([productId, stats]) => ({
+      productName: productId ? (productMap.get(productId) || productId) : "Custom Pack",
+      quantity: stats.quantity,
+      revenue: Math.round(stats.revenue * 100) / 100,
     }));
   } catch (error) {
     console.error("Top products error:", error);
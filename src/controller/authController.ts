@@ -1,7 +1,6 @@
 import { Request, Response } from "express";
 import bcrypt from "bcryptjs";
 import { prisma } from "../config/database";
-import { generateToken } from "../utils/jwt";
 import crypto from "crypto";
 import { sendResetEmail } from "../utils/mailer";
 import { logger } from "../utils/logger";
@@ -11,6 +10,59 @@ import {
   resendVerificationEmail,
   isUserVerified 
 } from "../utils/emailVerification";
+import { mergeGuestIntoAccount } from "../services/guestMergeService";
+import { clearGuestCookie } from "../middlewares/auth.middleware";
+import {
+  setAuthCookies,
+  setAccessCookie,
+  clearAuthCookies,
+  sessionCookieOptions,
+} from "../utils/authCookies";
+import {
+  createSession,
+  markSessionMfaVerified,
+  rotateSession,
+  endSession,
+  listSessions as listUserSessions,
+  revokeSession,
+  revokeAllSessions,
+} from "../services/sessionService";
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_MS,
+  buildAuthorizationRequest,
+  completeAuthorization,
+  findOrCreateOAuthUser,
+  oauthClientUrl,
+} from "../services/oauthService";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  isMfaRequired,
+  verifySecondFactor,
+  getMfaStatus as loadMfaStatus,
+  beginMfaEnrollment,
+  confirmMfaEnrollment,
+  regenerateBackupCodes as replaceBackupCodes,
+  disableMfa as turnOffMfa,
+} from "../services/mfaService";
+import { generateMfaChallengeToken, verifyMfaChallengeToken } from "../utils/jwt";
+
+const clientInfo = (req: Request) => ({
+  userAgent: req.get("user-agent"),
+  ipAddress: req.ip,
+});
+
+// Start a session for this device and set its cookies
+const startSession = async (
+  req: Request,
+  res: Response,
+  user: { id: string; role: string },
+  options: { mfaVerified?: boolean } = {}
+) => {
+  const tokens = await createSession(user, clientInfo(req), options);
+  setAuthCookies(res, tokens);
+  return tokens;
+};
 
 export const register = async (req: Request, res: Response) => {
   const { name, email, password } = req.body;
@@ -43,32 +95,28 @@ export const register = async (req: Request, res: Response) => {
       // Don't fail registration if email fails
     }
 
-    const token = generateToken(String(newUser.id), newUser.role);
-
-    // Determine cookie domain based on environment and request origin
-    let cookieDomain = undefined;
-    if (process.env.NODE_ENV === "production") {
-      // Use leading dot to make cookie work across all subdomains
-      cookieDomain = ".licorice4good.com";
-    } else if (req.headers.origin?.includes('localhost')) {
-      // For local development, don't set domain to allow localhost access
-      cookieDomain = undefined;
+    // Keep the cart they built as a guest; guest orders are linked once the
+    // email is verified
+    const guestId = req.cookies?.guestId;
+    if (guestId) {
+      await mergeGuestIntoAccount({
+        userId: newUser.id,
+        email: newUser.email,
+        isVerified: false,
+        guestId,
+      });
+      clearGuestCookie(res);
     }
 
+    const tokens = await startSession(req, res, newUser);
+
     res
-      .cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-        domain: cookieDomain,
-        path: "/",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      })
       .status(201)
       .json({ 
         message: "Registration successful. Please check your email to verify your account.",
         user: { ...newUser, password: undefined },
-        token: token,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
         requiresVerification: true
       });
   } catch (err) {
@@ -89,7 +137,8 @@ export const login = async (req: Request, res: Response) => {
         email: true,
         password: true,
         role: true,
-        isVerified: true
+        isVerified: true,
+        mfaEnabled: true,
       }
     });
     if (!user) {
@@ -114,30 +163,37 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
-    const token = generateToken(String(user.id), user.role);
-    // Determine cookie domain based on environment and request origin
-    let cookieDomain = undefined;
-    if (process.env.NODE_ENV === "production") {
-      // Use leading dot to make cookie work across all subdomains
-      cookieDomain = ".licorice4good.com";
-    } else if (req.headers.origin?.includes('localhost')) {
-      // For local development, don't set domain to allow localhost access
-      cookieDomain = undefined;
+    // Second step: the client sends a code with this token to /auth/login/mfa
+    if (user.mfaEnabled) {
+      return res.status(200).json({
+        message: "Enter the code from your authenticator app",
+        mfaRequired: true,
+        mfaToken: generateMfaChallengeToken(user.id),
+      });
     }
 
+    const guestId = req.cookies?.guestId;
+    const merged = await mergeGuestIntoAccount({
+      userId: user.id,
+      email: user.email,
+      isVerified: user.isVerified,
+      guestId,
+    });
+    if (guestId) {
+      clearGuestCookie(res);
+    }
+
+    const tokens = await startSession(req, res, user);
+
     res
-      .cookie("token", token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-        domain: cookieDomain,
-        path: "/",
-        maxAge: 7 * 24 * 60 * 60 * 1000,
-      })
       .status(200)
       .json({
         user: { ...user, password: undefined },
-        token: token,
+        token: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        merged,
+        // Admins must enroll before admin routes will accept them
+        mfaSetupRequired: isMfaRequired(user),
       });
   } catch (err) {
     logger.error("Login error:", err);
@@ -145,6 +201,142 @@ export const login = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Second login step: the challenge token from login (or a provider sign-in)
+ * plus an authenticator or backup code
+ */
+export const loginMfa = async (req: Request, res: Response) => {
+  const { mfaToken, code } = req.body;
+  try {
+    const claims = mfaToken ? verifyMfaChallengeToken(mfaToken) : null;
+    if (!claims) {
+      return res.status(401).json({ message: "Sign-in expired, please log in again" });
+    }
+
+    const { user, method } = await verifySecondFactor(claims.id, code);
+
+    const guestId = req.cookies?.guestId;
+    const merged = await mergeGuestIntoAccount({
+      userId: user.id,
+      email: user.email,
+      isVerified: user.isVerified,
+      guestId,
+    });
+    if (guestId) {
+      clearGuestCookie(res);
+    }
+
+    const tokens = await startSession(req, res, user, { mfaVerified: true });
+
+    res.status(200).json({
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        isVerified: user.isVerified,
+      },
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      merged,
+      method,
+      backupCodesRemaining:
+        method === "backup_code" ? user.mfaBackupCodes.length - 1 : user.mfaBackupCodes.length,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    logger.error("MFA login error:", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+// Where the provider sends the browser back to. API_URL is the public URL of
+// this API, for when it runs behind a proxy path
+const oauthRedirectUri = (req: Request, provider: string) =>
+  `${process.env.API_URL || `${req.protocol}://${req.get("host")}`}/auth/oauth/${provider}/callback`;
+
+export const startOAuth = async (req: Request, res: Response) => {
+  const provider = String(req.params.provider);
+  try {
+    const { url, stateCookie } = await buildAuthorizationRequest(provider, {
+      redirectUri: oauthRedirectUri(req, provider),
+      returnTo: req.query.returnTo,
+    });
+    res
+      .cookie(OAUTH_STATE_COOKIE, stateCookie, {
+        ...sessionCookieOptions(),
+        maxAge: OAUTH_STATE_TTL_MS,
+      })
+      .redirect(url);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    logger.error("OAuth start error:", err);
+    res.status(500).json({ message: "Could not start sign-in" });
+  }
+};
+
+/**
+ * Provider callback (GET for Google, form POST for Apple): signs the user in
+ * with the same cookie as login and returns them to the storefront
+ */
+export const oauthCallback = async (req: Request, res: Response) => {
+  const provider = String(req.params.provider);
+  const params = req.method === "POST" ? req.body : req.query;
+  res.clearCookie(OAUTH_STATE_COOKIE, sessionCookieOptions());
+
+  let clientUrl: string;
+  try {
+    clientUrl = oauthClientUrl();
+  } catch (err) {
+    logger.error("OAuth callback error:", err);
+    return res.status(503).json({ message: "Sign-in is not available" });
+  }
+
+  try {
+    const { profile, returnTo } = await completeAuthorization(provider, {
+      code: params.code,
+      state: params.state,
+      error: params.error,
+      user: params.user,
+      stateCookie: req.cookies?.[OAUTH_STATE_COOKIE],
+      redirectUri: oauthRedirectUri(req, provider),
+    });
+    const user = await findOrCreateOAuthUser(profile);
+
+    if (user.mfaEnabled) {
+      const mfaToken = generateMfaChallengeToken(user.id);
+      return res.redirect(
+        `${clientUrl}/login/mfa?mfaToken=${encodeURIComponent(mfaToken)}&returnTo=${encodeURIComponent(returnTo)}`
+      );
+    }
+
+    const guestId = req.cookies?.guestId;
+    await mergeGuestIntoAccount({
+      userId: user.id,
+      email: user.email,
+      isVerified: user.isVerified,
+      guestId,
+    });
+    if (guestId) {
+      clearGuestCookie(res);
+    }
+
+    await startSession(req, res, user);
+    res.redirect(`${clientUrl}${returnTo}`);
+  } catch (err) {
+    const message =
+      err instanceof CustomError ? err.message : "Sign-in failed, please try again";
+    if (!(err instanceof CustomError)) {
+      logger.error("OAuth callback error:", err);
+    }
+    res.redirect(`${clientUrl}/login?error=${encodeURIComponent(message)}`);
+  }
+};
+
 export const forgotPassword = async (req: Request, res: Response) => {
   const { email } = req.body;
   try {
@@ -205,6 +397,9 @@ export const resetPassword = async (req: Request, res: Response) => {
       },
     });
 
+    // Whoever knew the old password is signed out
+    await revokeAllSessions(user.id, "password_reset");
+
     res.status(200).json({ message: "Password reset successful" });
   } catch (err) {
     console.error("Error resetting password:", err);
@@ -212,27 +407,93 @@ export const resetPassword = async (req: Request, res: Response) => {
   }
 };
 
-export const logout = (req: Request, res: Response) => {
-  // Determine cookie domain based on environment and request origin
-  let cookieDomain = undefined;
-  if (process.env.NODE_ENV === "production") {
-    // Use leading dot to make cookie work across all subdomains
-    cookieDomain = ".licorice4good.com";
-  } else if (req.headers.origin?.includes('localhost')) {
-    // For local development, don't set domain to allow localhost access
-    cookieDomain = undefined;
+export const logout = async (req: Request, res: Response) => {
+  try {
+    await endSession(req.cookies?.refreshToken || req.body?.refreshToken);
+  } catch (err) {
+    logger.error("Error ending session on logout:", err);
   }
-
-  res.clearCookie("token", {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-    domain: cookieDomain,
-    path: "/",
-  });
+  clearAuthCookies(res);
   res.status(200).json({ message: "Logged out successfully", user: null });
 };
 
+/**
+ * New access token for the session's refresh token (cookie, or body for
+ * non-browser clients). The refresh token is rotated on every call.
+ */
+export const refresh = async (req: Request, res: Response) => {
+  const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
+  if (!refreshToken) {
+    return res.status(401).json({ message: "Refresh token required", code: "NO_REFRESH_TOKEN" });
+  }
+
+  try {
+    const tokens = await rotateSession(refreshToken, clientInfo(req));
+    setAuthCookies(res, tokens)
+      .status(200)
+      .json({ token: tokens.accessToken, refreshToken: tokens.refreshToken });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      if (err.statusCode === 401) {
+        clearAuthCookies(res);
+      }
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    logger.error("Token refresh error:", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+export const listSessions = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    const sessions = await listUserSessions(userId);
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === sessionId,
+      })),
+    });
+  } catch (err) {
+    logger.error("Error listing sessions:", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+/**
+ * Sign out one device. Ending the current session also clears its cookies.
+ */
+export const deleteSession = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    await revokeSession(userId, String(req.params.id));
+    if (req.params.id === sessionId) {
+      clearAuthCookies(res);
+    }
+    res.json({ message: "Session ended" });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    logger.error("Error ending session:", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+/**
+ * Sign out every other device
+ */
+export const deleteOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    const revoked = await revokeAllSessions(userId, "user", sessionId);
+    res.json({ message: "Other sessions ended", revoked });
+  } catch (err) {
+    logger.error("Error ending sessions:", err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
 export const me = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.id;
@@ -321,10 +582,22 @@ export const verifyEmail = async (req: Request, res: Response) => {
       });
     }
 
+    // The account now owns the email, so its guest orders can be linked
+    const merged = await mergeGuestIntoAccount({
+      userId: result.user.id,
+      email: result.user.email,
+      isVerified: true,
+      guestId: req.cookies?.guestId,
+    });
+    if (req.cookies?.guestId) {
+      clearGuestCookie(res);
+    }
+
     res.status(200).json({
       message: result.message,
       verified: true,
-      user: result.user
+      user: result.user,
+      merged,
     });
   } catch (err) {
     logger.error("Email verification error:", err);
@@ -384,3 +657,83 @@ export const checkVerificationStatus = async (req: Request, res: Response) => {
     });
   }
 };
+
+// Two-factor authentication
+
+const handleMfaError = (res: Response, err: unknown, label: string) => {
+  if (err instanceof CustomError) {
+    return res.status(err.statusCode).json({ message: err.message });
+  }
+  logger.error(`${label}:`, err);
+  res.status(500).json({ message: "Server error" });
+};
+
+export const getMfaStatus = async (req: Request, res: Response) => {
+  try {
+    const status = await loadMfaStatus((req as any).user.id);
+    res.json(status);
+  } catch (err) {
+    handleMfaError(res, err, "Error loading MFA status");
+  }
+};
+
+export const setupMfa = async (req: Request, res: Response) => {
+  try {
+    const enrollment = await beginMfaEnrollment((req as any).user.id);
+    res.json({
+      ...enrollment,
+      message: "Scan the QR code in your authenticator app, then confirm with a code",
+    });
+  } catch (err) {
+    handleMfaError(res, err, "Error starting MFA setup");
+  }
+};
+
+/**
+ * Turn two-factor on with the first code. The current session counts as
+ * verified, so an admin can use admin routes right away.
+ */
+export const confirmMfa = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    const backupCodes = await confirmMfaEnrollment(userId, req.body.code);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+    let token: string;
+    if (sessionId) {
+      token = await markSessionMfaVerified(sessionId, user);
+      setAccessCookie(res, token);
+    } else {
+      token = (await startSession(req, res, user, { mfaVerified: true })).accessToken;
+    }
+
+    res.json({
+      message: "Two-factor authentication enabled. Store these backup codes somewhere safe.",
+      backupCodes,
+      token,
+    });
+  } catch (err) {
+    handleMfaError(res, err, "Error confirming MFA setup");
+  }
+};
+
+export const regenerateBackupCodes = async (req: Request, res: Response) => {
+  try {
+    const backupCodes = await replaceBackupCodes((req as any).user.id, req.body.code);
+    res.json({ message: "New backup codes generated; the old ones no longer work", backupCodes });
+  } catch (err) {
+    handleMfaError(res, err, "Error regenerating backup codes");
+  }
+};
+
+export const disableMfa = async (req: Request, res: Response) => {
+  try {
+    await turnOffMfa((req as any).user.id, req.body.code);
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (err) {
+    handleMfaError(res, err, "Error disabling MFA");
+  }
+};
@@ -0,0 +1,73 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  createGiftCardCheckout,
+  getGiftCardBalance as lookupGiftCardBalance,
+} from "../services/giftCardService";
+
+const prisma = new PrismaClient();
+
+const handleError = (res: Response, err: unknown, label: string, message: string) => {
+  if (err instanceof CustomError) {
+    return res.status(err.statusCode).json({ message: err.message });
+  }
+  console.error(`${label} error:`, err);
+  return res.status(500).json({ message });
+};
+
+// Buy a digital gift card through Stripe Checkout
+export const purchaseGiftCard = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const { amount, currency, recipientEmail, recipientName, message, successUrl, cancelUrl } =
+      req.body || {};
+
+    const result = await createGiftCardCheckout(stripe, {
+      amount,
+      currency,
+      recipientEmail,
+      recipientName,
+      message,
+      purchaserId: (req as any).user?.id,
+      successUrl,
+      cancelUrl,
+    });
+
+    res.status(201).json(result);
+  } catch (err) {
+    return handleError(res, err, "Purchase gift card", "Error starting gift card purchase");
+  }
+};
+
+// Check the balance left on a gift card code
+export const getGiftCardBalance = async (req: Request, res: Response) => {
+  try {
+    const giftCard = await lookupGiftCardBalance(req.params.code);
+    res.json({ giftCard });
+  } catch (err) {
+    return handleError(res, err, "Gift card balance", "Error checking gift card balance");
+  }
+};
+
+// The current user's store credit and gift cards with their history
+export const getMyGiftCards = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    const giftCards = await prisma.giftCard.findMany({
+      where: { userId: user.id, voidedAt: null },
+      include: { entries: { orderBy: { createdAt: "desc" } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({ giftCards });
+  } catch (err) {
+    return handleError(res, err, "Get gift cards", "Error fetching gift cards");
+  }
+};
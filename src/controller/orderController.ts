@@ -1,5 +1,32 @@
 import { Request, Response } from "express";
-import { PrismaClient } from "../generated/prisma";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import {
+  calculateOrderTotals,
+  OrderLineInput,
+  PricingError,
+  roundCurrency,
+} from "../services/pricingService";
+import { refundOrder as refundOrderWithStripe } from "../services/refundService";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  getOrderHistory as getOrderStatusHistory,
+  ORDER_STATUSES,
+  recordOrderCreated,
+  transitionOrder,
+} from "../services/orderStatusService";
+import { PromotionError, recordRedemption } from "../services/promotionService";
+import { getTrackingTimeline } from "../services/trackingService";
+import { createReturnRequest, getReturnsForOrder } from "../services/returnService";
+import { GiftCardError, redeemGiftCard, resolveGiftCard } from "../services/giftCardService";
+import { enqueueFulfillment } from "../services/fulfillmentService";
+import { consumeOrderItemStock } from "../services/inventoryReservationService";
+import { sendOrderAccessEmail } from "../utils/mailer";
+import {
+  generateOrderAccessToken,
+  ORDER_ACCESS_TTL_HOURS,
+  verifyOrderAccessToken,
+} from "../utils/jwt";
 
 const prisma = new PrismaClient();
 
@@ -29,50 +56,51 @@ export const createOrder = async (req: Request, res: Response) => {
       orderItems,
       total: requestTotal,
       guestEmail,
+      selectedShippingRate,
+      discountCode,
+      currency,
+      giftCardCode,
     } = req.body;
 
     // Define user identifier once for the entire function
     const userIdentifier = isGuest ? { guestId } : { userId: dbUser?.id };
 
-    // Shipping address validation - allow empty since Stripe will collect it
-    // If shippingAddress is provided, validate it, otherwise allow empty (Stripe will collect)
-    if (shippingAddress && typeof shippingAddress === "object") {
-      const { street, city, state, zipCode, country } = shippingAddress;
+    // Tax is computed from the ship-to address, so it must be known up front
+    if (!shippingAddress || typeof shippingAddress !== "object") {
+      return res.status(400).json({
+        message: "A shipping address is required to calculate tax",
+      });
+    }
 
-      // If any field is provided, all required fields must be provided
-      if (street || city || state || zipCode || country) {
-        if (!street || !city || !state || !zipCode || !country) {
-          return res.status(400).json({
-            message:
-              "All shipping address fields are required: street, city, state, zipCode, and country",
-          });
-        }
+    const { street, city, state, zipCode, country } = shippingAddress;
+    if (!street || !city || !state || !zipCode || !country) {
+      return res.status(400).json({
+        message:
+          "All shipping address fields are required: street, city, state, zipCode, and country",
+      });
+    }
 
-        if (
-          street.trim() === "" ||
-          city.trim() === "" ||
-          state.trim() === "" ||
-          zipCode.trim() === ""
-        ) {
-          return res.status(400).json({
-            message: "Shipping address fields cannot be empty",
-          });
-        }
-      }
+    if (
+      street.trim() === "" ||
+      city.trim() === "" ||
+      state.trim() === "" ||
+      zipCode.trim() === ""
+    ) {
+      return res.status(400).json({
+        message: "Shipping address fields cannot be empty",
+      });
     }
 
-    let orderItemsToCreate: any[] = [];
-    let calculatedTotal = 0;
-    let cartLines: any[] = []; // Store cart lines for inventory updates
+    let lineInputs: OrderLineInput[] = [];
+    let cartLines: any[] = []; // Cart lines the order is built from, cleared once it is placed
 
     // Check if frontend sent orderItems directly (new approach)
     if (orderItems && Array.isArray(orderItems) && orderItems.length > 0) {
       // Validate and process direct order items
       for (const item of orderItems) {
-        if (!item.productId || !item.quantity || !item.price) {
+        if (!item.productId || !item.quantity) {
           return res.status(400).json({
-            message:
-              "Invalid order item: productId, quantity, and price are required",
+            message: "Invalid order item: productId and quantity are required",
           });
         }
 
@@ -137,23 +165,19 @@ export const createOrder = async (req: Request, res: Response) => {
           }
         }
 
-        const itemTotal = item.price * item.quantity;
-        const orderItem: any = {
+        // Prices are resolved on the server below; the client price is only
+        // passed along so a mismatch can be rejected
+        lineInputs.push({
           productId: item.productId,
+          recipeId: item.recipeId,
+          flavorIds:
+            item.productId === "3-pack" && item.isCustomPack
+              ? item.flavorIds
+              : [],
           quantity: item.quantity,
           price: item.price,
-          total: itemTotal,
-        };
-
-        // Add custom pack data if applicable
-        if (item.productId === "3-pack" && item.isCustomPack) {
-          orderItem.flavorIds = item.flavorIds;
-          orderItem.customPackName = item.customPackName || "Custom 3-Pack";
-        }
-
-        orderItemsToCreate.push(orderItem);
-
-        calculatedTotal += itemTotal;
+          customPackName: item.customPackName,
+        });
       }
     } else {
       // 3-PACK CART APPROACH - Convert CartLine items to OrderItems
@@ -232,104 +256,163 @@ export const createOrder = async (req: Request, res: Response) => {
         }
       }
 
-      // Convert cart lines to order items
-      orderItemsToCreate = cartLines.map((cartLine) => ({
+      // Convert cart lines to order lines (cart unit prices may be stale, so
+      // they are re-priced below instead of being copied)
+      lineInputs = cartLines.map((cartLine) => ({
         productId: cartLine.productId,
+        recipeId: cartLine.recipeId,
+        flavorIds: cartLine.flavorIds,
         quantity: cartLine.quantity,
-        price: cartLine.unitPrice,
-        total: cartLine.quantity * cartLine.unitPrice,
       }));
+    }
 
-      calculatedTotal = cartLines.reduce(
-        (sum, cartLine) => sum + cartLine.quantity * cartLine.unitPrice,
-        0
-      );
-
-      // Clear the cart after successful order creation
-      await prisma.cartLine.deleteMany({
-        where: userIdentifier,
+    const orderEmail = isGuest
+      ? guestEmail || shippingAddress?.email
+      : dbUser?.email;
+    const promotionCustomer = { userId: dbUser?.id, email: orderEmail };
+
+    // Resolve every price, the discount, the shipping rate, tax and the total on the server
+    let pricing;
+    try {
+      pricing = await calculateOrderTotals({
+        items: lineInputs,
+        selectedShippingRate,
+        expectedTotal: requestTotal,
+        discountCode,
+        customer: promotionCustomer,
+        currency,
+        shipTo: shippingAddress,
       });
+    } catch (pricingError) {
+      if (pricingError instanceof PricingError) {
+        return res.status(400).json({
+          message: pricingError.message,
+          ...pricingError.details,
+        });
+      }
+      if (pricingError instanceof PromotionError) {
+        return res
+          .status(pricingError.statusCode)
+          .json({ message: pricingError.message });
+      }
+      throw pricingError;
     }
 
-    // Use provided total or calculated total
-    const finalTotal = requestTotal || calculatedTotal;
+    // A gift card pays what it can; the rest is charged through Stripe
+    let giftCard;
+    try {
+      giftCard = await resolveGiftCard({
+        code: giftCardCode,
+        currency: pricing.currency,
+        amountDue: pricing.total,
+        userId: dbUser?.id,
+      });
+    } catch (giftCardError) {
+      if (giftCardError instanceof GiftCardError) {
+        return res
+          .status(giftCardError.statusCode)
+          .json({ message: giftCardError.message });
+      }
+      throw giftCardError;
+    }
+    const paidByGiftCard = !!giftCard && giftCard.amount >= pricing.total;
+
+    const orderItemsToCreate = pricing.lines.map((line) => ({
+      productId: line.productId,
+      recipeId: line.recipeId,
+      quantity: line.quantity,
+      price: line.unitPrice,
+      total: line.total,
+      flavorIds: line.flavorIds,
+      customPackName: line.customPackName,
+    }));
+
+    // Create order and order items, and count the promotion against its
+    // limits and take the gift card credit in the same transaction
+    let order;
+    try {
+      order = await prisma.$transaction(async (tx) => {
+        const created = await tx.order.create({
+          data: {
+            userId: dbUser?.id ?? undefined,
+            guestId: isGuest ? guestId : undefined,
+            guestEmail: isGuest ? orderEmail : undefined,
+            total: pricing.total,
+            currency: pricing.currency,
+            fxRate: pricing.fxRate,
+            shippingCost: pricing.shippingRate ? pricing.shipping : undefined,
+            shippingRate: pricing.shippingRate
+              ? (pricing.shippingRate as unknown as Prisma.InputJsonValue)
+              : undefined,
+            discountAmount: pricing.discount,
+            discountCode: pricing.promotion?.code,
+            promotionId: pricing.promotion?.promotionId,
+            taxAmount: pricing.tax,
+            taxBreakdown: pricing.taxBreakdown as unknown as Prisma.InputJsonValue,
+            giftCardId: giftCard?.giftCardId,
+            giftCardAmount: giftCard?.amount ?? 0,
+            // Nothing left for Stripe to charge
+            ...(paidByGiftCard ? { status: "confirmed", paymentStatus: "paid" } : {}),
+            shippingAddress,
+            orderNotes,
+            orderItems: {
+              create: orderItemsToCreate,
+            },
+          },
+          include: {
+            orderItems: true,
+          },
+        });
 
-    // Create order and order items
-    const order = await prisma.order.create({
-      data: {
-        userId: dbUser?.id ?? undefined,
-        guestId: isGuest ? guestId : undefined,
-        guestEmail: isGuest ? (guestEmail || shippingAddress?.email) : undefined,
-        total: finalTotal,
-        shippingAddress,
-        orderNotes,
-        orderItems: {
-          create: orderItemsToCreate,
-        },
-      },
-      include: {
-        orderItems: true,
-      },
-    });
+        await recordOrderCreated(
+          created,
+          {
+            source: "customer",
+            actorId: dbUser?.id,
+            actorLabel: isGuest ? "guest" : null,
+          },
+          tx
+        );
 
-    // Update inventory for all order items
-    for (const item of orderItemsToCreate) {
-      try {
-        // For 3-pack products, we need to deduct from flavor inventory
-        if (item.productId === "3-pack") {
-          // Get the cart line to find flavor details
-          const cartLine = cartLines.find(
-            (cl) => cl.productId === item.productId
-          );
+        if (pricing.promotion) {
+          await recordRedemption(tx, {
+            applied: pricing.promotion,
+            orderId: created.id,
+            customer: promotionCustomer,
+          });
+        }
 
-          if (cartLine?.packRecipe) {
-            // Handle predefined recipes
-            for (const recipeItem of cartLine.packRecipe.items) {
-              await prisma.flavorInventory.update({
-                where: { flavorId: recipeItem.flavor.id },
-                data: {
-                  onHand: {
-                    decrement: recipeItem.quantity * item.quantity,
-                  },
-                  reserved: {
-                    decrement: recipeItem.quantity * item.quantity,
-                  },
-                },
-              });
-            }
-          } else if (cartLine?.flavorIds.length > 0) {
-            // Handle custom packs
-            for (const flavorId of cartLine.flavorIds) {
-              await prisma.flavorInventory.update({
-                where: { flavorId },
-                data: {
-                  onHand: {
-                    decrement: item.quantity,
-                  },
-                  reserved: {
-                    decrement: item.quantity,
-                  },
-                },
-              });
-            }
-          }
-        } else {
-          // Handle regular products
-          await prisma.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: {
-                decrement: item.quantity,
-              },
-            },
+        if (giftCard) {
+          await redeemGiftCard(tx, giftCard, {
+            orderId: created.id,
+            actorId: dbUser?.id,
           });
         }
-      } catch (error) {
-        console.warn(
-          `Could not update inventory for product ${item.productId}:`,
-          error
-        );
+        // Stock is taken when an order is paid; one the gift card covers is
+        // paid now, the rest when Stripe confirms payment
+        if (paidByGiftCard) {
+          for (const item of created.orderItems) {
+            await consumeOrderItemStock(tx, item, item.quantity);
+          }
+          await enqueueFulfillment(created.id, tx);
+        }
+
+        return created;
+      });
+    } catch (orderError) {
+      if (orderError instanceof PromotionError || orderError instanceof GiftCardError) {
+        return res
+          .status(orderError.statusCode)
+          .json({ message: orderError.message });
       }
+      throw orderError;
+    }
+
+    if (cartLines.length > 0) {
+      // Clear the cart after successful order creation
+      await prisma.cartLine.deleteMany({
+        where: userIdentifier,
+      });
     }
 
     // SINGLE PRODUCT CART CLEARING - COMMENTED OUT (ONLY USING 3-PACK CART)
@@ -342,67 +425,13 @@ export const createOrder = async (req: Request, res: Response) => {
     }
     */
 
-    // Create shipment if shipping address is provided
-    let shipmentData = null;
-    if (shippingAddress && shippingAddress.street && shippingAddress.city && shippingAddress.state && shippingAddress.zipCode) {
-      try {
-        // Import Shippo service dynamically to avoid circular dependencies
-        const { createShipment, getShippingRates } = await import('../services/shippoService');
-        
-        // Calculate parcel dimensions and weight (default values for licorice)
-        const parcels = [{
-          length: '6',
-          width: '4',
-          height: '2',
-          weight: '0.5', // 0.5 lbs per order
-          massUnit: 'lb' as const,
-          distanceUnit: 'in' as const,
-        }];
-
-        // Convert shipping address format for Shippo
-        const shippoAddress = {
-          name: shippingAddress.name || `${user.name || 'Customer'}`,
-          company: shippingAddress.company || '',
-          email: user.email || '',
-          phone: shippingAddress.phone || '',
-          street1: shippingAddress.street,
-          street2: shippingAddress.street2 || '',
-          city: shippingAddress.city,
-          state: shippingAddress.state,
-          zip: shippingAddress.zipCode,
-          country: shippingAddress.country || 'US',
-        };
-
-        // Get shipping rates first
-        const rates = await getShippingRates(shippoAddress, parcels);
-        
-        if (rates.length > 0) {
-          // Use the first (cheapest) rate for now
-          const selectedRate = rates[0];
-          
-          shipmentData = await createShipment({
-            orderId: order.id,
-            toAddress: shippoAddress,
-            parcels,
-          }, selectedRate.objectId, {
-            carrier: selectedRate.carrier,
-            amount: selectedRate.amount,
-            serviceName: selectedRate.serviceName
-          });
-          
-          console.log('📦 Shipment created:', shipmentData);
-        }
-      } catch (shipmentError) {
-        console.error('Shipment creation failed:', shipmentError);
-        // Don't fail the order if shipment creation fails
-        // The order is still valid, just without shipment tracking
-      }
-    }
+    // The shipping label is bought by the fulfillment worker once the order
+    // is paid, using the rate stored on the order
 
     res.status(201).json({
       message: "Order created successfully",
       order,
-      shipment: shipmentData,
+      amountDue: roundCurrency(order.total - order.giftCardAmount),
     });
   } catch (err) {
     console.error("Create order error:", err);
@@ -471,14 +500,82 @@ export const getUserOrders = async (req: Request, res: Response) => {
   }
 };
 
-// Get order by ID
+/**
+ * Whether the caller may see an order: an admin, the account or guest session
+ * that placed it, or anyone holding a signed order link (`?access=` or the
+ * X-Order-Access header) emailed to the guest
+ */
+export const canAccessOrder = (
+  req: Request,
+  order: { id: string; userId: string | null; guestId: string | null }
+) => {
+  const user = (req as any).user;
+  const guestId = (req as any).guestId;
+  if (user?.role === "admin" && user.mfa) return true;
+  if (user && order.userId === user.id) return true;
+  if (guestId && order.guestId === guestId) return true;
+
+  const accessToken = req.query.access || req.headers["x-order-access"];
+  return (
+    typeof accessToken === "string" &&
+    !!verifyOrderAccessToken(accessToken, order.id)
+  );
+};
+
+// Email a guest a signed link to their order, given its id and their email
+export const requestOrderAccess = async (req: Request, res: Response) => {
+  try {
+    const { orderId, guestEmail } = req.body || {};
+    if (!orderId || !guestEmail) {
+      return res
+        .status(400)
+        .json({ message: "Order number and email are required" });
+    }
+
+    // The response is the same whether or not the order matches, so the
+    // endpoint can't be used to discover orders
+    const response = {
+      message:
+        "If that order matches your email, we've sent you a link to view it.",
+    };
+
+    const order = await prisma.order.findFirst({
+      where: {
+        id: String(orderId).trim().replace(/^#/, ""),
+        userId: null,
+        guestEmail: { equals: String(guestEmail).trim(), mode: "insensitive" },
+      },
+      select: { id: true, guestEmail: true, shippingAddress: true },
+    });
+    if (!order?.guestEmail) {
+      return res.json(response);
+    }
+
+    const token = generateOrderAccessToken(order.id, order.guestEmail);
+    const link = `${process.env.CLIENT_URL}/orders/${order.id}?access=${token}`;
+    try {
+      await sendOrderAccessEmail(order.guestEmail, {
+        orderId: order.id,
+        customerName: (order.shippingAddress as any)?.name || "there",
+        link,
+        expiresInHours: ORDER_ACCESS_TTL_HOURS,
+      });
+    } catch (emailError) {
+      console.error("❌ Error sending order access email:", emailError);
+    }
+
+    res.json(response);
+  } catch (err) {
+    console.error("Order lookup error:", err);
+    res.status(500).json({ message: "Error looking up order" });
+  }
+};
+
+// Get order by ID (admin, the order's owner, or a signed order link)
 export const getOrderById = async (req: Request, res: Response) => {
   try {
-    const user = (req as any).user;
     const { id } = req.params;
 
-    // Public order tracking - no authentication required
-    // Just find the order by ID
     const order = await prisma.order.findUnique({
       where: { id },
       include: {
@@ -490,7 +587,7 @@ export const getOrderById = async (req: Request, res: Response) => {
       },
     });
 
-    if (!order) {
+    if (!order || !canAccessOrder(req, order)) {
       return res.status(404).json({ message: "Order not found" });
     }
 
@@ -501,6 +598,141 @@ export const getOrderById = async (req: Request, res: Response) => {
   }
 };
 
+// Get status history for an order (admin, the order's owner, or a signed order link)
+export const getOrderHistory = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        userId: true,
+        guestId: true,
+        status: true,
+        paymentStatus: true,
+        shippingStatus: true,
+      },
+    });
+
+    if (!order || !canAccessOrder(req, order)) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const events = await getOrderStatusHistory(id);
+
+    res.json({
+      orderId: order.id,
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      shippingStatus: order.shippingStatus,
+      // Customers don't need to know which admin account made a change
+      events: user?.role === "admin" && user.mfa
+        ? events
+        : events.map(({ actorId, ...event }) => event),
+    });
+  } catch (err) {
+    console.error("Error fetching order history:", err);
+    res.status(500).json({ message: "Error fetching order history" });
+  }
+};
+
+// Get the delivery timeline for an order (admin, the order's owner, or a signed order link)
+export const getOrderTracking = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        userId: true,
+        guestId: true,
+        shippingStatus: true,
+        shippingCarrier: true,
+        trackingNumber: true,
+        trackingUrl: true,
+      },
+    });
+
+    if (!order || !canAccessOrder(req, order)) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const events = await getTrackingTimeline(id);
+
+    res.json({
+      orderId: order.id,
+      shippingStatus: order.shippingStatus,
+      carrier: order.shippingCarrier,
+      trackingNumber: order.trackingNumber,
+      trackingUrl: order.trackingUrl,
+      events,
+    });
+  } catch (err) {
+    console.error("Error fetching order tracking:", err);
+    res.status(500).json({ message: "Error fetching order tracking" });
+  }
+};
+
+// Load an order's owner fields and check the caller may act on it
+const findOwnOrder = async (req: Request, id: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id },
+    select: { id: true, userId: true, guestId: true },
+  });
+
+  return order && canAccessOrder(req, order) ? order : null;
+};
+
+// Request a return for a delivered order (the order's owner)
+export const createOrderReturn = async (req: Request, res: Response) => {
+  try {
+    const order = await findOwnOrder(req, req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const { items, reason, notes } = req.body;
+    const returnRequest = await createReturnRequest({
+      orderId: order.id,
+      items,
+      reason,
+      notes,
+      requestedById: (req as any).user?.id,
+    });
+
+    res.status(201).json({
+      message: "Return requested. We'll email you once it has been reviewed.",
+      returnRequest,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Error creating return request:", err);
+    res.status(500).json({ message: "Error creating return request" });
+  }
+};
+
+// Get the returns for an order (admin or the order's owner)
+export const getOrderReturns = async (req: Request, res: Response) => {
+  try {
+    const order = await findOwnOrder(req, req.params.id);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    const returns = await getReturnsForOrder(order.id);
+
+    res.json({ orderId: order.id, returns });
+  } catch (err) {
+    console.error("Error fetching order returns:", err);
+    res.status(500).json({ message: "Error fetching order returns" });
+  }
+};
+
 // Update order status (Admin only)
 export const updateOrderStatus = async (req: Request, res: Response) => {
   try {
@@ -521,20 +753,18 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
     }
 
     // Only allow order status updates (pending → confirmed → shipped → delivered → cancelled)
-    const allowedStatuses = ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'];
-    if (status && !allowedStatuses.includes(status)) {
+    if (!status || !ORDER_STATUSES.includes(status)) {
       return res.status(400).json({ 
-        message: `Invalid status. Allowed values: ${allowedStatuses.join(', ')}` 
+        message: `Invalid status. Allowed values: ${ORDER_STATUSES.join(', ')}` 
       });
     }
 
-    const order = await prisma.order.update({
-      where: { id },
-      data: {
-        status,
-        // paymentStatus is intentionally omitted - only Stripe can update this
-      },
-    });
+    // paymentStatus is intentionally omitted - only Stripe can update this
+    const order = await transitionOrder(
+      id,
+      { status },
+      { source: "admin", actorId: user.id, note: req.body.note }
+    );
 
     res.json({ 
       message: "Order status updated successfully", 
@@ -542,11 +772,55 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
       note: "Payment status is managed by Stripe and cannot be changed manually"
     });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Update order status error:", err);
     res.status(500).json({ message: "Error updating order status" });
   }
 };
 
+// Refund an order in full or for specific items (Admin only)
+export const refundOrder = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const { id } = req.params;
+    const { items, reason, restock } = req.body || {};
+    const user = (req as any).user;
+
+    if (items !== undefined && !Array.isArray(items)) {
+      return res.status(400).json({
+        message: "items must be an array of { orderItemId, quantity }",
+      });
+    }
+
+    const refund = await refundOrderWithStripe(stripe, {
+      orderId: id,
+      items,
+      reason,
+      restock,
+      createdById: user?.id,
+    });
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      include: { orderItems: true, refunds: { orderBy: { createdAt: "desc" } } },
+    });
+
+    res.status(201).json({ message: "Refund issued successfully", refund, order });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Refund order error:", err);
+    res.status(500).json({ message: "Error refunding order" });
+  }
+};
+
 // Get all orders (Admin only) - Enhanced for high volume
 export const getAllOrders = async (req: Request, res: Response) => {
   try {
@@ -567,6 +841,7 @@ export const getAllOrders = async (req: Request, res: Response) => {
       dateFilter,
       minTotal,
       maxTotal,
+      flagged,
     } = req.query;
 
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
@@ -578,6 +853,7 @@ export const getAllOrders = async (req: Request, res: Response) => {
     // Status filters
     if (status) where.status = status;
     if (paymentStatus) where.paymentStatus = paymentStatus;
+    if (flagged !== undefined) where.flagged = flagged === "true";
 
     // Search functionality - includes guest orders
     if (search && typeof search === "string") {
@@ -737,18 +1013,35 @@ export const bulkUpdateOrders = async (req: Request, res: Response) => {
       });
     }
 
-    // Perform bulk update
-    const result = await prisma.order.updateMany({
-      where: {
-        id: { in: orderIds },
-      },
-      data: updateData,
-    });
+    if (!ORDER_STATUSES.includes(updateData.status)) {
+      return res.status(400).json({
+        message: `Invalid status. Allowed values: ${ORDER_STATUSES.join(", ")}`,
+      });
+    }
+
+    // Each order goes through the state machine; orders that can't make the
+    // transition are reported back instead of being overwritten
+    let updatedCount = 0;
+    const skipped: Array<{ orderId: string; reason: string }> = [];
+    for (const orderId of orderIds) {
+      try {
+        await transitionOrder(
+          orderId,
+          { status: updateData.status },
+          { source: "admin", actorId: user.id, note: "Bulk update" }
+        );
+        updatedCount++;
+      } catch (err) {
+        if (!(err instanceof CustomError)) throw err;
+        skipped.push({ orderId, reason: err.message });
+      }
+    }
 
     res.json({
       message: "Bulk update completed successfully",
-      updatedCount: result.count,
+      updatedCount,
       requestedCount: orderIds.length,
+      skipped,
     });
   } catch (err) {
     console.error("Bulk update orders error:", err);
@@ -6,6 +6,8 @@ import {
   generateCustomSKU,
 } from "../utils/skuGenerator";
 import { uploadToCloudinary, deleteFromCloudinary } from "../config/cloudinary";
+import { CustomError } from "../middlewares/error.middleware";
+import { parsePackageInput } from "../services/packingService";
 
 const prisma = new PrismaClient();
 
@@ -35,6 +37,8 @@ export const createProduct = async (req: Request, res: Response) => {
     }
 
     const { name, description, price, stock, category } = req.body;
+    // Optional shipping size and weight
+    const packageSize = parsePackageInput(req.body);
 
     // Handle uploaded image - upload to Cloudinary
     let imageUrl: string | null = null;
@@ -89,6 +93,7 @@ export const createProduct = async (req: Request, res: Response) => {
           imageUrl,
           cloudinaryPublicId,
           sku,
+          ...packageSize,
         },
       });
 
@@ -125,6 +130,9 @@ export const createProduct = async (req: Request, res: Response) => {
       .status(201)
       .json({ message: "Product created successfully", product: result });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Create product error:", err);
     res.status(500).json({ message: "Error creating product" });
   }
@@ -161,6 +169,7 @@ export const getAllProducts = async (req: Request, res: Response) => {
               flavor: true,
             },
           },
+          prices: { select: { currency: true, amount: true } },
         },
         orderBy: { createdAt: "desc" },
       }),
@@ -173,6 +182,7 @@ export const getAllProducts = async (req: Request, res: Response) => {
       name: product.name,
       description: product.description,
       price: product.price,
+      prices: product.prices, // Price book for other currencies
       stock: product.stock,
       category: product.category,
       sku: product.sku,
@@ -214,6 +224,7 @@ export const getProductById = async (req: Request, res: Response) => {
             flavor: true,
           },
         },
+        prices: { select: { currency: true, amount: true } },
       },
     });
 
@@ -227,6 +238,7 @@ export const getProductById = async (req: Request, res: Response) => {
       name: product.name,
       description: product.description,
       price: product.price,
+      prices: product.prices, // Price book for other currencies
       stock: product.stock,
       category: product.category,
       sku: product.sku,
@@ -258,6 +270,7 @@ export const updateProduct = async (req: Request, res: Response) => {
     }
 
     const { name, description, price, stock, category, isActive } = req.body;
+    const packageSize = parsePackageInput(req.body);
 
     // Handle uploaded image - upload to Cloudinary
     let imageUrl: string | null = null;
@@ -311,6 +324,7 @@ export const updateProduct = async (req: Request, res: Response) => {
           imageUrl,
           cloudinaryPublicId,
           isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+          ...packageSize,
         },
       });
 
@@ -339,6 +353,9 @@ export const updateProduct = async (req: Request, res: Response) => {
 
     res.json({ message: "Product updated successfully", product: updated });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Update product error:", err);
     res.status(500).json({ message: "Error updating product" });
   }
@@ -432,6 +449,7 @@ export const getAllProductsForAdmin = async (req: Request, res: Response) => {
               flavor: true,
             },
           },
+          prices: { select: { currency: true, amount: true } },
         },
       }),
       prisma.product.count({ where }),
@@ -443,6 +461,7 @@ export const getAllProductsForAdmin = async (req: Request, res: Response) => {
       name: product.name,
       description: product.description,
       price: product.price,
+      prices: product.prices, // Price book for other currencies
       stock: product.stock,
       category: product.category,
       sku: product.sku,
@@ -1,8 +1,7 @@
 import { Request, Response } from 'express';
 import { validateAddress, getShippingRates, createShipment, handleWebhookEvent } from '../services/shippoService';
-import { PrismaClient } from '../generated/prisma';
-
-const prisma = new PrismaClient();
+import { packLines } from '../services/packingService';
+import { selectWarehouse, toSenderAddress } from '../services/warehouseService';
 
 // Validate shipping address
 export const validateShippingAddress = async (req: Request, res: Response) => {
@@ -68,40 +67,18 @@ export const calculateCheckoutRates = async (req: Request, res: Response) => {
       itemsCount: orderItems.length,
     });
 
-    // Calculate total weight and dimensions based on items
-    let totalWeight = 0;
-    let totalItems = 0;
-    
-    for (const item of orderItems) {
-      if (!item.productId && item.flavorIds && item.flavorIds.length > 0) {
-        // Custom pack - count flavors
-        totalItems += item.quantity * item.flavorIds.length;
-        totalWeight += item.quantity * item.flavorIds.length * 0.25; // 0.25 lbs per flavor
-      } else if (item.productId) {
-        // Regular product - fetch from database
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId },
-          select: { name: true },
-        });
-        totalItems += item.quantity;
-        totalWeight += item.quantity * 0.5; // Estimate 0.5 lbs per regular product
-      }
-    }
+    // Pack the items into boxes from the catalog (large orders ship as several parcels)
+    const packed = await packLines(orderItems);
+    const parcels = packed.map(({ parcel }) => parcel);
 
-    // Create parcel based on total items (simplified)
-    const parcels = [{
-      length: String(Math.ceil(totalItems / 3) * 4 + 2), // Estimate length
-      width: "8",
-      height: "6",
-      distanceUnit: "in" as "in",
-      weight: String(totalWeight || 1), // Minimum 1 lb
-      massUnit: "lb" as "lb"
-    }];
+    // Quote from the warehouse the order would ship from
+    const routed = await selectWarehouse(orderItems, shippingAddress);
+    const fromAddress = routed ? toSenderAddress(routed.warehouse) : undefined;
 
     console.log('📦 Calculated parcels:', parcels);
 
     // Get shipping rates from Shippo
-    const rates = await getShippingRates(shippingAddress, parcels);
+    const rates = await getShippingRates(shippingAddress, parcels, fromAddress);
     
     // Format rates for frontend
     const formattedRates = rates.map((rate: any) => ({
@@ -117,7 +94,16 @@ export const calculateCheckoutRates = async (req: Request, res: Response) => {
 
     res.json({ 
       rates: formattedRates,
-      parcels 
+      parcels,
+      boxes: packed.map(({ box, itemCount }) => ({ box, itemCount })),
+      shipFrom: routed
+        ? {
+            warehouseId: routed.warehouse.id,
+            name: routed.warehouse.name,
+            city: routed.warehouse.city,
+            state: routed.warehouse.state,
+          }
+        : null,
     });
   } catch (error) {
     console.error('Checkout rates calculation error:', error);
@@ -153,13 +139,20 @@ export const createShipmentController = async (req: Request, res: Response) => {
 // Shippo webhook handler
 export const shippoWebhook = async (req: Request, res: Response) => {
   try {
+    // The webhook route gets a raw body (see server.ts)
+    let payload: any;
+    try {
+      payload = Buffer.isBuffer(req.body) ? JSON.parse(req.body.toString('utf8')) : req.body;
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON payload' });
+    }
+
     console.log('📦 Shippo webhook received:', {
-      headers: req.headers,
-      body: req.body,
+      event: payload?.event,
       timestamp: new Date().toISOString(),
     });
 
-    const { event, data } = req.body;
+    const { event, data } = payload || {};
     
     if (!event || !data) {
       return res.status(400).json({ error: 'Missing event or data' });
@@ -0,0 +1,199 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  cancelSubscription as cancelStripeSubscription,
+  createSubscriptionCheckout,
+  getSubscriptionForUser,
+  pauseSubscription as pauseStripeSubscription,
+  resumeSubscription as resumeStripeSubscription,
+  skipNextDelivery,
+  swapSubscriptionFlavors as updateSubscriptionFlavors,
+} from "../services/subscriptionService";
+
+const prisma = new PrismaClient();
+
+const handleError = (res: Response, err: unknown, label: string, message: string) => {
+  if (err instanceof CustomError) {
+    return res.status(err.statusCode).json({ message: err.message });
+  }
+  console.error(`${label} error:`, err);
+  return res.status(500).json({ message });
+};
+
+// Start a subscription through Stripe Checkout
+export const createSubscription = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const user = (req as any).user;
+    const dbUser = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { id: true, email: true },
+    });
+    if (!dbUser) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const {
+      productId,
+      recipeId,
+      flavorIds,
+      customPackName,
+      quantity,
+      currency,
+      shippingAddress,
+      selectedShippingRate,
+      successUrl,
+      cancelUrl,
+    } = req.body || {};
+
+    const result = await createSubscriptionCheckout(stripe, {
+      userId: dbUser.id,
+      email: dbUser.email,
+      productId,
+      recipeId,
+      flavorIds,
+      customPackName,
+      quantity,
+      currency,
+      shippingAddress,
+      selectedShippingRate,
+      successUrl,
+      cancelUrl,
+    });
+
+    res.status(201).json(result);
+  } catch (err) {
+    return handleError(res, err, "Create subscription", "Error creating subscription");
+  }
+};
+
+// Get the current user's subscriptions
+export const getUserSubscriptions = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    const subscriptions = await prisma.subscription.findMany({
+      where: { userId: user.id, status: { not: "incomplete" } },
+      include: { packRecipe: { select: { id: true, title: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({ subscriptions });
+  } catch (err) {
+    return handleError(res, err, "Get subscriptions", "Error fetching subscriptions");
+  }
+};
+
+// Get a subscription with its recent orders
+export const getSubscriptionById = async (req: Request, res: Response) => {
+  try {
+    const subscription = await getSubscriptionForUser(
+      req.params.id,
+      (req as any).user
+    );
+    res.json({ subscription });
+  } catch (err) {
+    return handleError(res, err, "Get subscription", "Error fetching subscription");
+  }
+};
+
+// Pause deliveries until resumed
+export const pauseSubscription = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const subscription = await getSubscriptionForUser(req.params.id, (req as any).user);
+    const updated = await pauseStripeSubscription(stripe, subscription);
+
+    res.json({ message: "Subscription paused", subscription: updated });
+  } catch (err) {
+    return handleError(res, err, "Pause subscription", "Error pausing subscription");
+  }
+};
+
+// Resume a paused subscription (also cancels a pending skip)
+export const resumeSubscription = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const subscription = await getSubscriptionForUser(req.params.id, (req as any).user);
+    const updated = await resumeStripeSubscription(stripe, subscription);
+
+    res.json({ message: "Subscription resumed", subscription: updated });
+  } catch (err) {
+    return handleError(res, err, "Resume subscription", "Error resuming subscription");
+  }
+};
+
+// Skip the next delivery
+export const skipSubscriptionDelivery = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const subscription = await getSubscriptionForUser(req.params.id, (req as any).user);
+    const updated = await skipNextDelivery(stripe, subscription);
+
+    res.json({ message: "Next delivery skipped", subscription: updated });
+  } catch (err) {
+    return handleError(res, err, "Skip subscription delivery", "Error skipping delivery");
+  }
+};
+
+// Swap the recipe or flavors for upcoming deliveries
+export const swapSubscriptionFlavors = async (req: Request, res: Response) => {
+  try {
+    const subscription = await getSubscriptionForUser(req.params.id, (req as any).user);
+    const { recipeId, flavorIds, customPackName } = req.body || {};
+
+    const updated = await updateSubscriptionFlavors(subscription, {
+      recipeId,
+      flavorIds,
+      customPackName,
+    });
+
+    res.json({ message: "Subscription flavors updated", subscription: updated });
+  } catch (err) {
+    return handleError(res, err, "Swap subscription flavors", "Error updating flavors");
+  }
+};
+
+// Cancel at the end of the period, or immediately with { immediately: true }
+export const cancelSubscription = async (req: Request, res: Response) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const subscription = await getSubscriptionForUser(req.params.id, (req as any).user);
+    const updated = await cancelStripeSubscription(
+      stripe,
+      subscription,
+      Boolean(req.body?.immediately)
+    );
+
+    res.json({
+      message: updated.status === "canceled"
+        ? "Subscription canceled"
+        : "Subscription will cancel at the end of the current period",
+      subscription: updated,
+    });
+  } catch (err) {
+    return handleError(res, err, "Cancel subscription", "Error canceling subscription");
+  }
+};
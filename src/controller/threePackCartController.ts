@@ -8,6 +8,12 @@ import {
   isValidProductType,
   validateFlavor,
 } from "../utils/skuGenerator";
+import {
+  AppliedPromotion,
+  PromotionError,
+  resolvePromotion,
+} from "../services/promotionService";
+import { roundCurrency } from "../services/pricingService";
 
 const prisma = new PrismaClient();
 
@@ -144,22 +150,6 @@ export const addToCart = async (req: Request, res: Response) => {
           },
         });
       }
-      //Reserve inventory for custom pack
-      for (const flavor of flavors) {
-        const inventory = flavor.inventory;
-        if (!inventory) {
-          return res.status(400).json({
-            message: `No inventory found for flavor: ${flavor.name}`,
-          });
-        }
-        await prisma.flavorInventory.update({
-          where: { flavorId: flavor.id },
-          data: {
-            reserved: inventory.reserved + requestedQty,
-          },
-        });
-      }
-
       res.status(201).json({
         message: {
           id: cartLine.id,
@@ -300,24 +290,6 @@ export const addToCart = async (req: Request, res: Response) => {
       });
     }
 
-    // Reserve inventory
-    for (const item of packRecipe.items) {
-      const inventory = item.flavor.inventory;
-      if (!inventory) {
-        return res.status(400).json({
-          message: `No inventory found for flavor: ${item.flavor.name}`,
-        });
-      }
-      const reserveAmount = item.quantity * requestedQty;
-
-      await prisma.flavorInventory.update({
-        where: { flavorId: item.flavor.id },
-        data: {
-          reserved: inventory.reserved + reserveAmount,
-        },
-      });
-    }
-
     res.status(201).json({
       message: "Added to cart",
       cartLine: {
@@ -458,10 +430,48 @@ export const getUserCart = async (req: Request, res: Response) => {
       0
     );
 
+    // Preview the discount a code (or a running sale) gives this cart. An
+    // invalid code is reported alongside the cart rather than failing it.
+    let promotion: AppliedPromotion | null = null;
+    let discountError: string | null = null;
+    if (cartLines.length > 0) {
+      try {
+        promotion = await resolvePromotion({
+          code: typeof req.query.code === "string" ? req.query.code : null,
+          lines: cartLines.map((line) => ({
+            recipeId: line.recipeId,
+            flavorIds: line.flavorIds,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            total: line.quantity * line.unitPrice,
+          })),
+          subtotal: finalCartTotal,
+          shipping: 0,
+          customer: { userId: isGuest ? null : user?.id },
+        });
+      } catch (promotionError) {
+        if (!(promotionError instanceof PromotionError)) throw promotionError;
+        discountError = promotionError.message;
+      }
+    }
+
+    const discountAmount = promotion?.amount ?? 0;
+
     res.json({
       cart: cartWithFlavorNames,
       total_items: cartLines.length,
       cart_total: finalCartTotal,
+      discount: promotion
+        ? {
+            code: promotion.code,
+            name: promotion.name,
+            type: promotion.type,
+            amount: discountAmount,
+            free_shipping: promotion.freeShipping,
+          }
+        : null,
+      discount_error: discountError,
+      discounted_total: roundCurrency(finalCartTotal - discountAmount),
     });
   } catch (error) {
     console.error("Error fetching cart:", error);
@@ -525,7 +535,8 @@ export const updateCartLine = async (req: Request, res: Response) => {
       });
 
       if (qtyDifference > 0) {
-        //Check if we can add more items for custom packs
+        //Check stock for the new quantity. Stock is only held once checkout
+        //starts, so the whole line is checked, not just the difference
         for (const flavor of flavors) {
           const inventory = flavor.inventory;
           if (!inventory) {
@@ -535,40 +546,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
           }
           const available =
             inventory.onHand - inventory.reserved - inventory.safetyStock;
-          if (available < qtyDifference) {
+          if (available < newQty) {
             return res.status(400).json({
-              message: `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${qtyDifference}`,
+              message: `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${newQty}`,
             });
           }
         }
-
-        //Reserve additional inventory for custom packs
-        for (const flavor of flavors) {
-          const inventory = flavor.inventory;
-          if (!inventory) continue;
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: inventory.reserved + qtyDifference,
-            },
-          });
-        }
-      } else if (qtyDifference < 0) {
-        for (const flavor of flavors) {
-          const inventory = flavor.inventory;
-          if (!inventory) continue;
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: Math.max(
-                0,
-                inventory.reserved - Math.abs(qtyDifference)
-              ),
-            },
-          });
-        }
       }
 
       //Update cart line for custom pack
@@ -599,60 +582,22 @@ export const updateCartLine = async (req: Request, res: Response) => {
     // }
 
     // Handle predefined recipes
-    if (cartLine.packRecipe) {
-      if (qtyDifference > 0) {
-        // Check if we can add more items
-        for (const item of cartLine.packRecipe.items) {
-          const inventory = item.flavor.inventory;
-          if (!inventory) {
-            return res.status(400).json({
-              message: `No inventory found for flavor: ${item.flavor.name}`,
-            });
-          }
-          const required = item.quantity * qtyDifference;
-          const available =
-            inventory.onHand - inventory.reserved - inventory.safetyStock;
-
-          if (available < required) {
-            return res.status(400).json({
-              message: `Insufficient stock for ${item.flavor.name}. Available: ${available}, Required: ${required}`,
-            });
-          }
-        }
-
-        // Reserve additional inventory
-        for (const item of cartLine.packRecipe.items) {
-          const inventory = item.flavor.inventory;
-          if (!inventory) {
-            return res.status(400).json({
-              message: `No inventory found for flavor: ${item.flavor.name}`,
-            });
-          }
-          const reserveAmount = item.quantity * qtyDifference;
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: inventory.reserved + reserveAmount,
-            },
+    if (cartLine.packRecipe && qtyDifference > 0) {
+      // Check stock for the new quantity (nothing is held until checkout)
+      for (const item of cartLine.packRecipe.items) {
+        const inventory = item.flavor.inventory;
+        if (!inventory) {
+          return res.status(400).json({
+            message: `No inventory found for flavor: ${item.flavor.name}`,
           });
         }
-      } else if (qtyDifference < 0) {
-        // Release inventory
-        for (const item of cartLine.packRecipe.items) {
-          const inventory = item.flavor.inventory;
-          if (!inventory) {
-            return res.status(400).json({
-              message: `No inventory found for flavor: ${item.flavor.name}`,
-            });
-          }
-          const releaseAmount = item.quantity * Math.abs(qtyDifference);
+        const required = item.quantity * newQty;
+        const available =
+          inventory.onHand - inventory.reserved - inventory.safetyStock;
 
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - releaseAmount),
-            },
+        if (available < required) {
+          return res.status(400).json({
+            message: `Insufficient stock for ${item.flavor.name}. Available: ${available}, Required: ${required}`,
           });
         }
       }
@@ -711,86 +656,12 @@ export const removeCartLine = async (req: Request, res: Response) => {
         id: cartLineId,
         ...userIdentifier,
       },
-      include: {
-        packRecipe: {
-          include: {
-            items: {
-              include: {
-                flavor: {
-                  include: {
-                    inventory: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
     });
 
     if (!cartLine) {
       return res.status(404).json({ message: "Cart line not found" });
     }
 
-    // Release reserved inventory
-
-    if (cartLine.packRecipe) {
-      //Handle predefined recipes
-      for (const item of cartLine.packRecipe.items) {
-        const inventory = item.flavor.inventory;
-        if (!inventory) {
-          return res.status(400).json({
-            message: `No inventory found for flavor : ${item.flavor.name}`,
-          });
-        }
-
-        const releaseAmount = item.quantity * cartLine.quantity;
-
-        await prisma.flavorInventory.update({
-          where: { flavorId: item.flavor.id },
-          data: { reserved: Math.max(0, inventory.reserved - releaseAmount) },
-        });
-      }
-    } else if (cartLine.flavorIds.length > 0) {
-      //handle custom packs
-      const flavors = await prisma.flavor.findMany({
-        where: { id: { in: cartLine.flavorIds } },
-        include: { inventory: true },
-      });
-      for (const flavor of flavors) {
-        const inventory = flavor.inventory;
-        if (!inventory) {
-          continue;
-        }
-
-        await prisma.flavorInventory.update({
-          where: { flavorId: flavor.id },
-          data: {
-            reserved: Math.max(0, inventory.reserved - cartLine.quantity),
-          },
-        });
-      }
-    }
-
-    // if (cartLine.packRecipe) {
-    //   for (const item of cartLine.packRecipe.items) {
-    //     const inventory = item.flavor.inventory;
-    //     if (!inventory) {
-    //       return res.status(400).json({
-    //         message: `No inventory found for flavor: ${item.flavor.name}`,
-    //       });
-    //     }
-    //     const releaseAmount = item.quantity * cartLine.quantity;
-
-    //     await prisma.flavorInventory.update({
-    //       where: { flavorId: item.flavor.id },
-    //       data: {
-    //         reserved: Math.max(0, inventory.reserved - releaseAmount),
-    //       },
-    //     });
-    //   }
-    // }
-
     // Delete cart line
     await prisma.cartLine.delete({
       where: { id: cartLineId },
@@ -813,70 +684,6 @@ export const clearCart = async (req: Request, res: Response) => {
     // Get user or guest identifier
     const userIdentifier = isGuest ? { guestId } : { userId: user?.id };
 
-    // Get all cart lines for the user
-    const cartLines = await prisma.cartLine.findMany({
-      where: userIdentifier,
-      include: {
-        packRecipe: {
-          include: {
-            items: {
-              include: {
-                flavor: {
-                  include: {
-                    inventory: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Release all reserved inventory
-    for (const cartLine of cartLines) {
-      if (cartLine.packRecipe) {
-        // Handle predefined recipes
-        for (const item of cartLine.packRecipe.items) {
-          const inventory = item.flavor.inventory;
-          if (!inventory) {
-            continue; // Skip if no inventory found
-          }
-          const releaseAmount = item.quantity * cartLine.quantity;
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - releaseAmount),
-            },
-          });
-        }
-      } else if (cartLine.flavorIds.length > 0) {
-        // Handle custom packs
-        const flavors = await prisma.flavor.findMany({
-          where: { id: { in: cartLine.flavorIds } },
-          include: { inventory: true },
-        });
-
-        for (const flavor of flavors) {
-          const inventory = flavor.inventory;
-          if (!inventory) {
-            console.warn(
-              `No inventory found for custom pack flavor: ${flavor.name}`
-            );
-            continue;
-          }
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - cartLine.quantity),
-            },
-          });
-        }
-      }
-    }
-
     // Delete all cart lines
     await prisma.cartLine.deleteMany({
       where: userIdentifier,
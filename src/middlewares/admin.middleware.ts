@@ -10,5 +10,15 @@ export const adminOnly = (req: Request, res: Response, next: NextFunction) => {
     });
   }
 
+  // Admin sessions must have passed two-factor authentication
+  if (!user.mfa) {
+    return res.status(403).json({
+      message:
+        "Admin access requires two-factor authentication. Set it up at /auth/mfa/setup, or sign in again with your code.",
+      error: "Two-factor authentication required",
+      code: "MFA_REQUIRED",
+    });
+  }
+
   next();
 };
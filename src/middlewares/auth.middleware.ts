@@ -5,6 +5,8 @@ import { v4 as uuidv4 } from "uuid";
 interface DecodedToken {
   id: string;
   role?: string;
+  sid?: string; // session the access token was issued for
+  mfa?: boolean; // session passed two-factor authentication
 }
 
 // Required authentication - returns 401 if not authenticated
@@ -27,7 +29,12 @@ export const protect = (req: Request, res: Response, next: NextFunction) => {
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as DecodedToken;
-    (req as any).user = { id: decoded.id, role: decoded.role };
+    (req as any).user = {
+      id: decoded.id,
+      role: decoded.role,
+      sessionId: decoded.sid,
+      mfa: decoded.mfa === true,
+    };
     (req as any).isGuest = false;
     
     // Debug logging for order-related and payment-related requests
@@ -41,8 +48,14 @@ export const protect = (req: Request, res: Response, next: NextFunction) => {
     }
     
     next();
-  } catch {
-    // Token is invalid or expired
+  } catch (error) {
+    // An expired access token can be renewed with POST /auth/refresh
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({
+        message: "Authentication token expired. Refresh the session to continue.",
+        code: "TOKEN_EXPIRED",
+      });
+    }
     res.status(401).json({
       message: "Invalid or expired authentication token. Please log in again.",
       code: "INVALID_TOKEN",
@@ -91,7 +104,12 @@ export const optionalAuth = (req: Request, res: Response, next: NextFunction) =>
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as DecodedToken;
-    (req as any).user = { id: decoded.id, role: decoded.role };
+    (req as any).user = {
+      id: decoded.id,
+      role: decoded.role,
+      sessionId: decoded.sid,
+      mfa: decoded.mfa === true,
+    };
     (req as any).isGuest = false;
     (req as any).guestId = null;
     
@@ -126,3 +144,13 @@ export const optionalAuth = (req: Request, res: Response, next: NextFunction) =>
     next();
   }
 };
+
+// Drop the guest session cookie once its cart belongs to an account, so
+// signing out later starts a fresh guest cart
+export const clearGuestCookie = (res: Response) => {
+  res.clearCookie("guestId", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+  });
+};
@@ -55,6 +55,27 @@ export const meRateLimit = createRateLimit(
   "Too many requests to user profile, please try again later."
 );
 
+// Gift card balance checks, so codes can't be guessed by brute force
+export const giftCardRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  30, // 30 lookups per window
+  "Too many gift card lookups, please try again later."
+);
+
+// Two-factor code checks, so 6-digit codes can't be brute forced
+export const mfaRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  10, // 10 attempts per window
+  "Too many authentication code attempts, please try again later."
+);
+
+// Guest order lookups, which send email
+export const orderLookupRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  10, // 10 lookups per window
+  "Too many order lookups, please try again later."
+);
+
 // Helmet configuration
 export const helmetConfig = helmet({
   contentSecurityPolicy: {
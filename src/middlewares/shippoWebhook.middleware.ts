@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+
+const tokensMatch = (provided: string, expected: string) => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Only accept Shippo webhooks that carry the shared secret. Shippo can't sign
+ * requests, so the secret is added to the webhook URL configured in Shippo
+ * (`/shippo/webhook?token=...`) or sent as an `x-shippo-token` header.
+ */
+export const verifyShippoWebhook = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const secret = process.env.SHIPPO_WEBHOOK_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      console.error("❌ SHIPPO_WEBHOOK_SECRET is not set, rejecting Shippo webhook");
+      return res.status(503).json({ error: "Webhook verification not configured" });
+    }
+    console.warn("⚠️ SHIPPO_WEBHOOK_SECRET is not set, accepting unverified Shippo webhook");
+    return next();
+  }
+
+  const provided = req.query.token ?? req.headers["x-shippo-token"];
+  if (typeof provided !== "string" || !tokensMatch(provided, secret)) {
+    console.warn("⚠️ Rejected Shippo webhook with missing or invalid token", {
+      ip: req.ip,
+    });
+    return res.status(401).json({ error: "Invalid webhook token" });
+  }
+
+  next();
+};
@@ -12,7 +12,52 @@ import {
   deleteCategory,
   updateFlavorInventory,
   getInventoryAlerts,
+  recomputeReservedInventory,
   getSystemConfig,
+  getFailedWebhookEvents,
+  reprocessWebhookEvent,
+  getPromotions,
+  getPromotion,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+  addDiscountCodes,
+  updateDiscountCode,
+  getFailedFulfillments,
+  retryOrderFulfillment,
+  getShippingBoxes,
+  createShippingBox,
+  updateShippingBox,
+  deleteShippingBox,
+  updatePackRecipePackage,
+  getWarehouses,
+  createWarehouse,
+  updateWarehouse,
+  deleteWarehouse,
+  setWarehouseInventory,
+  getReturnRequests,
+  approveReturnRequest,
+  rejectReturnRequest,
+  receiveReturnRequest,
+  getOrderPaymentDetails,
+  getDisputes,
+  getDisputeEvidence,
+  submitDisputeEvidenceToStripe,
+  getReconciliationRuns,
+  getReconciliationRun,
+  startReconciliationRun,
+  getExchangeRates,
+  updateExchangeRate,
+  updateProductPrices,
+  updatePackRecipePrices,
+  getTaxRates,
+  saveTaxRate,
+  removeTaxRate,
+  getTaxReport,
+  getGiftCards,
+  getGiftCardById,
+  issueGiftCard,
+  voidGiftCard,
 } from "../controller/adminController";
 import { protect } from "../middlewares/auth.middleware";
 import { adminOnly } from "../middlewares/admin.middleware";
@@ -44,8 +89,77 @@ router.delete("/categories/:id", deleteCategory);
 // ==================== INVENTORY MANAGEMENT ====================
 router.put("/inventory/:id", updateFlavorInventory);
 router.get("/inventory/alerts", getInventoryAlerts);
+router.post("/inventory/recompute-reserved", recomputeReservedInventory);
 
 // ==================== SYSTEM CONFIGURATION ====================
 router.get("/config", getSystemConfig);
 
+// ==================== WEBHOOK EVENTS ====================
+router.get("/webhook-events/failed", getFailedWebhookEvents);
+router.post("/webhook-events/:id/reprocess", reprocessWebhookEvent);
+
+// ==================== PROMOTIONS ====================
+router.get("/promotions", getPromotions);
+router.get("/promotions/:id", getPromotion);
+router.post("/promotions", createPromotion);
+router.put("/promotions/:id", updatePromotion);
+router.delete("/promotions/:id", deletePromotion);
+router.post("/promotions/:id/codes", addDiscountCodes);
+router.put("/discount-codes/:id", updateDiscountCode);
+
+// ==================== FULFILLMENT ====================
+router.get("/fulfillment/failed", getFailedFulfillments);
+router.post("/fulfillment/:orderId/retry", retryOrderFulfillment);
+
+// ==================== SHIPPING BOXES ====================
+router.get("/shipping-boxes", getShippingBoxes);
+router.post("/shipping-boxes", createShippingBox);
+router.put("/shipping-boxes/:id", updateShippingBox);
+router.delete("/shipping-boxes/:id", deleteShippingBox);
+router.put("/pack-recipes/:id/package", updatePackRecipePackage);
+
+// ==================== WAREHOUSES ====================
+router.get("/warehouses", getWarehouses);
+router.post("/warehouses", createWarehouse);
+router.put("/warehouses/:id", updateWarehouse);
+router.delete("/warehouses/:id", deleteWarehouse);
+router.put("/warehouses/:id/inventory", setWarehouseInventory);
+
+// ==================== RETURNS ====================
+router.get("/returns", getReturnRequests);
+router.post("/returns/:id/approve", approveReturnRequest);
+router.post("/returns/:id/reject", rejectReturnRequest);
+router.post("/returns/:id/receive", receiveReturnRequest);
+
+// ==================== PAYMENTS ====================
+router.get("/orders/:id/payment", getOrderPaymentDetails);
+
+// ==================== DISPUTES ====================
+router.get("/disputes", getDisputes);
+router.get("/disputes/:id/evidence", getDisputeEvidence);
+router.post("/disputes/:id/evidence", submitDisputeEvidenceToStripe);
+
+// ==================== PAYMENT RECONCILIATION ====================
+router.get("/reconciliation/runs", getReconciliationRuns);
+router.get("/reconciliation/runs/:id", getReconciliationRun);
+router.post("/reconciliation/run", startReconciliationRun);
+
+// ==================== CURRENCIES & PRICE BOOKS ====================
+router.get("/exchange-rates", getExchangeRates);
+router.put("/exchange-rates/:currency", updateExchangeRate);
+router.put("/products/:id/prices", updateProductPrices);
+router.put("/pack-recipes/:id/prices", updatePackRecipePrices);
+
+// ==================== SALES TAX ====================
+router.get("/tax-rates", getTaxRates);
+router.put("/tax-rates", saveTaxRate);
+router.delete("/tax-rates/:id", removeTaxRate);
+router.get("/tax-report", getTaxReport);
+
+// ==================== GIFT CARDS & STORE CREDIT ====================
+router.get("/gift-cards", getGiftCards);
+router.get("/gift-cards/:id", getGiftCardById);
+router.post("/gift-cards", issueGiftCard);
+router.post("/gift-cards/:id/void", voidGiftCard);
+
 export default router;
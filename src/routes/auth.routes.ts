@@ -10,6 +10,18 @@ import {
   verifyEmail,
   resendVerification,
   checkVerificationStatus,
+  startOAuth,
+  oauthCallback,
+  refresh,
+  listSessions,
+  deleteSession,
+  deleteOtherSessions,
+  loginMfa,
+  getMfaStatus,
+  setupMfa,
+  confirmMfa,
+  regenerateBackupCodes,
+  disableMfa,
 } from "../controller/authController";
 import { protect } from "../middlewares/auth.middleware";
 import { 
@@ -17,7 +29,8 @@ import {
   validatePassword, 
   validateName, 
   validateRequest,
-  meRateLimit
+  meRateLimit,
+  mfaRateLimit
 } from "../middlewares/security.middleware";
 import { body } from "express-validator";
 
@@ -37,6 +50,7 @@ router.post("/login", [
   body('password').notEmpty().withMessage('Password is required'),
   validateRequest
 ], login);
+router.post("/login/mfa", mfaRateLimit, loginMfa);
 
 // Forgot password route with validation
 router.post("/forgot-password", [
@@ -53,6 +67,12 @@ router.post("/reset-password", [
 ], resetPassword);
 
 router.post("/logout", logout);
+router.post("/refresh", refresh);
+
+// Social sign-in (google, apple)
+router.get("/oauth/:provider", startOAuth);
+router.get("/oauth/:provider/callback", oauthCallback);
+router.post("/oauth/:provider/callback", oauthCallback);
 
 // Email verification routes
 router.get("/verify-email", verifyEmail);
@@ -65,6 +85,17 @@ router.get("/verification-status", protect, checkVerificationStatus);
 
 // Protected routes
 router.get("/me", meRateLimit, protect, me);
+router.get("/sessions", protect, listSessions);
+router.delete("/sessions", protect, deleteOtherSessions);
+router.delete("/sessions/:id", protect, deleteSession);
+
+// Two-factor authentication (required for admins)
+router.get("/mfa", protect, getMfaStatus);
+router.post("/mfa/setup", protect, setupMfa);
+router.post("/mfa/confirm", mfaRateLimit, protect, confirmMfa);
+router.post("/mfa/backup-codes", mfaRateLimit, protect, regenerateBackupCodes);
+router.delete("/mfa", mfaRateLimit, protect, disableMfa);
+
 router.put("/profile", protect, [
   validateName,
   validateRequest
@@ -0,0 +1,16 @@
+import express from "express";
+import {
+  getGiftCardBalance,
+  getMyGiftCards,
+  purchaseGiftCard,
+} from "../controller/giftCardController";
+import { optionalAuth, protect } from "../middlewares/auth.middleware";
+import { giftCardRateLimit } from "../middlewares/security.middleware";
+
+const router = express.Router();
+
+router.post("/purchase", optionalAuth, purchaseGiftCard); // Returns Stripe Checkout URL
+router.get("/balance/:code", giftCardRateLimit, getGiftCardBalance);
+router.get("/", protect, getMyGiftCards); // Store credit issued to the current user
+
+export default router;
@@ -7,9 +7,16 @@ import {
   getAllOrders,
   bulkUpdateOrders,
   bulkDeleteOrders,
+  refundOrder,
+  getOrderHistory,
+  getOrderTracking,
+  createOrderReturn,
+  getOrderReturns,
+  requestOrderAccess,
 } from "../controller/orderController";
 import { protect, optionalAuth } from "../middlewares/auth.middleware";
 import { adminOnly } from "../middlewares/admin.middleware";
+import { orderLookupRateLimit } from "../middlewares/security.middleware";
 
 const router = express.Router();
 
@@ -19,11 +26,25 @@ router.post("/", optionalAuth, createOrder);
 // Get user's orders (requires authentication)
 router.get("/", protect, getUserOrders);
 
-// Track order by ID (public - no authentication required)
-router.get("/:id", getOrderById);
+// Guest order lookup: emails a signed link to the order
+router.post("/lookup", orderLookupRateLimit, requestOrderAccess);
+
+// Order details (admin, the order's owner, or a signed order link)
+router.get("/:id", optionalAuth, getOrderById);
+
+// Status history (admin, the order's owner, or a signed order link)
+router.get("/:id/history", optionalAuth, getOrderHistory);
+
+// Delivery timeline from carrier tracking updates (admin, the order's owner, or a signed order link)
+router.get("/:id/tracking", optionalAuth, getOrderTracking);
+
+// Returns (the order's owner requests, admins review under /admin/returns)
+router.post("/:id/returns", optionalAuth, createOrderReturn);
+router.get("/:id/returns", optionalAuth, getOrderReturns);
 
 // Admin routes (admin role required)
 router.put("/:id/status", protect, adminOnly, updateOrderStatus);
+router.post("/:id/refund", protect, adminOnly, refundOrder);
 router.get("/admin/all", protect, adminOnly, getAllOrders);
 router.put("/admin/bulk-update", protect, adminOnly, bulkUpdateOrders);
 router.delete("/admin/bulk-delete", protect, adminOnly, bulkDeleteOrders);
@@ -1,97 +1,286 @@
 import express from "express";
 import Stripe from "stripe";
-import { PrismaClient } from "../generated/prisma";
-import { sendOrderConfirmationEmail } from "../utils/mailer";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { optionalAuth } from "../middlewares/auth.middleware";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  calculateOrderTotals,
+  OrderPricing,
+  PricingError,
+  roundCurrency,
+  toCents,
+} from "../services/pricingService";
+import {
+  createCheckoutRecord,
+  normalizeCheckoutAddress,
+} from "../services/checkoutService";
+import { ShippingAddress } from "../services/shippoService";
+import { getReservationExpiry } from "../services/inventoryReservationService";
+import { markExistingOrderPaid, processStripeEvent } from "../services/stripeWebhookService";
+import { getStripe } from "../config/stripe";
+import { OrderActor, transitionOrder } from "../services/orderStatusService";
+import { createStripeCoupon, PromotionError } from "../services/promotionService";
+import {
+  AppliedGiftCard,
+  GiftCardError,
+  resolveGiftCard,
+} from "../services/giftCardService";
+import { canAccessOrder } from "../controller/orderController";
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Lazy Stripe init to allow running without keys in dev/demo
-function getStripe(): Stripe | null {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) return null;
-  return new Stripe(key, { apiVersion: "2024-06-20" } as any);
-}
+// Only orders still waiting for their money can be sent to checkout again
+const PAYABLE_PAYMENT_STATUSES = ["pending", "failed"];
 
-router.post("/create-checkout-session", async (req, res) => {
+// Status changes made by polling Stripe rather than from a webhook
+const STRIPE_SYNC_ACTOR: OrderActor = { source: "system", actorLabel: "stripe-sync" };
+
+// The checkout session paying for an order: the stored one, or a search of
+// recent sessions for orders that predate stored session ids
+const findOrderSession = async (
+  stripe: Stripe,
+  order: { id: string; stripeSessionId: string | null }
+) => {
+  if (order.stripeSessionId) {
+    return stripe.checkout.sessions.retrieve(order.stripeSessionId);
+  }
+  const sessions = await stripe.checkout.sessions.list({ limit: 10 });
+  return sessions.data.find((session) => session.metadata?.orderId === order.id);
+};
+
+// Sales tax is charged as its own line so the receipt shows it
+const taxLineItem = (
+  amount: number,
+  currency: string
+): Stripe.Checkout.SessionCreateParams.LineItem => ({
+  price_data: {
+    currency,
+    product_data: { name: "Sales tax" },
+    unit_amount: toCents(amount),
+  },
+  quantity: 1,
+});
+
+const orderWithItemNames = {
+  orderItems: { include: { product: { select: { name: true } } } },
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Line items to pay for an order that already exists, exactly as stored: its
+ * items, the shipping it was charged and its tax. The discount and gift card
+ * credit are applied with a coupon.
+ */
+const storedOrderLineItems = (
+  order: Prisma.OrderGetPayload<{ include: typeof orderWithItemNames }>
+) => {
+  const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = order.orderItems.map(
+    (item) => ({
+      price_data: {
+        currency: order.currency,
+        product_data: {
+          name: item.customPackName || item.product?.name || "Item",
+        },
+        unit_amount: toCents(item.price),
+      },
+      quantity: item.quantity,
+    })
+  );
+
+  // Anything on the order total beyond the discounted items and tax is the
+  // shipping that was charged
+  const itemsTotal = order.orderItems.reduce((sum, item) => sum + item.total, 0);
+  const shippingAmount = roundCurrency(
+    order.total - itemsTotal + order.discountAmount - order.taxAmount
+  );
+  if (shippingAmount > 0) {
+    line_items.push({
+      price_data: {
+        currency: order.currency,
+        product_data: { name: "Shipping" },
+        unit_amount: toCents(shippingAmount),
+      },
+      quantity: 1,
+    });
+  }
+  if (order.taxAmount > 0) {
+    line_items.push(taxLineItem(order.taxAmount, order.currency));
+  }
+  return line_items;
+};
+
+// Stripe allows one discount per session, so the promotion and any gift card
+// credit are combined into a single coupon
+const couponLabel = (discountCode: string | null | undefined, giftCardAmount: number) =>
+  [discountCode || null, giftCardAmount > 0 ? "Gift card" : null]
+    .filter(Boolean)
+    .join(" + ") || "Discount";
+
+router.post("/create-checkout-session", optionalAuth, async (req, res) => {
   try {
     const stripe = getStripe();
     if (!stripe) {
       return res.status(503).json({ message: "Stripe not configured" });
     }
 
-    const { orderId, orderData, items, successUrl, cancelUrl, selectedShippingRate } = req.body || {};
-    if (!Array.isArray(items) || items.length === 0) {
+    const { orderId, orderData, items, successUrl, cancelUrl, selectedShippingRate, discountCode, currency, giftCardCode } = req.body || {};
+    if (!orderId && !Array.isArray(orderData?.orderItems) && !Array.isArray(items)) {
       return res.status(400).json({ message: "No items provided" });
     }
 
-    const line_items = items.map((it: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: { name: String(it.productName || it.name || "Item") },
-        unit_amount: Math.max(0, Math.round(Number(it.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(it.quantity || 1)),
-    }));
+    // Line items are always built from server-computed amounts, never from
+    // client-sent prices
+    let line_items: Stripe.Checkout.SessionCreateParams.LineItem[];
 
-    // Store order data in Stripe metadata for webhook processing
     // NO order created in database until successful payment
     const metadata: any = {};
+    let pricing: OrderPricing | null = null;
+    let giftCard: AppliedGiftCard | null = null;
+    let shippingAddress: ShippingAddress | null = null;
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+    // Stock for a new order is held until the Stripe session expires
+    const reservationExpiresAt = getReservationExpiry();
     
     if (orderId) {
-      // Existing order (retry payment)
-      metadata.orderId = String(orderId);
-    } else if (orderData) {
-      // New order - store compressed data in metadata
-      // We'll create the order ONLY after successful payment in webhook
-      const compressedData: any = {
-        total: orderData.total,
-        notes: orderData.orderNotes,
-        items: orderData.orderItems.map((item: any) => ({
-          pid: item.productId,
-          qty: item.quantity,
-          price: item.price,
-          total: item.total,
-          flavors: item.flavorIds || [],
-          custom: item.customPackName || null,
-        })),
-      };
-      
-      // Only include shipping address if provided (not for guest checkout where Stripe collects it)
-      if (orderData.shippingAddress && orderData.shippingAddress.name) {
-        compressedData.address = {
-          name: orderData.shippingAddress.name,
-          email: orderData.shippingAddress.email,
-          phone: orderData.shippingAddress.phone,
-          street: orderData.shippingAddress.street,
-          city: orderData.shippingAddress.city,
-          state: orderData.shippingAddress.state,
-          zip: orderData.shippingAddress.zipCode,
-          country: orderData.shippingAddress.country,
-      };
+      // Existing order (retry payment) - charge exactly what was stored on the order
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: String(orderId) },
+        include: orderWithItemNames,
+      });
+
+      // Same 404 for orders the caller doesn't own, so ids can't be probed
+      if (!existingOrder || !canAccessOrder(req, existingOrder)) {
+        return res.status(404).json({ message: "Order not found" });
       }
-      
-      // Include selected shipping rate if provided (pre-calculated on frontend)
-      if (selectedShippingRate) {
-        compressedData.shippingRate = {
-          objectId: selectedShippingRate.objectId,
-          carrier: selectedShippingRate.carrier,
-          amount: selectedShippingRate.amount,
-          serviceName: selectedShippingRate.serviceName,
-        };
+      if (
+        !PAYABLE_PAYMENT_STATUSES.includes(existingOrder.paymentStatus) ||
+        existingOrder.status === "cancelled"
+      ) {
+        return res.status(400).json({
+          message: "This order cannot be paid",
+          currentStatus: existingOrder.paymentStatus,
+        });
       }
-      
-      const dataString = JSON.stringify(compressedData);
-      if (dataString.length > 500) {
-        return res.status(400).json({ message: "Order data too large for Stripe metadata" });
+
+      line_items = storedOrderLineItems(existingOrder);
+
+      const couponId = await createStripeCoupon(
+        stripe,
+        existingOrder.discountAmount + existingOrder.giftCardAmount,
+        couponLabel(existingOrder.discountCode, existingOrder.giftCardAmount),
+        existingOrder.currency
+      );
+      if (couponId) {
+        discounts = [{ coupon: couponId }];
       }
-      
-      metadata.orderData = dataString;
-    }
 
-    // Check if shipping address is provided in metadata (pre-collected on frontend)
-    const hasPreCollectedAddress = metadata.orderData && 
-      JSON.parse(metadata.orderData || "{}").address;
+      metadata.orderId = existingOrder.id;
+    } else {
+      // New order - price every line on the server and reject client mismatches.
+      // Tax and currency follow the ship-to address, so it can't be left for
+      // Stripe to collect.
+      shippingAddress = normalizeCheckoutAddress(orderData?.shippingAddress);
+      if (!shippingAddress?.country) {
+        return res.status(400).json({
+          message: "A shipping address is required to calculate tax",
+        });
+      }
+
+      try {
+        pricing = await calculateOrderTotals({
+          items: orderData?.orderItems || items,
+          selectedShippingRate,
+          expectedTotal: orderData?.total,
+          discountCode: orderData?.discountCode || discountCode,
+          customer: {
+            userId: (req as any).user?.id,
+            email: orderData?.guestEmail || orderData?.shippingAddress?.email,
+          },
+          currency: orderData?.currency || currency,
+          shipTo: shippingAddress,
+        });
+      } catch (pricingError) {
+        if (pricingError instanceof PricingError) {
+          return res.status(400).json({
+            message: pricingError.message,
+            ...pricingError.details,
+          });
+        }
+        if (pricingError instanceof PromotionError) {
+          return res
+            .status(pricingError.statusCode)
+            .json({ message: pricingError.message });
+        }
+        throw pricingError;
+      }
+
+      try {
+        giftCard = await resolveGiftCard({
+          code: orderData?.giftCardCode || giftCardCode,
+          currency: pricing.currency,
+          amountDue: pricing.total,
+          userId: (req as any).user?.id,
+        });
+      } catch (giftCardError) {
+        if (giftCardError instanceof GiftCardError) {
+          return res
+            .status(giftCardError.statusCode)
+            .json({ message: giftCardError.message });
+        }
+        throw giftCardError;
+      }
+      // Stripe can't take a zero-amount payment; the order is placed through
+      // POST /orders instead
+      if (giftCard && giftCard.amount >= pricing.total) {
+        return res.status(400).json({
+          message: "Gift card covers the whole order, no card payment is needed",
+          amountDue: 0,
+        });
+      }
+
+      line_items = pricing.lines.map((line) => ({
+        price_data: {
+          currency: pricing!.currency,
+          product_data: { name: line.name },
+          unit_amount: toCents(line.unitPrice),
+        },
+        quantity: line.quantity,
+      }));
+
+      // Shipping is included as a line item at the verified Shippo rate
+      if (pricing.shippingRate && pricing.shipping > 0) {
+        line_items.push({
+          price_data: {
+            currency: pricing.currency,
+            product_data: {
+              name: `Shipping - ${pricing.shippingRate.carrier} ${pricing.shippingRate.serviceName}`,
+            },
+            unit_amount: toCents(pricing.shipping),
+          },
+          quantity: 1,
+        });
+      }
+
+      if (pricing.tax > 0) {
+        line_items.push(taxLineItem(pricing.tax, pricing.currency));
+      }
+
+      // The item discount and gift card credit are applied as a one-off
+      // coupon so Stripe shows them; free shipping simply leaves the shipping
+      // line out
+      if (pricing.promotion || giftCard) {
+        const giftCardAmount = giftCard?.amount ?? 0;
+        const couponId = await createStripeCoupon(
+          stripe,
+          pricing.discount + giftCardAmount,
+          couponLabel(pricing.promotion?.code || pricing.promotion?.name, giftCardAmount),
+          pricing.currency
+        );
+        if (couponId) {
+          discounts = [{ coupon: couponId }];
+        }
+      }
+    }
 
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
@@ -101,9 +290,13 @@ router.post("/create-checkout-session", async (req, res) => {
         `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancelUrl || `${process.env.CLIENT_URL}/cart`,
       metadata,
+      ...(discounts ? { discounts } : {}),
+      ...(pricing
+        ? { expires_at: Math.floor(reservationExpiresAt.getTime() / 1000) }
+        : { payment_intent_data: { metadata: { orderId: metadata.orderId } } }),
       billing_address_collection: "required",
       // Only collect shipping address if not pre-collected on frontend
-      ...(hasPreCollectedAddress ? {} : {
+      ...(shippingAddress ? {} : {
       shipping_address_collection: {
           allowed_countries: ["US", "CA", "GB", "AU"],
         },
@@ -114,6 +307,41 @@ router.post("/create-checkout-session", async (req, res) => {
       // No shipping options - shipping is included as a line item
     });
 
+    if (metadata.orderId) {
+      await prisma.order.update({
+        where: { id: String(metadata.orderId) },
+        data: { stripeSessionId: session.id },
+      });
+    }
+
+    if (pricing) {
+      // Persist the full cart snapshot; the order is created from this record
+      // ONLY after successful payment in webhook
+      try {
+        await createCheckoutRecord({
+          stripeSessionId: session.id,
+          pricing,
+          userId: (req as any).user?.id,
+          guestId: (req as any).guestId,
+          guestEmail: orderData?.guestEmail,
+          shippingAddress,
+          orderNotes: orderData?.orderNotes,
+          giftCard,
+          expiresAt: reservationExpiresAt,
+        });
+      } catch (recordError) {
+        // Without the record (or the stock it holds) the webhook cannot build
+        // the order, so don't let the customer pay for this session
+        await stripe.checkout.sessions.expire(session.id).catch(() => undefined);
+        if (recordError instanceof CustomError) {
+          return res
+            .status(recordError.statusCode)
+            .json({ message: recordError.message });
+        }
+        throw recordError;
+      }
+    }
+
     return res.json({ url: session.url });
   } catch (err) {
     console.error("Stripe session error:", err);
@@ -123,7 +351,7 @@ router.post("/create-checkout-session", async (req, res) => {
   }
 });
 
-router.post("/retry-payment", async (req, res) => {
+router.post("/retry-payment", optionalAuth, async (req, res) => {
   try {
     const stripe = getStripe();
     if (!stripe) {
@@ -138,12 +366,10 @@ router.post("/retry-payment", async (req, res) => {
     // Fetch the existing order with its items
     const order = await prisma.order.findUnique({
       where: { id: orderId },
-      include: {
-        orderItems: true,
-      },
+      include: orderWithItemNames,
     });
 
-    if (!order) {
+    if (!order || !canAccessOrder(req, order)) {
       return res.status(404).json({ message: "Order not found" });
     }
 
@@ -155,58 +381,75 @@ router.post("/retry-payment", async (req, res) => {
       });
     }
 
-    // Convert order items to Stripe line items
-    const line_items = order.orderItems.map((item: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: {
-          name: String(item.productName || item.productId || "Item"),
-          description: item.isCustomPack
-            ? `Custom 3-Pack: ${item.flavorIds?.join(", ") || "Custom flavors"}`
-            : undefined,
-        },
-        unit_amount: Math.max(0, Math.round(Number(item.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(item.quantity || 1)),
-    }));
+    // Same items, shipping and tax as paying the order from checkout
+    const line_items = storedOrderLineItems(order);
 
-    // Create new Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      line_items,
-      success_url:
-        successUrl ||
-        `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: cancelUrl || `${process.env.CLIENT_URL}/profile`,
-      metadata: {
-        orderId: String(orderId),
-        isRetry: "true",
-      },
-      billing_address_collection: "required",
-      shipping_address_collection: {
-        allowed_countries: ["US", "CA", "GB", "AU"],
-      },
-      shipping_options: [
-        {
-          shipping_rate_data: {
-            display_name: "Standard Shipping",
-            type: "fixed_amount",
-            fixed_amount: { amount: 0, currency: "usd" },
-          },
+    // Back to pending before anything is charged: this takes again the gift
+    // card credit and promotion use given back when payment failed, and
+    // refuses if they're no longer available
+    try {
+      await transitionOrder(
+        orderId,
+        { paymentStatus: "pending" },
+        { source: "customer", note: "Payment retried" }
+      );
+    } catch (err) {
+      if (err instanceof CustomError) {
+        return res.status(err.statusCode).json({ message: err.message });
+      }
+      throw err;
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      // Re-apply the discount and gift card credit the order was placed with
+      const couponId = await createStripeCoupon(
+        stripe,
+        order.discountAmount + order.giftCardAmount,
+        couponLabel(order.discountCode, order.giftCardAmount),
+        order.currency
+      );
+
+      // Create new Stripe checkout session
+      session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        line_items,
+        ...(couponId ? { discounts: [{ coupon: couponId }] } : {}),
+        success_url:
+          successUrl ||
+          `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: cancelUrl || `${process.env.CLIENT_URL}/profile`,
+        metadata: {
+          orderId: String(orderId),
+          isRetry: "true",
         },
-      ],
-      phone_number_collection: {
-        enabled: true,
-      },
-    });
+        // Tag the payment so refunds and failures can be traced back to the order
+        payment_intent_data: {
+          metadata: { orderId: String(orderId) },
+        },
+        billing_address_collection: "required",
+        shipping_address_collection: {
+          allowed_countries: ["US", "CA", "GB", "AU"],
+        },
+        // No shipping options - shipping is included as a line item
+        phone_number_collection: {
+          enabled: true,
+        },
+      });
+    } catch (err) {
+      // No checkout to pay through, so give the credit back again
+      await transitionOrder(
+        orderId,
+        { paymentStatus: "failed" },
+        { source: "system", note: "Retry checkout could not be created" },
+        { strict: false }
+      );
+      throw err;
+    }
 
-    // Update order status to pending while payment is being retried
     await prisma.order.update({
       where: { id: orderId },
-      data: {
-        paymentStatus: "pending",
-        updatedAt: new Date(),
-      },
+      data: { stripeSessionId: session.id },
     });
 
     return res.json({ url: session.url });
@@ -243,26 +486,16 @@ router.post("/verify-payment-status", async (req, res) => {
     // If payment has been pending for more than 1 hour, check with Stripe
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
     if (order.paymentStatus === "pending" && order.updatedAt < oneHourAgo) {
-      // Search for recent checkout sessions for this order
-      const sessions = await stripe.checkout.sessions.list({
-        limit: 10,
-      });
-
-      const orderSession = sessions.data.find(
-        (session) => session.metadata?.orderId === orderId
-      );
+      const orderSession = await findOrderSession(stripe, order);
 
       if (orderSession) {
         if (orderSession.payment_status === "paid") {
-          // Update order status to paid
-          await prisma.order.update({
-            where: { id: orderId },
-            data: {
-              paymentStatus: "paid",
-              status: "confirmed",
-              updatedAt: new Date(),
-            },
-          });
+          // Mark it paid the same way the webhook does, taking its stock
+          await markExistingOrderPaid(
+            orderId,
+            { ...STRIPE_SYNC_ACTOR, note: `Checkout ${orderSession.id} is paid` },
+            { stripeSessionId: orderSession.id }
+          );
 
           return res.json({
             message: "Payment status updated to paid",
@@ -271,13 +504,12 @@ router.post("/verify-payment-status", async (req, res) => {
           });
         } else if (orderSession.payment_status === "unpaid") {
           // Payment failed or was cancelled
-          await prisma.order.update({
-            where: { id: orderId },
-            data: {
-              paymentStatus: "failed",
-              updatedAt: new Date(),
-            },
-          });
+          await transitionOrder(
+            orderId,
+            { paymentStatus: "failed" },
+            { ...STRIPE_SYNC_ACTOR, note: `Checkout ${orderSession.id} is unpaid` },
+            { strict: false }
+          );
 
           return res.json({
             message: "Payment status updated to failed",
@@ -287,13 +519,12 @@ router.post("/verify-payment-status", async (req, res) => {
         }
       } else {
         // No session found, likely expired - mark as failed
-        await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            paymentStatus: "failed",
-            updatedAt: new Date(),
-          },
-        });
+        await transitionOrder(
+          orderId,
+          { paymentStatus: "failed" },
+          { ...STRIPE_SYNC_ACTOR, note: "No payment session found" },
+          { strict: false }
+        );
 
         return res.json({
           message: "No payment session found, marked as failed",
@@ -394,823 +625,26 @@ router.post("/webhook", async (req, res) => {
   try {
     console.log(`🎯 Processing webhook event: ${event.type}`);
     
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
-      
-      // Retrieve the full session to get shipping details
-      // The webhook event payload doesn't include shipping_details by default
-      const fullSession = await stripe.checkout.sessions.retrieve(session.id, {
-        expand: ['line_items', 'payment_intent']
-      });
-      
-      const orderId = fullSession.metadata?.orderId;
-      const isRetry = fullSession.metadata?.isRetry === "true";
-
-      console.log("💳 Processing checkout.session.completed:", {
-        sessionId: fullSession.id,
-        orderId,
-        isRetry,
-        paymentStatus: fullSession.payment_status,
-        amountTotal: fullSession.amount_total,
-        currency: fullSession.currency,
-        customerEmail: fullSession.customer_details?.email,
-        paymentIntentId: fullSession.payment_intent,
-        hasShippingDetails: !!(fullSession as any).shipping_details,
-        hasShippingCost: !!(fullSession as any).shipping_cost,
-      });
-
-      if (orderId) {
-        console.log(`🔍 Looking up order: ${orderId}`);
-        // Verify the order exists
-        const existingOrder = await prisma.order.findUnique({
-          where: { id: orderId },
-        });
-
-        if (!existingOrder) {
-          console.error("❌ Order not found for webhook:", orderId);
-          return res.status(404).json({ error: "Order not found" });
-        }
-
-        console.log("📋 Found existing order:", {
-          orderId: existingOrder.id,
-          currentStatus: existingOrder.status,
-          currentPaymentStatus: existingOrder.paymentStatus,
-          currentTotal: existingOrder.total,
-          createdAt: existingOrder.createdAt,
-        });
-
-        // Handle existing order updates (for retry payments)
-        const shippingDetails: any = (fullSession as any).shipping_details || null;
-        const customerDetails: any = (fullSession as any).customer_details || null;
-
-        const updateData: any = {
-          paymentStatus: "paid",
-          status: "confirmed",
-          updatedAt: new Date(),
-        };
-
-        // Only update total if it's different
-        if (fullSession.amount_total && fullSession.amount_total !== Math.round(existingOrder.total * 100)) {
-          updateData.total = fullSession.amount_total / 100;
-          console.log("💰 Updating order total:", {
-            oldTotal: existingOrder.total,
-            newTotal: fullSession.amount_total / 100,
-            stripeAmount: fullSession.amount_total,
-          });
-        }
-
-        // Only update shipping address if we have new data
-        if (shippingDetails || customerDetails) {
-          updateData.shippingAddress = shippingDetails || customerDetails;
-          console.log("📦 Updating shipping address:", {
-            hasShippingDetails: !!shippingDetails,
-            hasCustomerDetails: !!customerDetails,
-          });
-        }
-
-        console.log("🔄 Updating order with data:", updateData);
-
-        const updatedOrder = await prisma.order.update({
-          where: { id: orderId },
-          data: updateData,
-        });
-
-        console.log("✅ Order updated successfully:", {
-          orderId,
-          oldStatus: existingOrder.status,
-          oldPaymentStatus: existingOrder.paymentStatus,
-          newStatus: updatedOrder.status,
-          newPaymentStatus: updatedOrder.paymentStatus,
-          processingTime: Date.now() - webhookStartTime + "ms",
-        });
-
-        // Decrement inventory for retry payment (only if payment was previously pending/failed)
-        if (existingOrder.paymentStatus !== "paid") {
-          console.log("📦 Decrementing inventory for retry payment...");
-          console.log(`   Previous payment status: ${existingOrder.paymentStatus}`);
-          
-          const orderWithItems = await prisma.order.findUnique({
-            where: { id: orderId },
-            include: { orderItems: true },
-          });
-
-          if (orderWithItems) {
-            console.log(`   Total items to process: ${orderWithItems.orderItems.length}`);
-            
-            for (const item of orderWithItems.orderItems) {
-              console.log(`\n   Processing retry item: ${JSON.stringify({
-                productId: item.productId,
-                quantity: item.quantity,
-                flavorIds: item.flavorIds,
-                isCustomPack: !item.productId
-              })}`);
-              
-              try {
-                if (!item.productId && item.flavorIds && item.flavorIds.length > 0) {
-                  console.log(`   → Custom Pack detected (null productId), processing ${item.flavorIds.length} flavors...`);
-                  // Handle custom packs - decrement flavor inventory
-                  for (const flavorId of item.flavorIds) {
-                    const flavorBefore = await prisma.flavorInventory.findUnique({
-                      where: { flavorId },
-                      select: { onHand: true, reserved: true, flavorId: true }
-                    });
-                    console.log(`   → Flavor ${flavorId} before: onHand=${flavorBefore?.onHand}, reserved=${flavorBefore?.reserved}`);
-                    
-                    await prisma.flavorInventory.update({
-                      where: { flavorId },
-                      data: {
-                        onHand: { decrement: item.quantity },
-                        reserved: { decrement: item.quantity },
-                      },
-                    });
-                    
-                    const flavorAfter = await prisma.flavorInventory.findUnique({
-                      where: { flavorId },
-                      select: { onHand: true, reserved: true }
-                    });
-                    console.log(`   ✓ Flavor ${flavorId} after: onHand=${flavorAfter?.onHand}, reserved=${flavorAfter?.reserved}`);
-                  }
-                } else if (item.productId) {
-                  console.log(`   → Regular Product detected, updating stock...`);
-                  // Handle regular products - decrement product stock
-                  const productBefore = await prisma.product.findUnique({
-                    where: { id: item.productId },
-                    select: { id: true, name: true, stock: true }
-                  });
-                  console.log(`   → Product BEFORE: ${JSON.stringify(productBefore)}`);
-                  
-                  if (!productBefore) {
-                    console.error(`   ❌ Product ${item.productId} not found in database!`);
-                    continue;
-                  }
-                  
-                  const updatedProduct = await prisma.product.update({
-                    where: { id: item.productId },
-                    data: {
-                      stock: { decrement: item.quantity },
-                    },
-                    select: { id: true, name: true, stock: true }
-                  });
-                  console.log(`   ✓ Product AFTER: ${JSON.stringify(updatedProduct)}`);
-                  console.log(`   ✓ Stock decreased from ${productBefore.stock} to ${updatedProduct.stock}`);
-                }
-              } catch (invError) {
-                console.error(`   ❌ Error updating inventory for item ${item.id}:`, invError);
-                console.error(`   ❌ Error details:`, invError instanceof Error ? invError.message : invError);
-              }
-            }
-            console.log("\n✅ Retry payment inventory decrementation complete");
-          }
-        } else {
-          console.log("⏭️ Skipping inventory decrementation - payment already marked as paid");
-        }
-
-        // Create Shippo shipment for the updated order if it doesn't exist (BEFORE email)
-        let retryShippingDetails: any = undefined;
-        if (!updatedOrder.shipmentId) {
-          try {
-            const { getShippingRates, createShipment } = await import("../services/shippoService");
-            
-            // Use the shipping address from the order
-            const shippingAddress = updatedOrder.shippingAddress as any;
-            if (shippingAddress) {
-              // First get shipping rates
-              const rates = await getShippingRates(
-                shippingAddress,
-                [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }]
-              );
-              
-              if (rates.length > 0) {
-                // Use the first rate
-                const selectedRate = rates[0];
-                await createShipment({
-                  orderId: updatedOrder.id,
-                  toAddress: shippingAddress,
-                  parcels: [{
-                    length: '6',
-                    width: '4',
-                    height: '2',
-                    weight: '0.5',
-                    massUnit: 'lb' as const,
-                    distanceUnit: 'in' as const,
-                  }],
-                }, selectedRate.objectId, {
-                  carrier: selectedRate.carrier,
-                  amount: selectedRate.amount,
-                  serviceName: selectedRate.serviceName
-                });
-                console.log("📦 Shippo shipment created for updated order");
-                
-                // Fetch updated order with shipment details
-                const orderWithShipment = await prisma.order.findUnique({
-                  where: { id: orderId },
-                  select: {
-                    trackingNumber: true,
-                    trackingUrl: true,
-                    shippingCarrier: true,
-                    shippingCost: true,
-                  }
-                });
-                
-                if (orderWithShipment) {
-                  retryShippingDetails = {
-                    trackingNumber: orderWithShipment.trackingNumber,
-                    trackingUrl: orderWithShipment.trackingUrl,
-                    carrier: orderWithShipment.shippingCarrier,
-                    shippingCost: orderWithShipment.shippingCost ?? selectedRate.amount,
-                  };
-                }
-              } else {
-                console.log("⚠️ No shipping rates available for updated order");
-              }
-            }
-          } catch (shipmentError) {
-            console.error("⚠️ Failed to create Shippo shipment for updated order:", shipmentError);
-            // Don't fail the webhook for shipment errors
-          }
-        } else {
-          // Fetch existing shipment details
-          const orderWithShipment = await prisma.order.findUnique({
-            where: { id: orderId },
-            select: {
-              trackingNumber: true,
-              trackingUrl: true,
-              shippingCarrier: true,
-              shippingCost: true,
-            }
-          });
-          
-          if (orderWithShipment) {
-            retryShippingDetails = {
-              trackingNumber: orderWithShipment.trackingNumber,
-              trackingUrl: orderWithShipment.trackingUrl,
-              carrier: orderWithShipment.shippingCarrier,
-              shippingCost: orderWithShipment.shippingCost,
-            };
-          }
-        }
-
-        // Send order confirmation email for retry payment with shipping details
-        try {
-          const customerEmail = fullSession.customer_details?.email;
-          if (customerEmail) {
-            // Fetch order items for email
-            const orderWithItems = await prisma.order.findUnique({
-              where: { id: orderId },
-              include: { orderItems: true },
-            });
-
-            if (orderWithItems) {
-              const shippingAddr = updatedOrder.shippingAddress as any;
-              
-              // Fetch product names for order items
-              const retryItemsWithNames = await Promise.all(
-                orderWithItems.orderItems.map(async (item: any) => {
-                  if (item.customPackName) {
-                    return {
-                      name: item.customPackName,
-                      quantity: item.quantity,
-                      price: item.price,
-                    };
-                  }
-                  
-                  // Fetch product name from database
-                  try {
-                    const product = await prisma.product.findUnique({
-                      where: { id: item.productId },
-                      select: { name: true },
-                    });
-                    
-                    return {
-                      name: product?.name || `Product #${item.productId}`,
-                      quantity: item.quantity,
-                      price: item.price,
-                    };
-                  } catch (err) {
-                    console.error(`Error fetching product name for ${item.productId}:`, err);
-                    return {
-                      name: `Product #${item.productId}`,
-                      quantity: item.quantity,
-                      price: item.price,
-                    };
-                  }
-                })
-              );
-              
-              await sendOrderConfirmationEmail(customerEmail, {
-                orderId: updatedOrder.id,
-                customerName: shippingAddr?.name || 'Customer',
-                total: updatedOrder.total,
-                items: retryItemsWithNames,
-                shippingAddress: {
-                  street1: shippingAddr?.street1 || '',
-                  city: shippingAddr?.city || '',
-                  state: shippingAddr?.state || '',
-                  zip: shippingAddr?.zip || '',
-                  country: shippingAddr?.country || '',
-                },
-                shippingDetails: retryShippingDetails,
-              });
-              console.log("📧 Order confirmation email sent for retry payment with shipping details");
-            }
-          }
-        } catch (emailError) {
-          console.error("❌ Error sending order confirmation email:", emailError);
-          // Don't fail the order update if email fails
-        }
-      } else if (fullSession.metadata?.orderData) {
-        // Create new order from metadata (ONLY after successful payment)
-        console.log("🆕 Creating order from payment metadata - PAYMENT SUCCESSFUL");
-        
-        try {
-          const compressedData = JSON.parse(fullSession.metadata.orderData);
-          const customerEmail = fullSession.customer_details?.email;
-          
-          if (!customerEmail) {
-            console.error("❌ No customer email in session");
-            return res.status(400).json({ error: "Customer email required" });
-          }
-
-          // Find user by email (optional for guest checkout)
-          const user = await prisma.user.findUnique({
-            where: { email: customerEmail },
-          });
-
-          if (!user) {
-            console.log("ℹ️ User not found, creating guest order for email:", customerEmail);
-          }
-
-          // Get shipping address - either from metadata or Stripe-collected details
-          let shippingAddressData;
-          
-          if (compressedData.address && compressedData.address.name) {
-            // Address was provided in metadata
-            shippingAddressData = {
-              name: compressedData.address.name,
-              email: compressedData.address.email,
-              phone: compressedData.address.phone,
-              street1: compressedData.address.street,
-              city: compressedData.address.city,
-              state: compressedData.address.state,
-              zip: compressedData.address.zip,
-              country: compressedData.address.country,
-            };
-          } else {
-            // Address was collected by Stripe - extract from fullSession
-            const sessionAny = fullSession as any; // Cast to access shipping_details
-            const stripeShipping = sessionAny.shipping_details || sessionAny.shipping;
-            const stripeCustomer = fullSession.customer_details;
-            
-            if (!stripeShipping || !stripeShipping.address) {
-              console.error("❌ No shipping address found in session:", {
-                hasShippingDetails: !!sessionAny.shipping_details,
-                hasShipping: !!sessionAny.shipping,
-                hasCustomerDetails: !!session.customer_details,
-              });
-              throw new Error("Shipping address not found in Stripe session");
-            }
-            
-            // Combine address lines if line2 exists
-            const street = stripeShipping.address.line2 
-              ? `${stripeShipping.address.line1}, ${stripeShipping.address.line2}`
-              : stripeShipping.address.line1 || "";
-            
-            shippingAddressData = {
-              name: stripeShipping.name || stripeCustomer?.name || "",
-              email: stripeCustomer?.email || customerEmail,
-              phone: stripeCustomer?.phone || stripeShipping.phone || "",
-              street1: street,
-              city: stripeShipping.address.city || "",
-              state: stripeShipping.address.state || "",
-              zip: stripeShipping.address.postal_code || "",
-              country: stripeShipping.address.country || "",
-            };
-            
-            console.log("📍 Extracted shipping address from Stripe:", shippingAddressData);
-          }
-
-          // Reconstruct full order data
-          const orderData = {
-            total: compressedData.total,
-            orderNotes: compressedData.notes,
-            orderItems: compressedData.items.map((item: any) => ({
-              productId: item.pid,
-              quantity: item.qty,
-              price: item.price,
-              total: item.total,
-              flavorIds: item.flavors,
-              customPackName: item.custom,
-            })),
-            shippingAddress: shippingAddressData
-          };
-
-          // Create order with confirmed status and paid payment status
-          // Support both registered users and guest checkout
-          const newOrder = await prisma.order.create({
-            data: {
-              userId: user?.id || null,  // NULL for guest checkout
-              guestId: user ? null : `guest_${customerEmail}`,  // Guest ID if no user
-              guestEmail: user ? null : customerEmail,  // Guest email if no user
-              status: "confirmed",
-              paymentStatus: "paid",
-              total: orderData.total,
-              shippingAddress: orderData.shippingAddress,
-              orderNotes: orderData.orderNotes,
-              orderItems: {
-                create: orderData.orderItems.map((item: any) => ({
-                  productId: item.productId,
-                  quantity: item.quantity,
-                  price: item.price,
-                  total: item.total,
-                  flavorIds: item.flavorIds || [],
-                  customPackName: item.customPackName || null,
-                })),
-              },
-            },
-            include: {
-              orderItems: true,
-            },
-          });
-
-          console.log("✅ Order created from payment:", {
-            orderId: newOrder.id,
-            status: newOrder.status,
-            paymentStatus: newOrder.paymentStatus,
-            total: newOrder.total,
-            itemsCount: newOrder.orderItems.length,
-            isGuestOrder: !user,
-            customerEmail: customerEmail,
-          });
-
-          // Log order items details for debugging
-          console.log("📋 Order items details:");
-          newOrder.orderItems.forEach((item, index) => {
-            console.log(`   ${index + 1}. ProductID: ${item.productId}, Qty: ${item.quantity}, FlavorIDs: ${JSON.stringify(item.flavorIds)}`);
-          });
-
-          // Decrement inventory for the order
-          console.log("📦 Decrementing inventory for order items...");
-          console.log(`   Total items to process: ${newOrder.orderItems.length}`);
-          
-          for (const item of newOrder.orderItems) {
-            console.log(`\n   Processing item: ${JSON.stringify({
-              productId: item.productId,
-              quantity: item.quantity,
-              flavorIds: item.flavorIds,
-              isCustomPack: !item.productId
-            })}`);
-            
-            try {
-              // For custom pack products (null productId), we need to deduct from flavor inventory
-              if (!item.productId && item.flavorIds && item.flavorIds.length > 0) {
-                console.log(`   → Custom Pack detected (null productId), processing ${item.flavorIds.length} flavors...`);
-                // Handle custom packs - decrement flavor inventory
-                for (const flavorId of item.flavorIds) {
-                  const flavorBefore = await prisma.flavorInventory.findUnique({
-                    where: { flavorId },
-                    select: { onHand: true, reserved: true, flavorId: true }
-                  });
-                  console.log(`   → Flavor ${flavorId} before: onHand=${flavorBefore?.onHand}, reserved=${flavorBefore?.reserved}`);
-                  
-                  await prisma.flavorInventory.update({
-                    where: { flavorId },
-                    data: {
-                      onHand: { decrement: item.quantity },
-                      reserved: { decrement: item.quantity },
-                    },
-                  });
-                  
-                  const flavorAfter = await prisma.flavorInventory.findUnique({
-                    where: { flavorId },
-                    select: { onHand: true, reserved: true }
-                  });
-                  console.log(`   ✓ Flavor ${flavorId} after: onHand=${flavorAfter?.onHand}, reserved=${flavorAfter?.reserved}`);
-                }
-              } else if (item.productId) {
-                console.log(`   → Regular Product detected, updating stock...`);
-                // Handle regular products - decrement product stock
-                const productBefore = await prisma.product.findUnique({
-                  where: { id: item.productId },
-                  select: { id: true, name: true, stock: true }
-                });
-                console.log(`   → Product BEFORE: ${JSON.stringify(productBefore)}`);
-                
-                if (!productBefore) {
-                  console.error(`   ❌ Product ${item.productId} not found in database!`);
-                  continue;
-                }
-                
-                const updatedProduct = await prisma.product.update({
-                  where: { id: item.productId },
-                  data: {
-                    stock: { decrement: item.quantity },
-                  },
-                  select: { id: true, name: true, stock: true }
-                });
-                console.log(`   ✓ Product AFTER: ${JSON.stringify(updatedProduct)}`);
-                console.log(`   ✓ Stock decreased from ${productBefore.stock} to ${updatedProduct.stock}`);
-              }
-            } catch (invError) {
-              console.error(`   ❌ Error updating inventory for item ${item.id}:`, invError);
-              console.error(`   ❌ Error details:`, invError instanceof Error ? invError.message : invError);
-              // Continue with other items even if one fails
-            }
-          }
-          console.log("\n✅ Inventory decrementation complete");
-
-          // Create Shippo shipment for the new order FIRST
-          let shippingDetails: any = undefined;
-          try {
-            const { getShippingRates, createShipment } = await import("../services/shippoService");
-            
-            console.log("🔍 Getting shipping rates for address:", {
-              name: orderData.shippingAddress.name,
-              street1: orderData.shippingAddress.street1,
-              city: orderData.shippingAddress.city,
-              state: orderData.shippingAddress.state,
-              zip: orderData.shippingAddress.zip,
-              country: orderData.shippingAddress.country,
-            });
-            
-            // Check if pre-selected shipping rate exists in metadata
-            console.log("🔍 Checking for pre-selected rate in metadata:", {
-              hasShippingRate: !!compressedData.shippingRate,
-              shippingRateData: compressedData.shippingRate,
-              fullCompressedData: JSON.stringify(compressedData, null, 2)
-            });
-            
-            const preSelectedRate = compressedData.shippingRate;
-            let selectedRate;
-            
-            if (preSelectedRate && preSelectedRate.objectId) {
-              // Use the pre-selected rate from frontend (CORRECT - already paid for)
-              console.log("✅ Using pre-selected shipping rate from frontend:", {
-                carrier: preSelectedRate.carrier,
-                amount: preSelectedRate.amount,
-                serviceName: preSelectedRate.serviceName,
-                objectId: preSelectedRate.objectId
-              });
-              selectedRate = preSelectedRate;
-            } else {
-              // Fallback: Calculate shipping rates (old behavior)
-              console.log("⚠️ No pre-selected rate, calculating shipping...");
-              const rates = await getShippingRates(
-                orderData.shippingAddress as any,
-                [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }]
-              );
-              
-              console.log("📊 Shippo rates response:", {
-                ratesCount: rates.length,
-                rates: rates.map(r => ({
-                  serviceName: r.serviceName,
-                  carrier: r.carrier,
-                  amount: r.amount,
-                  estimatedDays: r.estimatedDays
-                }))
-              });
-              
-              if (rates.length === 0) {
-                console.log("⚠️ No shipping rates available");
-                selectedRate = null;
-              } else {
-                selectedRate = rates[0];
-              }
-            }
-            
-            if (selectedRate) {
-              const shipmentResult = await createShipment({
-                orderId: newOrder.id,
-                toAddress: orderData.shippingAddress as any,
-                parcels: [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }],
-              }, selectedRate.objectId, {
-                carrier: selectedRate.carrier,
-                amount: selectedRate.amount,
-                serviceName: selectedRate.serviceName
-              });
-              
-              console.log("📦 Shippo shipment created for new order");
-              
-              // Fetch the updated order with shipment details
-              const orderWithShipment = await prisma.order.findUnique({
-                where: { id: newOrder.id },
-                select: {
-                  trackingNumber: true,
-                  trackingUrl: true,
-                  shippingCarrier: true,
-                  shippingCost: true,
-                }
-              });
-              
-                if (orderWithShipment) {
-                  // IMPORTANT: Use the rate that customer SELECTED and PAID FOR, not the Shippo transaction rate
-                  const customerPaidShippingCost = preSelectedRate?.amount || selectedRate.amount;
-                  
-                  shippingDetails = {
-                    trackingNumber: orderWithShipment.trackingNumber,
-                    trackingUrl: orderWithShipment.trackingUrl,
-                    carrier: orderWithShipment.shippingCarrier,
-                    shippingCost: customerPaidShippingCost, // Use customer-selected rate
-                  };
-                  console.log("📦 Shipping details prepared for email:", {
-                    ...shippingDetails,
-                    note: preSelectedRate ? "Using customer-selected rate" : "Using calculated rate"
-                  });
-                }
-            } else {
-              console.log("⚠️ No shipping rates available for new order");
-            }
-          } catch (shipmentError) {
-            console.error("⚠️ Failed to create Shippo shipment:", shipmentError);
-            // Don't fail the webhook for shipment errors
-          }
-
-          // Send order confirmation email with shipping details
-          try {
-            // Fetch product names for order items
-            const itemsWithNames = await Promise.all(
-              newOrder.orderItems.map(async (item: any) => {
-                if (item.customPackName) {
-                  return {
-                    name: item.customPackName,
-                    quantity: item.quantity,
-                    price: item.price,
-                  };
-                }
-                
-                // Fetch product name from database
-                try {
-                  const product = await prisma.product.findUnique({
-                    where: { id: item.productId },
-                    select: { name: true },
-                  });
-                  
-                  return {
-                    name: product?.name || `Product #${item.productId}`,
-                    quantity: item.quantity,
-                    price: item.price,
-                  };
-                } catch (err) {
-                  console.error(`Error fetching product name for ${item.productId}:`, err);
-                  return {
-                    name: `Product #${item.productId}`,
-                    quantity: item.quantity,
-                    price: item.price,
-                  };
-                }
-              })
-            );
-            
-            await sendOrderConfirmationEmail(customerEmail, {
-              orderId: newOrder.id,
-              customerName: orderData.shippingAddress.name || 'Customer',
-              total: newOrder.total,
-              items: itemsWithNames,
-              shippingAddress: {
-                street1: orderData.shippingAddress.street1,
-                city: orderData.shippingAddress.city,
-                state: orderData.shippingAddress.state,
-                zip: orderData.shippingAddress.zip,
-                country: orderData.shippingAddress.country,
-              },
-              shippingDetails: shippingDetails,
-            });
-            console.log("📧 Order confirmation email sent successfully with shipping details");
-          } catch (emailError) {
-            console.error("❌ Error sending order confirmation email:", emailError);
-            // Don't fail the order creation if email fails
-          }
-
-          return res.json({ received: true, orderCreated: true });
-        } catch (parseError) {
-          console.error("❌ Failed to parse order data:", parseError);
-          return res.status(400).json({ error: "Invalid order data" });
-        }
-      } else {
-        console.log("⚠️ No orderId or orderData in session metadata");
-        return res.status(400).json({ error: "No order information in session" });
-      }
-    } else if (event.type === "payment_intent.payment_failed") {
-      const pi = event.data.object as Stripe.PaymentIntent;
-      const orderId = (pi.metadata as any)?.orderId;
-      
-      console.log("💥 Processing payment_intent.payment_failed:", {
-        paymentIntentId: pi.id,
-        orderId,
-        failureReason: pi.last_payment_error?.message,
-      });
-
-      // If this is an existing order (retry payment), mark it as failed
-      if (orderId) {
-        try {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: { 
-            paymentStatus: "failed",
-            updatedAt: new Date(),
-          },
-        });
-          console.log("❌ Order marked as failed:", orderId);
-        } catch (updateError) {
-          console.error("❌ Failed to update order:", updateError);
-        }
-      } else {
-        console.log("ℹ️ No order to update - order was not created yet (as expected)");
-      }
-    } else if (event.type === "charge.updated") {
-      const charge = event.data.object as Stripe.Charge;
-      
-      console.log("⚡ Processing charge.updated:", {
-        chargeId: charge.id,
-        amount: charge.amount,
-        status: charge.status,
-        paid: charge.paid,
-        paymentIntentId: charge.payment_intent,
-        currency: charge.currency,
-        created: new Date(charge.created * 1000).toISOString(),
-      });
-
-      // For charge.updated, we need to find the order by payment intent
-      if (charge.payment_intent) {
-        console.log(`🔍 Searching for checkout session with payment intent: ${charge.payment_intent}`);
-        
-        // Search for checkout sessions with this payment intent
-        const sessions = await stripe.checkout.sessions.list({
-          limit: 10,
-        });
-
-        const session = sessions.data.find(
-          (s) => s.payment_intent === charge.payment_intent
-        );
-
-        if (session && session.metadata?.orderId) {
-          const orderId = session.metadata.orderId;
-          console.log(`📋 Found session for order: ${orderId}`);
-          
-          if (charge.status === "succeeded" && charge.paid) {
-            console.log(`🔄 Updating order from charge.updated: ${orderId}`);
-            await prisma.order.update({
-              where: { id: orderId },
-              data: {
-                paymentStatus: "paid",
-                status: "confirmed",
-                updatedAt: new Date(),
-              },
-            });
-            console.log("✅ Order updated from charge.updated:", {
-              orderId,
-              chargeId: charge.id,
-              status: "confirmed",
-              processingTime: Date.now() - webhookStartTime + "ms",
-            });
-          } else {
-            console.log("ℹ️ Charge not succeeded, skipping order update:", {
-              chargeStatus: charge.status,
-              chargePaid: charge.paid,
-            });
-          }
-        } else {
-          console.warn("⚠️ No session found for payment intent:", charge.payment_intent);
-        }
-      } else {
-        console.warn("⚠️ No payment intent in charge:", charge.id);
-      }
-    } else {
-      console.log("ℹ️ Unhandled webhook event type:", {
-        type: event.type,
-        id: event.id,
-        created: new Date(event.created * 1000).toISOString(),
-      });
-    }
+    // Already-handled events are skipped by the WebhookEvent ledger
+    const result = await processStripeEvent(stripe, event);
 
     console.log("🎉 Webhook processed successfully:", {
       eventType: event.type,
       eventId: event.id,
+      skipped: !!result.skipped,
       totalProcessingTime: Date.now() - webhookStartTime + "ms",
     });
 
-    return res.json({ received: true });
+    return res.json({ received: true, ...result });
   } catch (err) {
+    if (err instanceof CustomError) {
+      console.error("❌ Webhook event failed:", {
+        error: err.message,
+        eventType: event.type,
+        eventId: event.id,
+      });
+      return res.status(err.statusCode).json({ error: err.message });
+    }
     console.error("❌ Webhook handling error:", {
       error: err,
       eventType: event?.type,
@@ -1301,132 +735,4 @@ router.post("/webhook-signature-test", express.raw({ type: "application/json" })
   }
 });
 
-// Bulk payment status fix endpoint (admin only)
-router.post("/fix-payment-status", async (req, res) => {
-  try {
-    const stripe = getStripe();
-    if (!stripe) {
-      return res.status(503).json({ message: "Stripe not configured" });
-    }
-
-    console.log('🔧 Starting bulk payment status fix...');
-    
-    // Get all orders with pending payment status
-    const pendingOrders = await prisma.order.findMany({
-      where: {
-        paymentStatus: 'pending'
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    });
-
-    console.log(`📊 Found ${pendingOrders.length} orders with pending payment status`);
-
-    if (pendingOrders.length === 0) {
-      return res.json({
-        message: "No pending orders found",
-        fixedCount: 0,
-        failedCount: 0,
-        noSessionCount: 0,
-        totalProcessed: 0
-      });
-    }
-
-    let fixedCount = 0;
-    let failedCount = 0;
-    let noSessionCount = 0;
-
-    // Process each pending order
-    for (const order of pendingOrders) {
-      console.log(`🔍 Checking order ${order.id}...`);
-      
-      try {
-        // Search for checkout sessions with this order ID
-        const sessions = await stripe.checkout.sessions.list({
-          limit: 50, // Get more sessions to find older ones
-        });
-
-        const orderSession = sessions.data.find(
-          (session) => session.metadata?.orderId === order.id
-        );
-
-        if (!orderSession) {
-          console.log(`❌ No Stripe session found for order ${order.id}`);
-          
-          // If order is older than 24 hours and no session found, mark as failed
-          const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-          if (order.createdAt < oneDayAgo) {
-            await prisma.order.update({
-              where: { id: order.id },
-              data: {
-                paymentStatus: 'failed',
-                updatedAt: new Date(),
-              },
-            });
-            console.log(`🔄 Marked order ${order.id} as failed (no session found, older than 24h)`);
-            failedCount++;
-          } else {
-            console.log(`⏳ Order ${order.id} is recent, keeping as pending`);
-            noSessionCount++;
-          }
-          continue;
-        }
-
-        console.log(`📋 Found session ${orderSession.id} for order ${order.id}`);
-        console.log(`   Payment status: ${orderSession.payment_status}`);
-
-        // Update order based on session payment status
-        if (orderSession.payment_status === 'paid') {
-          await prisma.order.update({
-            where: { id: order.id },
-            data: {
-              paymentStatus: 'paid',
-              status: 'confirmed',
-              updatedAt: new Date(),
-            },
-          });
-          console.log(`✅ Updated order ${order.id} to paid`);
-          fixedCount++;
-        } else if (orderSession.payment_status === 'unpaid') {
-          await prisma.order.update({
-            where: { id: order.id },
-            data: {
-              paymentStatus: 'failed',
-              updatedAt: new Date(),
-            },
-          });
-          console.log(`❌ Updated order ${order.id} to failed`);
-          failedCount++;
-        } else {
-          console.log(`⏳ Order ${order.id} session status: ${orderSession.payment_status} - keeping pending`);
-          noSessionCount++;
-        }
-
-      } catch (error: any) {
-        console.error(`❌ Error processing order ${order.id}:`, error.message);
-        noSessionCount++;
-      }
-    }
-
-    const result = {
-      message: "Payment status fix completed",
-      fixedCount,
-      failedCount,
-      noSessionCount,
-      totalProcessed: pendingOrders.length
-    };
-
-    console.log('📈 Fix completed:', result);
-    res.json(result);
-
-  } catch (error) {
-    console.error('❌ Bulk payment status fix failed:', error);
-    res.status(500).json({ 
-      error: "Failed to fix payment status",
-      message: error instanceof Error ? error.message : "Unknown error"
-    });
-  }
-});
-
 export default router;
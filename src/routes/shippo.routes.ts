@@ -7,11 +7,12 @@ import {
   calculateCheckoutRates 
 } from '../controller/shippoController';
 import { protect } from '../middlewares/auth.middleware';
+import { verifyShippoWebhook } from '../middlewares/shippoWebhook.middleware';
 
 const router = express.Router();
 
 // Public routes (no auth required)
-router.post('/webhook', shippoWebhook);
+router.post('/webhook', verifyShippoWebhook, shippoWebhook);
 router.post('/calculate-rates', calculateCheckoutRates); // Public for guest checkout
 
 // Protected routes (require authentication)
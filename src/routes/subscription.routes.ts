@@ -0,0 +1,28 @@
+import express from "express";
+import {
+  createSubscription,
+  getUserSubscriptions,
+  getSubscriptionById,
+  pauseSubscription,
+  resumeSubscription,
+  skipSubscriptionDelivery,
+  swapSubscriptionFlavors,
+  cancelSubscription,
+} from "../controller/subscriptionController";
+import { protect } from "../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Subscriptions belong to an account, so every route requires authentication
+router.use(protect);
+
+router.post("/", createSubscription); // Start a subscription (returns Stripe Checkout URL)
+router.get("/", getUserSubscriptions);
+router.get("/:id", getSubscriptionById);
+router.post("/:id/pause", pauseSubscription);
+router.post("/:id/resume", resumeSubscription);
+router.post("/:id/skip", skipSubscriptionDelivery); // Skip the next delivery
+router.put("/:id/flavors", swapSubscriptionFlavors);
+router.post("/:id/cancel", cancelSubscription);
+
+export default router;
@@ -16,10 +16,15 @@ import paymentsRoutes from "./routes/payments.routes";
 import analyticsRoutes from "./routes/analytics.routes";
 import adminRoutes from "./routes/admin.routes";
 import shippoRoutes from "./routes/shippo.routes";
+import subscriptionRoutes from "./routes/subscription.routes";
+import giftCardRoutes from "./routes/giftCard.routes";
 
 import { logger } from "./utils/logger";
 import { prisma } from "./config/database";
 import { errorHandler, notFound } from "./middlewares/error.middleware";
+import { startReservationSweeper } from "./services/inventoryReservationService";
+import { startFulfillmentWorker } from "./services/fulfillmentService";
+import { startReconciliationJob } from "./services/reconciliationService";
 import {
   helmetConfig,
   // authRateLimit, // COMMENTED OUT FOR NOW
@@ -83,7 +88,8 @@ app.use(
 // Body parsing middleware
 // Use raw body only for webhook routes; json for others
 app.use((req, res, next) => {
-  if (req.originalUrl === "/payments/webhook" || req.originalUrl === "/shippo/webhook") {
+  // Match on path so a query string (e.g. the Shippo webhook token) still gets a raw body
+  if (req.path === "/payments/webhook" || req.path === "/shippo/webhook") {
     express.raw({ type: "application/json" })(req, res, next);
   } else {
     express.json({ limit: "500mb" })(req, res, next);
@@ -167,6 +173,8 @@ app.use("/payments", paymentsRoutes);
 app.use("/analytics", analyticsRoutes);
 app.use("/admin", adminRoutes);
 app.use("/shippo", shippoRoutes);
+app.use("/subscriptions", subscriptionRoutes);
+app.use("/gift-cards", giftCardRoutes);
 
 // Health check endpoint
 app.get("/health", (req: Request, res: Response) => {
@@ -192,6 +200,15 @@ const server = app.listen(PORT, () => {
   );
 });
 
+// Release inventory held by abandoned checkouts
+startReservationSweeper();
+
+// Buy shipping labels for paid orders, retrying failures with backoff
+startFulfillmentWorker();
+
+// Compare orders with Stripe and correct missed or out-of-order webhooks
+startReconciliationJob();
+
 // Test database connection
 prisma
   .$connect()
@@ -0,0 +1,394 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendOrderConfirmationEmail } from "../utils/mailer";
+import {
+  OrderPricing,
+  PricedLine,
+  VerifiedShippingRate,
+} from "./pricingService";
+import { ShippingAddress } from "./shippoService";
+import {
+  commitReservations,
+  releaseReservations,
+  reserveForCheckout,
+} from "./inventoryReservationService";
+import { recordOrderCreated } from "./orderStatusService";
+import { enqueueFulfillment, fulfillNow } from "./fulfillmentService";
+import { AppliedPromotion, recordRedemption } from "./promotionService";
+import { paymentIdsFromSession } from "./paymentDetailsService";
+import {
+  AppliedGiftCard,
+  attachCheckoutCredit,
+  redeemGiftCard,
+  releaseGiftCardCredit,
+} from "./giftCardService";
+
+const prisma = new PrismaClient();
+
+/**
+ * Convert the checkout form address (street/zipCode) into the shape stored on
+ * orders and used by Shippo (street1/zip). Returns null when no address was
+ * pre-collected and Stripe should collect it instead.
+ */
+export const normalizeCheckoutAddress = (
+  address: any
+): ShippingAddress | null => {
+  if (!address || !address.name) return null;
+
+  return {
+    name: address.name,
+    email: address.email || "",
+    phone: address.phone || "",
+    street1: address.street1 || address.street || "",
+    street2: address.street2 || "",
+    city: address.city || "",
+    state: address.state || "",
+    zip: address.zip || address.zipCode || "",
+    country: address.country || "",
+  };
+};
+
+/**
+ * Persist the cart snapshot behind a Stripe Checkout session and hold the
+ * flavor stock and gift card credit it needs until the session expires
+ */
+export const createCheckoutRecord = async (params: {
+  stripeSessionId: string;
+  pricing: OrderPricing;
+  userId?: string | null;
+  guestId?: string | null;
+  guestEmail?: string | null;
+  shippingAddress: ShippingAddress | null;
+  orderNotes?: string | null;
+  giftCard?: AppliedGiftCard | null;
+  expiresAt: Date;
+}) => {
+  return prisma.$transaction(async (tx) => {
+    const checkout = await tx.checkoutSession.create({
+      data: {
+        stripeSessionId: params.stripeSessionId,
+        userId: params.userId || null,
+        guestId: params.userId ? null : params.guestId || null,
+        guestEmail: params.guestEmail || params.shippingAddress?.email || null,
+        items: params.pricing.lines as unknown as Prisma.InputJsonValue,
+        shippingAddress: params.shippingAddress
+          ? (params.shippingAddress as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        shippingRate: params.pricing.shippingRate
+          ? (params.pricing.shippingRate as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        subtotal: params.pricing.subtotal,
+        shippingCost: params.pricing.shipping,
+        discountAmount: params.pricing.discount,
+        discount: params.pricing.promotion
+          ? (params.pricing.promotion as unknown as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        taxAmount: params.pricing.tax,
+        taxBreakdown: params.pricing.taxBreakdown as unknown as Prisma.InputJsonValue,
+        total: params.pricing.total,
+        giftCardId: params.giftCard?.giftCardId || null,
+        giftCardAmount: params.giftCard?.amount ?? 0,
+        currency: params.pricing.currency,
+        fxRate: params.pricing.fxRate,
+        orderNotes: params.orderNotes || null,
+        expiresAt: params.expiresAt,
+      },
+    });
+
+    await reserveForCheckout(
+      tx,
+      checkout.id,
+      params.pricing.lines,
+      params.expiresAt
+    );
+
+    if (params.giftCard) {
+      await redeemGiftCard(tx, params.giftCard, {
+        checkoutSessionId: checkout.id,
+        actorId: params.userId,
+      });
+    }
+
+    return checkout;
+  });
+};
+
+/**
+ * Release the stock held for a checkout that will not be paid. Gift card
+ * credit is only released on expiry, since a failed payment can still be
+ * retried in the same session.
+ */
+export const releaseCheckout = async (
+  stripeSessionId: string,
+  reason: "expired" | "payment_failed"
+) => {
+  const checkout = await prisma.checkoutSession.findUnique({
+    where: { stripeSessionId },
+    select: { id: true, status: true },
+  });
+
+  if (!checkout || checkout.status === "completed") {
+    return 0;
+  }
+
+  const released = await releaseReservations(checkout.id, reason);
+
+  if (reason === "expired") {
+    await prisma.$transaction(async (tx) => {
+      await tx.checkoutSession.update({
+        where: { id: checkout.id },
+        data: { status: "expired" },
+      });
+      await releaseGiftCardCredit(
+        tx,
+        { checkoutSessionId: checkout.id },
+        "Checkout expired"
+      );
+    });
+  }
+
+  console.log("🔓 Released checkout reservations:", {
+    stripeSessionId,
+    reason,
+    released,
+  });
+
+  return released;
+};
+
+/**
+ * Read the shipping address Stripe collected on the hosted checkout page
+ */
+const addressFromStripeSession = (
+  session: Stripe.Checkout.Session,
+  customerEmail: string
+): ShippingAddress => {
+  const sessionAny = session as any; // Cast to access shipping_details
+  const stripeShipping = sessionAny.shipping_details || sessionAny.shipping;
+  const stripeCustomer = session.customer_details;
+
+  if (!stripeShipping || !stripeShipping.address) {
+    console.error("❌ No shipping address found in session:", {
+      hasShippingDetails: !!sessionAny.shipping_details,
+      hasShipping: !!sessionAny.shipping,
+      hasCustomerDetails: !!session.customer_details,
+    });
+    throw new CustomError("Shipping address not found in Stripe session", 400);
+  }
+
+  // Combine address lines if line2 exists
+  const street = stripeShipping.address.line2
+    ? `${stripeShipping.address.line1}, ${stripeShipping.address.line2}`
+    : stripeShipping.address.line1 || "";
+
+  return {
+    name: stripeShipping.name || stripeCustomer?.name || "",
+    email: stripeCustomer?.email || customerEmail,
+    phone: stripeCustomer?.phone || stripeShipping.phone || "",
+    street1: street,
+    city: stripeShipping.address.city || "",
+    state: stripeShipping.address.state || "",
+    zip: stripeShipping.address.postal_code || "",
+    country: stripeShipping.address.country || "",
+  };
+};
+
+/**
+ * Decrement stock for regular products in a newly paid order. Flavor stock for
+ * packs is taken when the checkout's reservations are committed.
+ */
+const decrementProductStock = async (
+  orderItems: Array<{
+    id: string;
+    productId: string | null;
+    recipeId: string | null;
+    quantity: number;
+    flavorIds: string[];
+  }>
+) => {
+  for (const item of orderItems) {
+    if (!item.productId || item.recipeId || item.flavorIds.length > 0) continue;
+
+    try {
+      const product = await prisma.product.findUnique({
+        where: { id: item.productId },
+        select: { id: true },
+      });
+
+      if (!product) {
+        console.error(`   ❌ Product ${item.productId} not found in database!`);
+        continue;
+      }
+
+      await prisma.product.update({
+        where: { id: item.productId },
+        data: { stock: { decrement: item.quantity } },
+      });
+    } catch (invError) {
+      console.error(`   ❌ Error updating inventory for item ${item.id}:`, invError);
+      // Continue with other items even if one fails
+    }
+  }
+};
+
+/**
+ * Create the order for a completed Stripe Checkout session from its persisted
+ * checkout record. Safe to call more than once for the same session.
+ */
+export const completeCheckout = async (session: Stripe.Checkout.Session) => {
+  const checkout = await prisma.checkoutSession.findUnique({
+    where: { stripeSessionId: session.id },
+  });
+
+  if (!checkout) {
+    throw new CustomError(`No checkout record for session ${session.id}`, 404);
+  }
+
+  if (checkout.orderId) {
+    console.log("⏭️ Checkout already completed:", {
+      sessionId: session.id,
+      orderId: checkout.orderId,
+    });
+    return { orderId: checkout.orderId, created: false };
+  }
+
+  const customerEmail =
+    session.customer_details?.email || checkout.guestEmail;
+  if (!customerEmail) {
+    throw new CustomError("Customer email required", 400);
+  }
+
+  // Prefer the identity captured when checkout started, then fall back to the
+  // account matching the email Stripe collected
+  const user = checkout.userId
+    ? await prisma.user.findUnique({ where: { id: checkout.userId } })
+    : await prisma.user.findUnique({ where: { email: customerEmail } });
+
+  const shippingAddress =
+    (checkout.shippingAddress as unknown as ShippingAddress | null) ||
+    addressFromStripeSession(session, customerEmail);
+  const shippingRate =
+    checkout.shippingRate as unknown as VerifiedShippingRate | null;
+  const lines = checkout.items as unknown as PricedLine[];
+  const promotion = checkout.discount as unknown as AppliedPromotion | null;
+  const paymentIds = paymentIdsFromSession(session);
+
+  // Create order with confirmed status and paid payment status, and close the
+  // checkout record in the same transaction so a retried event cannot create a
+  // second order
+  const newOrder = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.create({
+      data: {
+        userId: user?.id || null, // NULL for guest checkout
+        guestId: user ? null : checkout.guestId || `guest_${customerEmail}`,
+        guestEmail: user ? null : customerEmail,
+        status: "confirmed",
+        paymentStatus: "paid",
+        total: checkout.total,
+        currency: checkout.currency,
+        fxRate: checkout.fxRate,
+        shippingCost: shippingRate ? checkout.shippingCost : undefined,
+        discountAmount: checkout.discountAmount,
+        discountCode: promotion?.code,
+        promotionId: promotion?.promotionId,
+        taxAmount: checkout.taxAmount,
+        taxBreakdown: checkout.taxBreakdown ?? Prisma.JsonNull,
+        giftCardId: checkout.giftCardId,
+        giftCardAmount: checkout.giftCardAmount,
+        shippingAddress: shippingAddress as unknown as Prisma.InputJsonValue,
+        shippingRate: checkout.shippingRate ?? Prisma.JsonNull,
+        orderNotes: checkout.orderNotes,
+        ...paymentIds,
+        orderItems: {
+          create: lines.map((line) => ({
+            productId: line.productId,
+            recipeId: line.recipeId,
+            quantity: line.quantity,
+            price: line.unitPrice,
+            total: line.total,
+            flavorIds: line.flavorIds || [],
+            customPackName: line.customPackName,
+          })),
+        },
+      },
+      include: { orderItems: true },
+    });
+
+    await recordOrderCreated(
+      order,
+      { source: "webhook", actorLabel: "stripe", note: `Paid via checkout ${session.id}` },
+      tx
+    );
+
+    await tx.checkoutSession.update({
+      where: { id: checkout.id },
+      data: {
+        status: "completed",
+        orderId: order.id,
+        paymentIntentId: paymentIds.paymentIntentId,
+        completedAt: new Date(),
+      },
+    });
+
+    // Held flavor stock becomes an onHand decrement now that it is paid for
+    await commitReservations(tx, checkout.id);
+    await attachCheckoutCredit(tx, checkout.id, order.id);
+    await enqueueFulfillment(order.id, tx);
+
+    // Limits were checked when the session was created and the customer has
+    // paid the discounted total, so the redemption is always recorded
+    if (promotion) {
+      await recordRedemption(tx, {
+        applied: promotion,
+        orderId: order.id,
+        customer: { userId: user?.id, email: customerEmail },
+        enforceLimits: false,
+      });
+    }
+
+    return order;
+  });
+
+  console.log("✅ Order created from checkout:", {
+    orderId: newOrder.id,
+    checkoutId: checkout.id,
+    total: newOrder.total,
+    itemsCount: newOrder.orderItems.length,
+    isGuestOrder: !user,
+  });
+
+  await decrementProductStock(newOrder.orderItems);
+
+  // Buy the label FIRST so the email can include tracking; if it fails the
+  // fulfillment worker retries it
+  const shippingDetails = await fulfillNow(newOrder.id);
+
+  try {
+    await sendOrderConfirmationEmail(customerEmail, {
+      orderId: newOrder.id,
+      customerName: shippingAddress.name || "Customer",
+      total: newOrder.total,
+      currency: newOrder.currency,
+      items: lines.map((line) => ({
+        name: line.name,
+        quantity: line.quantity,
+        price: line.unitPrice,
+      })),
+      shippingAddress: {
+        street1: shippingAddress.street1,
+        city: shippingAddress.city,
+        state: shippingAddress.state,
+        zip: shippingAddress.zip,
+        country: shippingAddress.country,
+      },
+      shippingDetails,
+    });
+    console.log("📧 Order confirmation email sent successfully with shipping details");
+  } catch (emailError) {
+    console.error("❌ Error sending order confirmation email:", emailError);
+    // Don't fail the order creation if email fails
+  }
+
+  return { orderId: newOrder.id, created: true };
+};
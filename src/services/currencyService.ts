@@ -0,0 +1,163 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { roundCurrency } from "./pricingService";
+
+const prisma = new PrismaClient();
+
+export const DEFAULT_CURRENCY = "usd";
+
+export const SUPPORTED_CURRENCIES = ["usd", "cad", "gbp", "aud"];
+
+// Checkout ships to these countries; each pays in its own currency
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: "usd",
+  CA: "cad",
+  GB: "gbp",
+  AU: "aud",
+};
+
+// USD value of one unit of each currency, used until a rate is set in the admin
+const DEFAULT_USD_RATES: Record<string, number> = {
+  usd: 1,
+  cad: 0.73,
+  gbp: 1.27,
+  aud: 0.66,
+};
+
+export interface PriceCurrency {
+  currency: string;
+  fxRate: number; // USD value of one unit of currency
+}
+
+export const USD: PriceCurrency = { currency: DEFAULT_CURRENCY, fxRate: 1 };
+
+export const normalizeCurrency = (currency?: string | null) =>
+  currency ? currency.trim().toLowerCase() : null;
+
+/**
+ * Currency to charge in: an explicit choice wins, otherwise the shipping
+ * country's currency. Returns null for an unsupported explicit currency.
+ */
+export const resolveCurrency = (params: {
+  currency?: string | null;
+  country?: string | null;
+}): string | null => {
+  const explicit = normalizeCurrency(params.currency);
+  if (explicit) {
+    return SUPPORTED_CURRENCIES.includes(explicit) ? explicit : null;
+  }
+  return COUNTRY_CURRENCIES[(params.country || "").trim().toUpperCase()] || DEFAULT_CURRENCY;
+};
+
+/**
+ * Current rate for a supported currency
+ */
+export const getPriceCurrency = async (currency: string): Promise<PriceCurrency> => {
+  if (currency === DEFAULT_CURRENCY) return USD;
+
+  const stored = await prisma.exchangeRate.findUnique({ where: { currency } });
+  const fxRate = stored?.usdRate ?? DEFAULT_USD_RATES[currency];
+  if (!fxRate) {
+    throw new CustomError(`No exchange rate configured for ${currency.toUpperCase()}`, 400);
+  }
+  return { currency, fxRate };
+};
+
+/**
+ * Rates for every supported currency, marking which are still the defaults
+ */
+export const getExchangeRates = async () => {
+  const stored = await prisma.exchangeRate.findMany();
+  return SUPPORTED_CURRENCIES.map((currency) => {
+    const rate = stored.find((row) => row.currency === currency);
+    return {
+      currency,
+      usdRate: currency === DEFAULT_CURRENCY ? 1 : rate?.usdRate ?? DEFAULT_USD_RATES[currency],
+      isDefault: currency !== DEFAULT_CURRENCY && !rate,
+      updatedAt: rate?.updatedAt ?? null,
+    };
+  });
+};
+
+export const fromUsd = (amount: number, price: PriceCurrency) =>
+  roundCurrency(amount / price.fxRate);
+
+export const toUsd = (amount: number, fxRate: number) => roundCurrency(amount * fxRate);
+
+/**
+ * Amount for messages shown to people, with the currency's symbol ("CA$12.50")
+ */
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: currency.toUpperCase() }).format(
+    amount
+  );
+
+/**
+ * Replace a product's or recipe's price-book amounts. `prices` maps currency
+ * codes to amounts; null removes a currency so it falls back to conversion.
+ */
+export const setPriceBook = async (
+  owner: { productId: string } | { recipeId: string },
+  prices: Record<string, unknown>
+) => {
+  if (!prices || typeof prices !== "object" || Array.isArray(prices)) {
+    throw new CustomError("prices must be an object of currency: amount", 400);
+  }
+
+  const entries = Object.entries(prices).map(([code, value]) => {
+    const currency = normalizeCurrency(code)!;
+    if (!SUPPORTED_CURRENCIES.includes(currency) || currency === DEFAULT_CURRENCY) {
+      throw new CustomError(
+        `Price books are kept for: ${SUPPORTED_CURRENCIES.filter((c) => c !== DEFAULT_CURRENCY).join(", ")}`,
+        400
+      );
+    }
+    if (value === null) return { currency, amount: null };
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new CustomError(`Price for ${currency.toUpperCase()} must be a positive number`, 400);
+    }
+    return { currency, amount: roundCurrency(amount) };
+  });
+
+  await prisma.$transaction(async (tx) => {
+    for (const { currency, amount } of entries) {
+      if (amount === null) {
+        await tx.priceBookEntry.deleteMany({ where: { ...owner, currency } });
+        continue;
+      }
+      const existing = await tx.priceBookEntry.findFirst({ where: { ...owner, currency } });
+      if (existing) {
+        await tx.priceBookEntry.update({ where: { id: existing.id }, data: { amount } });
+      } else {
+        await tx.priceBookEntry.create({ data: { ...owner, currency, amount } });
+      }
+    }
+  });
+
+  return prisma.priceBookEntry.findMany({
+    where: owner,
+    select: { currency: true, amount: true },
+    orderBy: { currency: "asc" },
+  });
+};
+
+/**
+ * Set the USD value of one unit of a currency
+ */
+export const setExchangeRate = async (code: string, usdRate: unknown) => {
+  const currency = normalizeCurrency(code)!;
+  if (!SUPPORTED_CURRENCIES.includes(currency) || currency === DEFAULT_CURRENCY) {
+    throw new CustomError(`Unsupported currency: ${code}`, 400);
+  }
+  const rate = Number(usdRate);
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new CustomError("usdRate must be a positive number", 400);
+  }
+
+  return prisma.exchangeRate.upsert({
+    where: { currency },
+    create: { currency, usdRate: rate },
+    update: { usdRate: rate },
+  });
+};
@@ -0,0 +1,279 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendDisputeAlertEmail } from "../utils/mailer";
+import { toShippoAddress } from "./fulfillmentService";
+import { findOrderIdByPayment } from "./paymentDetailsService";
+
+const prisma = new PrismaClient();
+
+export const DISPUTE_STATUSES = [
+  "warning_needs_response",
+  "warning_under_review",
+  "warning_closed",
+  "needs_response",
+  "under_review",
+  "won",
+  "lost",
+];
+
+const CLOSED_STATUSES = ["warning_closed", "won", "lost"];
+
+// Evidence fields an admin may fill in or override before submitting
+const EVIDENCE_FIELDS = [
+  "customer_email_address",
+  "customer_name",
+  "billing_address",
+  "shipping_address",
+  "shipping_carrier",
+  "shipping_date",
+  "shipping_tracking_number",
+  "product_description",
+  "refund_policy_disclosure",
+  "cancellation_rebuttal",
+  "uncategorized_text",
+] as const;
+
+type EvidenceField = (typeof EVIDENCE_FIELDS)[number];
+export type DisputeEvidence = Partial<Record<EvidenceField, string>>;
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  !value ? null : typeof value === "string" ? value : value.id;
+
+/**
+ * Who hears about disputes: ADMIN_NOTIFICATION_EMAIL (comma separated), or
+ * every admin account when it is not set
+ */
+const adminRecipients = async () => {
+  const configured = (process.env.ADMIN_NOTIFICATION_EMAIL || "")
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+  if (configured.length > 0) return configured;
+
+  const admins = await prisma.user.findMany({
+    where: { role: "admin" },
+    select: { email: true },
+  });
+  return admins.map((admin) => admin.email);
+};
+
+/**
+ * Store a Stripe dispute from a charge.dispute.* event. A new dispute flags
+ * its order; admins are emailed when a dispute opens and when it closes.
+ */
+export const syncDispute = async (dispute: Stripe.Dispute) => {
+  const chargeId = idOf(dispute.charge)!;
+  const paymentIntentId = idOf(dispute.payment_intent);
+
+  const existing = await prisma.dispute.findUnique({
+    where: { stripeDisputeId: dispute.id },
+  });
+  const orderId =
+    existing?.orderId ?? (await findOrderIdByPayment({ chargeId, paymentIntentId }));
+
+  const closed = CLOSED_STATUSES.includes(dispute.status);
+  const data = {
+    orderId,
+    chargeId,
+    paymentIntentId,
+    amount: dispute.amount / 100,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceDueBy: dispute.evidence_details?.due_by
+      ? new Date(dispute.evidence_details.due_by * 1000)
+      : null,
+    closedAt: closed ? existing?.closedAt ?? new Date() : null,
+  };
+
+  const record = await prisma.dispute.upsert({
+    where: { stripeDisputeId: dispute.id },
+    create: { stripeDisputeId: dispute.id, ...data },
+    update: data,
+  });
+
+  if (!orderId) {
+    console.warn("⚠️ No order found for disputed charge:", {
+      disputeId: dispute.id,
+      chargeId,
+      paymentIntentId,
+    });
+  } else if (!existing) {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { flagged: true, flagReason: `Payment disputed (${dispute.reason})` },
+    });
+  }
+
+  console.log("⚖️ Dispute synced:", {
+    disputeId: dispute.id,
+    orderId,
+    status: dispute.status,
+  });
+
+  const opened = !existing;
+  const justClosed = closed && !existing?.closedAt;
+  if (opened || justClosed) {
+    const order = orderId
+      ? await prisma.order.findUnique({
+          where: { id: orderId },
+          select: { guestEmail: true, user: { select: { email: true } } },
+        })
+      : null;
+    const recipients = await adminRecipients();
+    if (recipients.length > 0) {
+      await sendDisputeAlertEmail(recipients.join(", "), {
+        stripeDisputeId: dispute.id,
+        orderId,
+        customerEmail: order?.user?.email || order?.guestEmail,
+        amount: record.amount,
+        currency: record.currency,
+        reason: record.reason,
+        status: record.status,
+        evidenceDueBy: record.evidenceDueBy,
+        closed,
+      });
+    }
+  }
+
+  return record;
+};
+
+const loadDispute = async (disputeId: string) => {
+  const dispute = await prisma.dispute.findUnique({
+    where: { id: disputeId },
+    include: {
+      order: {
+        include: {
+          orderItems: { include: { product: { select: { name: true } } } },
+          user: { select: { email: true, name: true } },
+          trackingEvents: { orderBy: { occurredAt: "asc" } },
+        },
+      },
+    },
+  });
+  if (!dispute) {
+    throw new CustomError("Dispute not found", 404);
+  }
+  return dispute;
+};
+
+const formatAddress = (raw: Prisma.JsonValue | null, email?: string | null) => {
+  const address = toShippoAddress(raw, email);
+  if (!address) return undefined;
+  return [
+    address.name,
+    address.street1,
+    address.street2,
+    `${address.city}, ${address.state} ${address.zip}`,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Evidence for a dispute built from its order: customer, shipping address,
+ * carrier tracking and what was bought
+ */
+export const buildDisputeEvidence = async (disputeId: string) => {
+  const dispute = await loadDispute(disputeId);
+  const order = dispute.order;
+  if (!order) {
+    return { dispute, evidence: {} as DisputeEvidence };
+  }
+
+  const address = order.shippingAddress as any;
+  const customerEmail = order.user?.email || order.guestEmail || address?.email;
+  const shipped = order.trackingEvents.find((event) => event.status !== "PRE_TRANSIT");
+  const delivered = [...order.trackingEvents]
+    .reverse()
+    .find((event) => event.status === "DELIVERED");
+
+  const items = order.orderItems.map(
+    (item) =>
+      `${item.quantity} x ${item.product?.name || item.customPackName || "Custom licorice pack"}` +
+      (item.flavorIds.length ? ` (flavors: ${item.flavorIds.join(", ")})` : "")
+  );
+
+  const notes = [
+    `Order #${order.id} placed ${order.createdAt.toUTCString()} for ${order.total.toFixed(2)} ${order.currency.toUpperCase()}.`,
+    order.trackingNumber
+      ? `Shipped with ${order.shippingCarrier || "carrier"} tracking ${order.trackingNumber}.`
+      : null,
+    delivered
+      ? `Delivered ${delivered.occurredAt.toUTCString()}${delivered.statusDetails ? `: ${delivered.statusDetails}` : ""}.`
+      : null,
+    order.trackingUrl ? `Tracking: ${order.trackingUrl}` : null,
+  ];
+
+  const evidence: DisputeEvidence = {
+    customer_email_address: customerEmail || undefined,
+    customer_name: address?.name || order.user?.name || undefined,
+    shipping_address: formatAddress(order.shippingAddress, customerEmail),
+    shipping_carrier: order.shippingCarrier || undefined,
+    shipping_tracking_number: order.trackingNumber || undefined,
+    shipping_date: shipped ? isoDate(shipped.occurredAt) : undefined,
+    product_description: items.join("\n"),
+    uncategorized_text: notes.filter(Boolean).join("\n"),
+  };
+
+  return {
+    dispute,
+    evidence: Object.fromEntries(
+      Object.entries(evidence).filter(([, value]) => !!value)
+    ) as DisputeEvidence,
+  };
+};
+
+/**
+ * Send the built evidence, with any admin overrides, to Stripe. With `submit`
+ * Stripe forwards it to the bank and no further changes are possible.
+ */
+export const submitDisputeEvidence = async (
+  stripe: Stripe,
+  disputeId: string,
+  options: { overrides?: Record<string, unknown>; submit?: boolean }
+) => {
+  const { dispute, evidence } = await buildDisputeEvidence(disputeId);
+  if (dispute.closedAt) {
+    throw new CustomError(`Dispute is already closed (${dispute.status})`, 400);
+  }
+  if (dispute.evidenceSubmittedAt) {
+    throw new CustomError("Evidence has already been submitted for this dispute", 409);
+  }
+
+  for (const field of EVIDENCE_FIELDS) {
+    const value = options.overrides?.[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      throw new CustomError(`${field} must be a string`, 400);
+    }
+    evidence[field] = value;
+  }
+
+  const submit = options.submit !== false;
+  const updated = await stripe.disputes.update(dispute.stripeDisputeId, {
+    evidence,
+    submit,
+  });
+
+  const record = await prisma.dispute.update({
+    where: { id: dispute.id },
+    data: {
+      status: updated.status,
+      evidenceSubmittedAt: submit ? new Date() : undefined,
+    },
+  });
+
+  console.log("📨 Dispute evidence sent:", {
+    disputeId: dispute.stripeDisputeId,
+    orderId: dispute.orderId,
+    submitted: submit,
+  });
+
+  return { dispute: record, evidence };
+};
@@ -0,0 +1,336 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { VerifiedShippingRate } from "./pricingService";
+import { packOrder } from "./packingService";
+import {
+  createShipment,
+  getShippingRates,
+  SenderAddress,
+  ShipmentData,
+  ShippingAddress,
+} from "./shippoService";
+import { assignWarehouse, toSenderAddress } from "./warehouseService";
+
+const prisma = new PrismaClient();
+
+// Attempt n waits BASE * 2^(n-1), capped: 1m, 2m, 4m, ... up to 1h
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const WORKER_INTERVAL_MS = 60 * 1000;
+const WORKER_BATCH_SIZE = 20;
+// A job left in "processing" this long is assumed to belong to a crashed run
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+// Orders only ship once money has been collected
+const SHIPPABLE_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+type Tx = Prisma.TransactionClient;
+
+export const backoffDelayMs = (attempts: number): number =>
+  Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+
+/**
+ * Orders store addresses in whichever shape they were collected in: Shippo
+ * (street1/zip), the checkout form (street/zipCode) or Stripe shipping
+ * details (nested address with line1/postal_code)
+ */
+export const toShippoAddress = (raw: any, fallbackEmail?: string | null): ShippingAddress | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const nested = raw.address && typeof raw.address === "object" ? raw.address : null;
+
+  const address: ShippingAddress = {
+    name: raw.name || "",
+    company: raw.company || "",
+    email: raw.email || fallbackEmail || "",
+    phone: raw.phone || "",
+    street1: raw.street1 || raw.street || nested?.line1 || "",
+    street2: raw.street2 || nested?.line2 || "",
+    city: raw.city || nested?.city || "",
+    state: raw.state || nested?.state || "",
+    zip: raw.zip || raw.zipCode || nested?.postal_code || "",
+    country: raw.country || nested?.country || "US",
+  };
+
+  return address.street1 && address.city && address.zip ? address : null;
+};
+
+/**
+ * Queue label purchase for a paid order. Safe to call more than once.
+ */
+export const enqueueFulfillment = async (orderId: string, tx: Tx = prisma) => {
+  return tx.fulfillmentJob.upsert({
+    where: { orderId },
+    create: { orderId },
+    update: {},
+  });
+};
+
+/**
+ * Pick the rate to buy. The customer's rate is tried first; Shippo rates
+ * expire (and are tied to the address they were quoted from), so a requote
+ * looks for the same carrier and service and falls back to the cheapest one.
+ */
+const selectRate = async (
+  address: ShippingAddress,
+  parcels: ShipmentData["parcels"],
+  fromAddress: SenderAddress | undefined,
+  storedRate: VerifiedShippingRate | null,
+  requote: boolean
+): Promise<VerifiedShippingRate> => {
+  if (storedRate?.objectId && !requote) {
+    return storedRate;
+  }
+
+  const rates = await getShippingRates(address, parcels, fromAddress);
+  if (rates.length === 0) {
+    throw new Error("No shipping rates available for this address");
+  }
+
+  const match = storedRate
+    ? rates.find(
+        (rate) =>
+          rate.carrier === storedRate.carrier &&
+          rate.serviceName === storedRate.serviceName
+      )
+    : undefined;
+  const rate = match || [...rates].sort((a, b) => a.amount - b.amount)[0];
+
+  return {
+    objectId: rate.objectId,
+    carrier: rate.carrier,
+    serviceName: rate.serviceName,
+    // Keep recording what the customer actually paid for shipping
+    amount: storedRate?.amount ?? rate.amount,
+  };
+};
+
+/**
+ * Claim and run an order's fulfillment job if it is due. Returns the job, or
+ * null when there is nothing to run (no job, not due, or claimed elsewhere).
+ */
+export const runFulfillmentJob = async (orderId: string) => {
+  const now = new Date();
+
+  // Claim atomically so the worker and a webhook can't buy two labels
+  const claimed = await prisma.fulfillmentJob.updateMany({
+    where: {
+      orderId,
+      OR: [
+        { status: "pending", nextAttemptAt: { lte: now } },
+        {
+          status: "processing",
+          lockedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: { status: "processing", lockedAt: now, attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) return null;
+
+  const job = await prisma.fulfillmentJob.findUniqueOrThrow({ where: { orderId } });
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { user: { select: { email: true } } },
+  });
+
+  const finish = (data: Prisma.FulfillmentJobUpdateInput) =>
+    prisma.fulfillmentJob.update({
+      where: { id: job.id },
+      data: { lockedAt: null, ...data },
+    });
+
+  if (!order || order.status === "cancelled") {
+    return finish({ status: "canceled", lastError: "Order was cancelled" });
+  }
+  if (order.shippingLabelUrl) {
+    return finish({ status: "succeeded", completedAt: new Date() });
+  }
+  if (!SHIPPABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    return finish({
+      status: "canceled",
+      lastError: `Order is not paid (payment status ${order.paymentStatus})`,
+    });
+  }
+
+  try {
+    const address = toShippoAddress(
+      order.shippingAddress,
+      order.user?.email || order.guestEmail
+    );
+    if (!address) {
+      throw new Error("Order has no complete shipping address");
+    }
+
+    const parcels = await packOrder(orderId);
+    const warehouse = await assignWarehouse(orderId);
+    const fromAddress = warehouse ? toSenderAddress(warehouse) : undefined;
+
+    // The checkout quote may have come from another warehouse, so a routed
+    // order always buys on a fresh quote from its own
+    const rate = await selectRate(
+      address,
+      parcels,
+      fromAddress,
+      order.shippingRate as unknown as VerifiedShippingRate | null,
+      job.attempts > 1 || !!warehouse
+    );
+
+    await createShipment(
+      { orderId, toAddress: address, fromAddress, parcels },
+      rate.objectId,
+      { carrier: rate.carrier, amount: rate.amount, serviceName: rate.serviceName }
+    );
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { shippingError: null },
+    });
+
+    console.log("📦 Fulfillment succeeded:", { orderId, attempts: job.attempts });
+    return finish({ status: "succeeded", completedAt: new Date(), lastError: null });
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const exhausted = job.attempts >= MAX_ATTEMPTS;
+
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { shippingError: message },
+    });
+
+    console.error("❌ Fulfillment attempt failed:", {
+      orderId,
+      attempts: job.attempts,
+      error: message,
+      willRetry: !exhausted,
+    });
+
+    return finish({
+      status: exhausted ? "failed" : "pending",
+      lastError: message,
+      nextAttemptAt: new Date(Date.now() + backoffDelayMs(job.attempts)),
+    });
+  }
+};
+
+/**
+ * Run an order's fulfillment straight away (e.g. right after payment) and
+ * return its shipping details for the confirmation email. A failure is left
+ * to the worker to retry.
+ */
+export const fulfillNow = async (orderId: string) => {
+  try {
+    await enqueueFulfillment(orderId);
+    await runFulfillmentJob(orderId);
+  } catch (error) {
+    console.error("⚠️ Fulfillment could not run:", { orderId, error });
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      trackingNumber: true,
+      trackingUrl: true,
+      shippingCarrier: true,
+      shippingCost: true,
+    },
+  });
+
+  if (!order?.trackingNumber) return undefined;
+
+  return {
+    trackingNumber: order.trackingNumber,
+    trackingUrl: order.trackingUrl || undefined,
+    carrier: order.shippingCarrier || undefined,
+    shippingCost: order.shippingCost ?? undefined,
+  };
+};
+
+/**
+ * Run every fulfillment job that is due
+ */
+export const processDueFulfillments = async () => {
+  const now = new Date();
+  const due = await prisma.fulfillmentJob.findMany({
+    where: {
+      OR: [
+        { status: "pending", nextAttemptAt: { lte: now } },
+        {
+          status: "processing",
+          lockedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: WORKER_BATCH_SIZE,
+    select: { orderId: true },
+  });
+
+  let succeeded = 0;
+  for (const { orderId } of due) {
+    try {
+      const job = await runFulfillmentJob(orderId);
+      if (job?.status === "succeeded") succeeded++;
+    } catch (error) {
+      console.error(`❌ Fulfillment job for order ${orderId} crashed:`, error);
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(`📦 Fulfillment worker ran ${due.length} jobs, ${succeeded} succeeded`);
+  }
+
+  return { ran: due.length, succeeded };
+};
+
+/**
+ * Periodically buy labels for paid orders that don't have one yet
+ */
+export const startFulfillmentWorker = () => {
+  const timer = setInterval(() => {
+    processDueFulfillments().catch((error) =>
+      console.error("❌ Fulfillment worker failed:", error)
+    );
+  }, WORKER_INTERVAL_MS);
+
+  // Don't keep the process alive just for the worker
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Give a failed (or waiting) fulfillment a fresh set of attempts and run it now
+ */
+export const retryFulfillment = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, shippingLabelUrl: true },
+  });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+  if (order.shippingLabelUrl) {
+    throw new CustomError("Order already has a shipping label", 409);
+  }
+
+  const job = await prisma.fulfillmentJob.findUnique({ where: { orderId } });
+  if (job?.status === "processing") {
+    throw new CustomError("Fulfillment is already running for this order", 409);
+  }
+
+  await prisma.fulfillmentJob.upsert({
+    where: { orderId },
+    create: { orderId },
+    update: {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lockedAt: null,
+    },
+  });
+
+  return (
+    (await runFulfillmentJob(orderId)) ||
+    prisma.fulfillmentJob.findUniqueOrThrow({ where: { orderId } })
+  );
+};
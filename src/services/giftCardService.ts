@@ -0,0 +1,497 @@
+import crypto from "crypto";
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendGiftCardEmail } from "../utils/mailer";
+import { roundCurrency, toCents } from "./pricingService";
+import { normalizeCurrency, SUPPORTED_CURRENCIES } from "./currencyService";
+
+const prisma = new PrismaClient();
+
+type Tx = Prisma.TransactionClient;
+
+// Stripe checkout sessions that pay for a gift card carry this metadata type
+export const GIFT_CARD_PURCHASE = "gift_card";
+
+// Amounts a customer may buy a gift card for, in the card's currency
+const MIN_PURCHASE_AMOUNT = 5;
+const MAX_PURCHASE_AMOUNT = 500;
+
+// No 0/O or 1/I so codes can be read back over the phone
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export class GiftCardError extends CustomError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+  }
+}
+
+export interface AppliedGiftCard {
+  giftCardId: string;
+  code: string;
+  amount: number; // In the order's currency, which is always the card's
+}
+
+type LedgerLink = {
+  orderId?: string | null;
+  checkoutSessionId?: string | null;
+  actorId?: string | null;
+  note?: string | null;
+};
+
+export const normalizeGiftCardCode = (code: string) =>
+  code.trim().toUpperCase().replace(/\s+/g, "");
+
+const generateCode = () => {
+  const groups = Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join("")
+  );
+  return `GC-${groups.join("-")}`;
+};
+
+const parseAmount = (value: unknown, min = 0.01, max = Infinity) => {
+  const amount = roundCurrency(Number(value));
+  if (!Number.isFinite(amount) || amount < min || amount > max) {
+    throw new GiftCardError(
+      max === Infinity
+        ? "amount must be a positive number"
+        : `amount must be between ${min} and ${max}`
+    );
+  }
+  return amount;
+};
+
+const parseCurrency = (value: unknown) => {
+  const currency = normalizeCurrency(typeof value === "string" ? value : null) || "usd";
+  if (!SUPPORTED_CURRENCIES.includes(currency)) {
+    throw new GiftCardError(`Unsupported currency: ${value}`);
+  }
+  return currency;
+};
+
+/**
+ * Add a signed amount to a card's balance and record it in the ledger.
+ * Debits only succeed while the card is active and covers them.
+ */
+const adjustBalance = async (
+  tx: Tx,
+  giftCardId: string,
+  amount: number,
+  type: "issue" | "redeem" | "release" | "refund" | "void",
+  link: LedgerLink = {}
+) => {
+  const result = await tx.giftCard.updateMany({
+    where:
+      amount < 0
+        ? { id: giftCardId, voidedAt: null, balance: { gte: roundCurrency(-amount) - 0.001 } }
+        : { id: giftCardId },
+    data: { balance: { increment: amount } },
+  });
+  if (result.count === 0) {
+    throw new GiftCardError("Gift card balance has changed, try again", 409);
+  }
+
+  // Keep the stored balance to whole cents despite float increments
+  const card = await tx.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+  const balance = Math.max(0, roundCurrency(card.balance));
+  if (balance !== card.balance) {
+    await tx.giftCard.update({ where: { id: giftCardId }, data: { balance } });
+  }
+
+  return tx.creditLedgerEntry.create({
+    data: {
+      giftCardId,
+      type,
+      amount: roundCurrency(amount),
+      balanceAfter: balance,
+      orderId: link.orderId || null,
+      checkoutSessionId: link.checkoutSessionId || null,
+      actorId: link.actorId || null,
+      note: link.note || null,
+    },
+  });
+};
+
+/**
+ * Validate a gift card code for an order and work out how much of the amount
+ * due it covers. The card must be active, unexpired, in the order's currency
+ * and, for credit issued to an account, used by that account.
+ */
+export const resolveGiftCard = async (params: {
+  code?: string | null;
+  currency: string;
+  amountDue: number;
+  userId?: string | null;
+}): Promise<AppliedGiftCard | null> => {
+  if (!params.code || !params.code.trim()) return null;
+
+  const card = await prisma.giftCard.findUnique({
+    where: { code: normalizeGiftCardCode(params.code) },
+  });
+  if (!card) {
+    throw new GiftCardError("Gift card not found", 404);
+  }
+  if (card.voidedAt) {
+    throw new GiftCardError("This gift card is no longer valid");
+  }
+  if (card.expiresAt && card.expiresAt < new Date()) {
+    throw new GiftCardError("This gift card has expired");
+  }
+  if (card.userId && card.userId !== params.userId) {
+    throw new GiftCardError("This store credit belongs to another account", 403);
+  }
+  if (card.currency !== params.currency) {
+    throw new GiftCardError(
+      `This gift card is in ${card.currency.toUpperCase()} and can't pay for a ${params.currency.toUpperCase()} order`
+    );
+  }
+  if (card.balance <= 0) {
+    throw new GiftCardError("This gift card has no balance left");
+  }
+
+  return {
+    giftCardId: card.id,
+    code: card.code,
+    amount: roundCurrency(Math.min(card.balance, Math.max(0, params.amountDue))),
+  };
+};
+
+/**
+ * Take the applied amount off the card for an order or a checkout session
+ */
+export const redeemGiftCard = (tx: Tx, applied: AppliedGiftCard, link: LedgerLink) =>
+  adjustBalance(tx, applied.giftCardId, -applied.amount, "redeem", link);
+
+/**
+ * Move the credit held for a checkout session onto the order it created
+ */
+export const attachCheckoutCredit = (tx: Tx, checkoutSessionId: string, orderId: string) =>
+  tx.creditLedgerEntry.updateMany({
+    where: { checkoutSessionId },
+    data: { orderId },
+  });
+
+/**
+ * Put back whatever an unpaid order or expired checkout still holds on its
+ * gift card. Safe to call more than once.
+ */
+export const releaseGiftCardCredit = async (
+  tx: Tx,
+  link: { orderId: string } | { checkoutSessionId: string },
+  note: string
+) => {
+  const entries = await tx.creditLedgerEntry.findMany({ where: link });
+  const held = new Map<string, number>();
+  for (const entry of entries) {
+    held.set(entry.giftCardId, (held.get(entry.giftCardId) || 0) - entry.amount);
+  }
+
+  let released = 0;
+  for (const [giftCardId, amount] of held) {
+    const outstanding = roundCurrency(amount);
+    if (outstanding <= 0) continue;
+    await adjustBalance(tx, giftCardId, outstanding, "release", { ...link, note });
+    released = roundCurrency(released + outstanding);
+  }
+  return released;
+};
+
+/**
+ * Take an unpaid order's gift card credit again after it was released, when
+ * payment for the order is retried. Throws if the card no longer covers it.
+ */
+export const reholdGiftCardCredit = async (
+  tx: Tx,
+  order: { id: string; giftCardId: string | null; giftCardAmount: number },
+  note: string
+) => {
+  if (!order.giftCardId || order.giftCardAmount <= 0) return 0;
+
+  const entries = await tx.creditLedgerEntry.findMany({
+    where: { orderId: order.id, giftCardId: order.giftCardId },
+  });
+  const held = -entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const missing = roundCurrency(order.giftCardAmount - held);
+  if (missing <= 0) return 0;
+
+  await adjustBalance(tx, order.giftCardId, -missing, "redeem", { orderId: order.id, note });
+  return missing;
+};
+
+/**
+ * Return part of a refund to the gift card that paid for the order
+ */
+export const refundToGiftCard = (
+  tx: Tx,
+  order: { id: string; giftCardId: string | null },
+  amount: number,
+  actorId?: string | null
+) => {
+  if (!order.giftCardId) {
+    throw new GiftCardError("Order was not paid with a gift card");
+  }
+  return adjustBalance(tx, order.giftCardId, amount, "refund", {
+    orderId: order.id,
+    actorId,
+    note: "Order refund",
+  });
+};
+
+/**
+ * Create a gift card with its opening ledger entry and email the code to the
+ * recipient
+ */
+const createGiftCard = async (params: {
+  amount: number;
+  currency: string;
+  source: "purchase" | "admin";
+  userId?: string | null;
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  reason?: string | null;
+  message?: string | null;
+  purchaseSessionId?: string | null;
+  issuedById?: string | null;
+  expiresAt?: Date | null;
+}) => {
+  const card = await prisma.$transaction(async (tx) => {
+    const created = await tx.giftCard.create({
+      data: {
+        code: generateCode(),
+        currency: params.currency,
+        initialBalance: params.amount,
+        balance: 0,
+        source: params.source,
+        userId: params.userId || null,
+        recipientEmail: params.recipientEmail || null,
+        reason: params.reason || null,
+        purchaseSessionId: params.purchaseSessionId || null,
+        issuedById: params.issuedById || null,
+        expiresAt: params.expiresAt || null,
+      },
+    });
+    await adjustBalance(tx, created.id, params.amount, "issue", {
+      actorId: params.issuedById,
+      note: params.reason || (params.source === "purchase" ? "Purchased" : null),
+    });
+    return tx.giftCard.findUniqueOrThrow({ where: { id: created.id } });
+  });
+
+  console.log("🎁 Gift card issued:", {
+    giftCardId: card.id,
+    source: card.source,
+    amount: card.initialBalance,
+    currency: card.currency,
+    userId: card.userId,
+  });
+
+  if (card.recipientEmail) {
+    try {
+      await sendGiftCardEmail(card.recipientEmail, {
+        code: card.code,
+        amount: card.initialBalance,
+        currency: card.currency,
+        recipientName: params.recipientName,
+        message: params.message,
+        expiresAt: card.expiresAt,
+        isStoreCredit: card.source === "admin",
+      });
+    } catch (emailError) {
+      console.error("❌ Error sending gift card email:", emailError);
+    }
+  }
+
+  return card;
+};
+
+/**
+ * Issue store credit or a gift card from the admin. Credit for a user is tied
+ * to their account and emailed to them.
+ */
+export const issueGiftCard = async (params: {
+  amount: unknown;
+  currency?: unknown;
+  userId?: string | null;
+  recipientEmail?: string | null;
+  reason?: string | null;
+  expiresAt?: string | null;
+  issuedById: string;
+}) => {
+  const amount = parseAmount(params.amount);
+  const currency = parseCurrency(params.currency);
+
+  let expiresAt: Date | null = null;
+  if (params.expiresAt) {
+    expiresAt = new Date(params.expiresAt);
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      throw new GiftCardError("expiresAt must be a future date");
+    }
+  }
+
+  let recipientEmail = params.recipientEmail || null;
+  let recipientName: string | null = null;
+  if (params.userId) {
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+      select: { email: true, name: true },
+    });
+    if (!user) {
+      throw new GiftCardError("User not found", 404);
+    }
+    recipientEmail = recipientEmail || user.email;
+    recipientName = user.name;
+  }
+  if (!params.userId && !recipientEmail) {
+    throw new GiftCardError("userId or recipientEmail is required");
+  }
+
+  return createGiftCard({
+    amount,
+    currency,
+    source: "admin",
+    userId: params.userId,
+    recipientEmail,
+    recipientName,
+    reason: params.reason,
+    issuedById: params.issuedById,
+    expiresAt,
+  });
+};
+
+/**
+ * Cancel a card and write off its remaining balance. Credit already held by
+ * unpaid orders is released back onto the voided card, where it can't be spent.
+ */
+export const voidGiftCard = async (giftCardId: string, actorId: string, reason?: string | null) => {
+  const card = await prisma.giftCard.findUnique({ where: { id: giftCardId } });
+  if (!card) {
+    throw new GiftCardError("Gift card not found", 404);
+  }
+  if (card.voidedAt) {
+    throw new GiftCardError("Gift card is already voided", 409);
+  }
+
+  const voided = await prisma.$transaction(async (tx) => {
+    if (card.balance > 0) {
+      await adjustBalance(tx, card.id, -card.balance, "void", {
+        actorId,
+        note: reason || "Voided",
+      });
+    }
+    return tx.giftCard.update({
+      where: { id: card.id },
+      data: { voidedAt: new Date(), balance: 0 },
+    });
+  });
+
+  console.log("🚫 Gift card voided:", {
+    giftCardId: card.id,
+    writtenOff: card.balance,
+    actorId,
+  });
+  return voided;
+};
+
+/**
+ * Public balance check for a code
+ */
+export const getGiftCardBalance = async (code: string) => {
+  const card = await prisma.giftCard.findUnique({
+    where: { code: normalizeGiftCardCode(code) },
+    select: { code: true, balance: true, currency: true, expiresAt: true, voidedAt: true },
+  });
+  if (!card) {
+    throw new GiftCardError("Gift card not found", 404);
+  }
+  return {
+    code: card.code,
+    balance: card.voidedAt ? 0 : card.balance,
+    currency: card.currency,
+    expiresAt: card.expiresAt,
+    active: !card.voidedAt && (!card.expiresAt || card.expiresAt > new Date()),
+  };
+};
+
+/**
+ * Start a Stripe Checkout session to buy a digital gift card. The card is
+ * created and emailed once the session is paid.
+ */
+export const createGiftCardCheckout = async (
+  stripe: Stripe,
+  params: {
+    amount: unknown;
+    currency?: unknown;
+    recipientEmail?: string;
+    recipientName?: string;
+    message?: string;
+    purchaserId?: string | null;
+    successUrl?: string;
+    cancelUrl?: string;
+  }
+) => {
+  const amount = parseAmount(params.amount, MIN_PURCHASE_AMOUNT, MAX_PURCHASE_AMOUNT);
+  const currency = parseCurrency(params.currency);
+  if (!params.recipientEmail) {
+    throw new GiftCardError("recipientEmail is required");
+  }
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    line_items: [
+      {
+        price_data: {
+          currency,
+          product_data: { name: `Licorice4Good gift card for ${params.recipientEmail}` },
+          unit_amount: toCents(amount),
+        },
+        quantity: 1,
+      },
+    ],
+    success_url:
+      params.successUrl ||
+      `${process.env.CLIENT_URL}/gift-cards/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: params.cancelUrl || `${process.env.CLIENT_URL}/gift-cards`,
+    // Stripe caps metadata values at 500 characters
+    metadata: {
+      type: GIFT_CARD_PURCHASE,
+      amount: amount.toFixed(2),
+      currency,
+      recipientEmail: params.recipientEmail,
+      recipientName: (params.recipientName || "").slice(0, 100),
+      message: (params.message || "").slice(0, 500),
+      purchaserId: params.purchaserId || "",
+    },
+  });
+
+  return { sessionId: session.id, url: session.url };
+};
+
+/**
+ * Create the gift card for a paid purchase session. Safe to call more than
+ * once for the same session.
+ */
+export const fulfillGiftCardPurchase = async (session: Stripe.Checkout.Session) => {
+  const existing = await prisma.giftCard.findUnique({
+    where: { purchaseSessionId: session.id },
+  });
+  if (existing) {
+    return { giftCard: existing, created: false };
+  }
+  if (session.payment_status !== "paid") {
+    throw new GiftCardError(`Gift card session ${session.id} is not paid`);
+  }
+
+  const metadata = session.metadata || {};
+  const giftCard = await createGiftCard({
+    amount: roundCurrency(Number(metadata.amount) || (session.amount_total || 0) / 100),
+    currency: metadata.currency || session.currency || "usd",
+    source: "purchase",
+    recipientEmail: metadata.recipientEmail || session.customer_details?.email,
+    recipientName: metadata.recipientName || null,
+    message: metadata.message || null,
+    purchaseSessionId: session.id,
+    issuedById: metadata.purchaserId || null,
+  });
+
+  return { giftCard, created: true };
+};
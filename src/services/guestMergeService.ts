@@ -0,0 +1,94 @@
+import { PrismaClient } from "../generated/prisma";
+
+const prisma = new PrismaClient();
+
+export interface GuestMergeResult {
+  cartLinesMerged: number;
+  ordersClaimed: number;
+}
+
+/**
+ * Move a guest's cart lines onto an account. A line whose sku is already in
+ * the account's cart is added to that line's quantity instead.
+ */
+export const mergeGuestCart = async (guestId: string, userId: string) => {
+  return prisma.$transaction(async (tx) => {
+    const guestLines = await tx.cartLine.findMany({ where: { guestId } });
+    if (guestLines.length === 0) return 0;
+
+    const userLines = await tx.cartLine.findMany({ where: { userId } });
+    const bySku = new Map(userLines.map((line) => [line.sku, line]));
+
+    for (const line of guestLines) {
+      const existing = bySku.get(line.sku);
+      if (existing) {
+        const merged = await tx.cartLine.update({
+          where: { id: existing.id },
+          data: { quantity: existing.quantity + line.quantity },
+        });
+        bySku.set(merged.sku, merged);
+        await tx.cartLine.delete({ where: { id: line.id } });
+      } else {
+        const moved = await tx.cartLine.update({
+          where: { id: line.id },
+          data: { userId, guestId: null },
+        });
+        bySku.set(moved.sku, moved);
+      }
+    }
+
+    return guestLines.length;
+  });
+};
+
+/**
+ * Link orders placed as a guest with this email to the account. Only call
+ * this once the account owns the email (it is verified).
+ */
+export const claimGuestOrders = async (userId: string, email: string) => {
+  const result = await prisma.order.updateMany({
+    where: {
+      userId: null,
+      guestEmail: { equals: email, mode: "insensitive" },
+    },
+    data: { userId },
+  });
+  return result.count;
+};
+
+/**
+ * Bring what a visitor did as a guest into the account they just signed in
+ * to: the cart from their guestId cookie, and, for a verified email, the
+ * guest orders placed with it. Never fails the sign-in.
+ */
+export const mergeGuestIntoAccount = async (params: {
+  userId: string;
+  email?: string | null;
+  isVerified: boolean;
+  guestId?: string | null;
+}): Promise<GuestMergeResult> => {
+  const result: GuestMergeResult = { cartLinesMerged: 0, ordersClaimed: 0 };
+
+  try {
+    if (params.guestId) {
+      result.cartLinesMerged = await mergeGuestCart(params.guestId, params.userId);
+    }
+    if (params.isVerified && params.email) {
+      result.ordersClaimed = await claimGuestOrders(params.userId, params.email);
+    }
+  } catch (error) {
+    console.error("❌ Failed to merge guest data into account:", {
+      userId: params.userId,
+      error,
+    });
+    return result;
+  }
+
+  if (result.cartLinesMerged > 0 || result.ordersClaimed > 0) {
+    console.log("🔗 Merged guest data into account:", {
+      userId: params.userId,
+      ...result,
+    });
+  }
+  return result;
+};
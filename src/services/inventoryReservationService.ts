@@ -0,0 +1,288 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { PricedLine } from "./pricingService";
+
+const prisma = new PrismaClient();
+
+// Stripe requires Checkout sessions to stay open for at least 30 minutes
+const MIN_TTL_MINUTES = 30;
+const MAX_TTL_MINUTES = 24 * 60;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * How long stock is held for an unpaid checkout session
+ */
+export const getReservationTtlMinutes = (): number => {
+  const configured = parseInt(
+    process.env.CHECKOUT_RESERVATION_TTL_MINUTES || "",
+    10
+  );
+  if (!configured) return MIN_TTL_MINUTES;
+  return Math.min(Math.max(configured, MIN_TTL_MINUTES), MAX_TTL_MINUTES);
+};
+
+export const getReservationExpiry = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + getReservationTtlMinutes() * 60 * 1000);
+
+/**
+ * Total units needed per flavor for a set of priced lines. Recipe lines use
+ * the recipe's items, custom packs use one unit of each chosen flavor per pack.
+ * Regular products are tracked on Product.stock and not reserved.
+ */
+export const flavorQuantitiesForLines = async (
+  tx: Tx,
+  lines: Array<Pick<PricedLine, "recipeId" | "flavorIds" | "quantity">>
+): Promise<Map<string, number>> => {
+  const needed = new Map<string, number>();
+  const add = (flavorId: string, quantity: number) =>
+    needed.set(flavorId, (needed.get(flavorId) || 0) + quantity);
+
+  for (const line of lines) {
+    if (line.recipeId) {
+      const items = await tx.packRecipeItem.findMany({
+        where: { packRecipeId: line.recipeId },
+        select: { flavorId: true, quantity: true },
+      });
+      for (const item of items) {
+        add(item.flavorId, item.quantity * line.quantity);
+      }
+    } else if (line.flavorIds.length > 0) {
+      for (const flavorId of line.flavorIds) {
+        add(flavorId, line.quantity);
+      }
+    }
+  }
+
+  return needed;
+};
+
+/**
+ * Hold flavor stock for a checkout session until it expires. The availability
+ * check and the increment happen in one statement so two checkouts cannot
+ * both take the last units.
+ */
+export const reserveForCheckout = async (
+  tx: Tx,
+  checkoutSessionId: string,
+  lines: PricedLine[],
+  expiresAt: Date
+) => {
+  const needed = await flavorQuantitiesForLines(tx, lines);
+
+  for (const [flavorId, quantity] of needed) {
+    const updated = await tx.$executeRaw`
+      UPDATE "FlavorInventory"
+      SET "reserved" = "reserved" + ${quantity}, "updatedAt" = NOW()
+      WHERE "flavorId" = ${flavorId}
+        AND "onHand" - "reserved" - "safetyStock" >= ${quantity}
+    `;
+
+    if (updated === 0) {
+      const flavor = await tx.flavor.findUnique({
+        where: { id: flavorId },
+        select: { name: true },
+      });
+      throw new CustomError(
+        `Insufficient stock for ${flavor?.name || flavorId}`,
+        409
+      );
+    }
+
+    await tx.inventoryReservation.create({
+      data: { checkoutSessionId, flavorId, quantity, expiresAt },
+    });
+  }
+};
+
+/**
+ * Turn a paid checkout's holds into onHand decrements. Holds that were
+ * already released (e.g. swept just before a late webhook) still take the
+ * stock from onHand, since the goods were sold.
+ */
+export const commitReservations = async (tx: Tx, checkoutSessionId: string) => {
+  const reservations = await tx.inventoryReservation.findMany({
+    where: { checkoutSessionId, status: { in: ["held", "released"] } },
+  });
+
+  for (const reservation of reservations) {
+    // Claim with the status we read so a concurrent release can't also touch it
+    const claimed = await tx.inventoryReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status: "committed" },
+    });
+    if (claimed.count === 0) continue;
+
+    await tx.flavorInventory.update({
+      where: { flavorId: reservation.flavorId },
+      data: {
+        onHand: { decrement: reservation.quantity },
+        ...(reservation.status === "held"
+          ? { reserved: { decrement: reservation.quantity } }
+          : {}),
+      },
+    });
+  }
+
+  return reservations.length;
+};
+
+/**
+ * Take flavor stock straight from onHand for an order that was paid without a
+ * checkout hold (e.g. a subscription renewal)
+ */
+export const consumeStock = async (tx: Tx, lines: PricedLine[]) => {
+  const needed = await flavorQuantitiesForLines(tx, lines);
+
+  for (const [flavorId, quantity] of needed) {
+    await tx.flavorInventory.update({
+      where: { flavorId },
+      data: { onHand: { decrement: quantity } },
+    });
+  }
+};
+
+/**
+ * Take an order item's units out of stock: a pack's recipe or chosen flavors,
+ * or the product itself. Counterpart of restockOrderItem.
+ */
+export const consumeOrderItemStock = async (
+  tx: Tx,
+  item: { recipeId: string | null; flavorIds: string[]; productId: string | null },
+  quantity: number
+) => {
+  if (item.recipeId) {
+    const recipeItems = await tx.packRecipeItem.findMany({
+      where: { packRecipeId: item.recipeId },
+    });
+    for (const recipeItem of recipeItems) {
+      await tx.flavorInventory.update({
+        where: { flavorId: recipeItem.flavorId },
+        data: { onHand: { decrement: recipeItem.quantity * quantity } },
+      });
+    }
+  } else if (item.flavorIds.length > 0) {
+    for (const flavorId of item.flavorIds) {
+      await tx.flavorInventory.update({
+        where: { flavorId },
+        data: { onHand: { decrement: quantity } },
+      });
+    }
+  } else if (item.productId) {
+    await tx.product.update({
+      where: { id: item.productId },
+      data: { stock: { decrement: quantity } },
+    });
+  }
+};
+
+/**
+ * Give back the stock held for a checkout session that will not be paid
+ */
+export const releaseReservations = async (
+  checkoutSessionId: string,
+  reason: string
+) => {
+  return prisma.$transaction(async (tx) => {
+    const reservations = await tx.inventoryReservation.findMany({
+      where: { checkoutSessionId, status: "held" },
+    });
+
+    let released = 0;
+    for (const reservation of reservations) {
+      // Claim the hold first so a concurrent release cannot return it twice
+      const claimed = await tx.inventoryReservation.updateMany({
+        where: { id: reservation.id, status: "held" },
+        data: { status: "released", releasedAt: new Date(), releaseReason: reason },
+      });
+      if (claimed.count === 0) continue;
+      released++;
+
+      await tx.$executeRaw`
+        UPDATE "FlavorInventory"
+        SET "reserved" = GREATEST("reserved" - ${reservation.quantity}, 0), "updatedAt" = NOW()
+        WHERE "flavorId" = ${reservation.flavorId}
+      `;
+    }
+
+    return released;
+  });
+};
+
+/**
+ * Release every hold whose checkout session has expired without payment
+ */
+export const releaseExpiredReservations = async () => {
+  const expired = await prisma.inventoryReservation.findMany({
+    where: { status: "held", expiresAt: { lt: new Date() } },
+    select: { checkoutSessionId: true },
+    distinct: ["checkoutSessionId"],
+  });
+
+  let released = 0;
+  for (const { checkoutSessionId } of expired) {
+    try {
+      released += await releaseReservations(checkoutSessionId, "swept");
+      await prisma.checkoutSession.updateMany({
+        where: { id: checkoutSessionId, status: "open" },
+        data: { status: "expired" },
+      });
+    } catch (error) {
+      console.error(
+        `❌ Failed to release reservations for checkout ${checkoutSessionId}:`,
+        error
+      );
+    }
+  }
+
+  if (released > 0) {
+    console.log(
+      `🧹 Released ${released} expired inventory reservations from ${expired.length} checkouts`
+    );
+  }
+
+  return released;
+};
+
+/**
+ * Rebuild FlavorInventory.reserved from the holds that are still open. Carts
+ * used to add to reserved as well, and those units were never given back, so
+ * run this once after upgrading (and any time the counts look off).
+ */
+export const recomputeReservedStock = async () => {
+  const updated = await prisma.$executeRaw`
+    UPDATE "FlavorInventory" AS inventory
+    SET "reserved" = held.quantity, "updatedAt" = NOW()
+    FROM (
+      SELECT fi."flavorId", COALESCE(SUM(r."quantity"), 0)::int AS quantity
+      FROM "FlavorInventory" fi
+      LEFT JOIN "InventoryReservation" r
+        ON r."flavorId" = fi."flavorId" AND r."status" = 'held'
+      GROUP BY fi."flavorId"
+    ) AS held
+    WHERE inventory."flavorId" = held."flavorId"
+      AND inventory."reserved" <> held.quantity
+  `;
+
+  if (updated > 0) {
+    console.log(`🔧 Recomputed reserved stock for ${updated} flavors`);
+  }
+
+  return updated;
+};
+
+/**
+ * Periodically release abandoned holds so available stock stays accurate
+ */
+export const startReservationSweeper = () => {
+  const timer = setInterval(() => {
+    releaseExpiredReservations().catch((error) =>
+      console.error("❌ Reservation sweeper failed:", error)
+    );
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,225 @@
+import crypto from "crypto";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { generateTotpSecret, totpUri, verifyTotpCode } from "../utils/totp";
+
+const prisma = new PrismaClient();
+
+const TOTP_ISSUER = process.env.MFA_ISSUER || "Licorice4Good";
+const BACKUP_CODE_COUNT = 10;
+
+export class MfaError extends CustomError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+  }
+}
+
+/**
+ * Admin accounts can't use admin routes until two-factor is set up
+ */
+export const isMfaRequired = (user: { role: string }) => user.role === "admin";
+
+// Secrets are encrypted at rest with AES-256-GCM
+const encryptionKey = () =>
+  crypto
+    .createHash("sha256")
+    .update(process.env.MFA_ENCRYPTION_KEY || `${process.env.JWT_SECRET}:mfa`)
+    .digest();
+
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, encrypted] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+};
+
+const normalizeBackupCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+
+const hashBackupCode = (code: string) =>
+  crypto.createHash("sha256").update(normalizeBackupCode(code)).digest("hex");
+
+// xxxx-xxxx, 32 random bits each
+const generateBackupCodes = () =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(4).toString("hex");
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+
+const loadUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new MfaError("User not found", 404);
+  }
+  return user;
+};
+
+/**
+ * Two-factor state for the account settings page
+ */
+export const getMfaStatus = async (userId: string) => {
+  const user = await loadUser(userId);
+  return {
+    enabled: user.mfaEnabled,
+    required: isMfaRequired(user),
+    enabledAt: user.mfaEnabledAt,
+    backupCodesRemaining: user.mfaBackupCodes.length,
+  };
+};
+
+/**
+ * Start enrollment: a new secret and the otpauth URI to show as a QR code.
+ * Nothing changes for sign-in until a code from it is confirmed.
+ */
+export const beginMfaEnrollment = async (userId: string) => {
+  const user = await loadUser(userId);
+  if (user.mfaEnabled) {
+    throw new MfaError("Two-factor authentication is already enabled", 409);
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { mfaSecret: encryptSecret(secret), mfaLastUsedStep: null },
+  });
+
+  return {
+    secret,
+    otpauthUrl: totpUri(secret, user.email || user.id, TOTP_ISSUER),
+  };
+};
+
+/**
+ * Accept a TOTP code once; a code that was already used (or an older one)
+ * is rejected so an intercepted code can't be replayed
+ */
+const acceptTotpCode = async (
+  user: { id: string; mfaSecret: string | null; mfaLastUsedStep: number | null },
+  code: string
+) => {
+  if (!user.mfaSecret) return false;
+  const step = verifyTotpCode(decryptSecret(user.mfaSecret), code);
+  if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+    return false;
+  }
+
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+    },
+    data: { mfaLastUsedStep: step },
+  });
+  return updated.count > 0;
+};
+
+/**
+ * Finish enrollment with the first code from the app. Returns the backup
+ * codes, which are only ever shown this once.
+ */
+export const confirmMfaEnrollment = async (userId: string, code: unknown) => {
+  const user = await loadUser(userId);
+  if (user.mfaEnabled) {
+    throw new MfaError("Two-factor authentication is already enabled", 409);
+  }
+  if (!user.mfaSecret) {
+    throw new MfaError("Start two-factor setup first", 400);
+  }
+  if (!(await acceptTotpCode(user, typeof code === "string" ? code.trim() : ""))) {
+    throw new MfaError("Invalid authentication code", 401);
+  }
+
+  const backupCodes = generateBackupCodes();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaEnabled: true,
+      mfaEnabledAt: new Date(),
+      mfaBackupCodes: backupCodes.map(hashBackupCode),
+    },
+  });
+
+  console.log("🔐 Two-factor authentication enabled:", { userId: user.id });
+  return backupCodes;
+};
+
+/**
+ * Check a second factor for sign-in: a 6-digit TOTP code, or a backup code,
+ * which is used up
+ */
+export const verifySecondFactor = async (userId: string, code: unknown) => {
+  const user = await loadUser(userId);
+  if (!user.mfaEnabled) {
+    throw new MfaError("Two-factor authentication is not enabled", 400);
+  }
+  const value = typeof code === "string" ? code.trim() : "";
+  if (!value) {
+    throw new MfaError("Authentication code is required", 400);
+  }
+
+  if (/^\d{6}$/.test(value)) {
+    if (await acceptTotpCode(user, value)) {
+      return { user, method: "totp" as const };
+    }
+    throw new MfaError("Invalid authentication code", 401);
+  }
+
+  const hash = hashBackupCode(value);
+  if (user.mfaBackupCodes.includes(hash)) {
+    // Guarded so two requests can't spend the same code
+    const updated = await prisma.user.updateMany({
+      where: { id: user.id, mfaBackupCodes: { has: hash } },
+      data: { mfaBackupCodes: user.mfaBackupCodes.filter((stored) => stored !== hash) },
+    });
+    if (updated.count > 0) {
+      console.log("🔑 Backup code used:", {
+        userId: user.id,
+        remaining: user.mfaBackupCodes.length - 1,
+      });
+      return { user, method: "backup_code" as const };
+    }
+  }
+  throw new MfaError("Invalid authentication code", 401);
+};
+
+/**
+ * Replace the backup codes, confirmed with a current code
+ */
+export const regenerateBackupCodes = async (userId: string, code: unknown) => {
+  await verifySecondFactor(userId, code);
+  const backupCodes = generateBackupCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { mfaBackupCodes: backupCodes.map(hashBackupCode) },
+  });
+  return backupCodes;
+};
+
+/**
+ * Turn two-factor off, confirmed with a current code. Not allowed for
+ * accounts that require it.
+ */
+export const disableMfa = async (userId: string, code: unknown) => {
+  const { user } = await verifySecondFactor(userId, code);
+  if (isMfaRequired(user)) {
+    throw new MfaError("Two-factor authentication is required for admin accounts", 403);
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaBackupCodes: [],
+      mfaLastUsedStep: null,
+      mfaEnabledAt: null,
+    },
+  });
+  console.log("🔓 Two-factor authentication disabled:", { userId: user.id });
+};
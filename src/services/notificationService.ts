@@ -0,0 +1,118 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { sendShippingUpdateEmail, ShippingNotificationType } from "../utils/mailer";
+
+const prisma = new PrismaClient();
+
+/**
+ * Which customer email a Shippo tracking status calls for, if any. Label
+ * creation (PRE_TRANSIT) isn't news to the customer yet.
+ */
+export const notificationForTrackingStatus = (
+  status?: string | null,
+  substatus?: string | null
+): ShippingNotificationType | null => {
+  switch ((status || "").toUpperCase()) {
+    case "TRANSIT":
+      return substatus === "out_for_delivery" ? "out_for_delivery" : "shipped";
+    case "DELIVERED":
+      return "delivered";
+    case "FAILURE":
+    case "RETURNED":
+      return "delivery_exception";
+    default:
+      return null;
+  }
+};
+
+/**
+ * Claim a notification for an order. Returns the claim's id, or null when it
+ * was already sent, so concurrent or repeated webhooks can't email the
+ * customer twice.
+ */
+const claimNotification = async (
+  data: Prisma.OrderNotificationUncheckedCreateInput
+): Promise<string | null> => {
+  try {
+    const claim = await prisma.orderNotification.create({ data });
+    return claim.id;
+  } catch (err: any) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      return null;
+    }
+    throw err;
+  }
+};
+
+/**
+ * Email the customers of every order with this tracking number about a
+ * tracking status, at most once per order and notification type. A failed
+ * send gives up its claim and the error is rethrown once the other orders
+ * are done, so the webhook retry sends it.
+ */
+export const notifyTrackingUpdate = async (update: {
+  trackingNumber: string | null;
+  carrier?: string | null;
+  status?: string | null;
+  substatus?: string | null;
+  statusDetails?: string | null;
+  eventKey?: string | null;
+}) => {
+  const type = notificationForTrackingStatus(update.status, update.substatus);
+  if (!type || !update.trackingNumber) return [];
+
+  const orders = await prisma.order.findMany({
+    where: { trackingNumber: update.trackingNumber },
+    select: {
+      id: true,
+      guestEmail: true,
+      shippingAddress: true,
+      shippingCarrier: true,
+      trackingNumber: true,
+      trackingUrl: true,
+      user: { select: { email: true, name: true } },
+    },
+  });
+
+  const sent: string[] = [];
+  let failure: unknown = null;
+  for (const order of orders) {
+    const address = order.shippingAddress as any;
+    const email = order.user?.email || order.guestEmail || address?.email;
+    if (!email) continue;
+
+    const claimId = await claimNotification({
+      orderId: order.id,
+      type,
+      recipient: email,
+      trackingEventKey: update.eventKey || null,
+    });
+    if (!claimId) continue;
+
+    try {
+      await sendShippingUpdateEmail(email, type, {
+        orderId: order.id,
+        customerName: address?.name || order.user?.name || "Customer",
+        trackingNumber: order.trackingNumber,
+        trackingUrl: order.trackingUrl,
+        carrier: order.shippingCarrier || update.carrier,
+        statusDetails: type === "delivery_exception" ? update.statusDetails : null,
+      });
+      sent.push(order.id);
+    } catch (err) {
+      await prisma.orderNotification.delete({ where: { id: claimId } });
+      console.error(`❌ Failed to send ${type} notification:`, { orderId: order.id, err });
+      failure = failure || err;
+    }
+  }
+
+  if (sent.length > 0) {
+    console.log(`📧 Sent ${type} notification for ${sent.length} order(s)`, {
+      trackingNumber: update.trackingNumber,
+    });
+  }
+  if (failure) {
+    throw failure;
+  }
+
+  return sent;
+};
@@ -0,0 +1,414 @@
+import crypto from "crypto";
+import axios from "axios";
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { revokeAllSessions } from "./sessionService";
+
+const prisma = new PrismaClient();
+
+export const OAUTH_PROVIDERS = ["google", "apple"] as const;
+export type OAuthProviderName = (typeof OAUTH_PROVIDERS)[number];
+
+export class OAuthError extends CustomError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+  }
+}
+
+interface ProviderConfig {
+  name: OAuthProviderName;
+  issuer: string;
+  clientId: string;
+  clientSecret: () => string;
+  scope: string;
+  // Apple posts the callback when name/email are requested
+  responseMode?: "form_post";
+  pkce: boolean;
+  // Other `iss` values the provider puts in its ID tokens
+  extraIssuers?: string[];
+}
+
+/**
+ * Apple's client secret is a short-lived ES256 JWT signed with the team's
+ * key. APPLE_CLIENT_SECRET overrides it, e.g. for a mock OIDC server.
+ */
+const appleClientSecret = () => {
+  if (process.env.APPLE_CLIENT_SECRET) return process.env.APPLE_CLIENT_SECRET;
+  const { APPLE_TEAM_ID, APPLE_KEY_ID, APPLE_PRIVATE_KEY, APPLE_CLIENT_ID } = process.env;
+  if (!APPLE_TEAM_ID || !APPLE_KEY_ID || !APPLE_PRIVATE_KEY) {
+    throw new OAuthError("Apple sign-in is not configured", 503);
+  }
+  return jwt.sign({}, APPLE_PRIVATE_KEY.replace(/\\n/g, "\n"), {
+    algorithm: "ES256",
+    keyid: APPLE_KEY_ID,
+    issuer: APPLE_TEAM_ID,
+    subject: APPLE_CLIENT_ID,
+    audience: "https://appleid.apple.com",
+    expiresIn: "5m",
+  });
+};
+
+// Read at call time so dotenv has loaded; the issuers can point at a mock server
+const providerConfig = (name: OAuthProviderName): ProviderConfig | null => {
+  if (name === "google") {
+    if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) return null;
+    return {
+      name,
+      issuer: process.env.GOOGLE_OIDC_ISSUER || "https://accounts.google.com",
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: () => process.env.GOOGLE_CLIENT_SECRET!,
+      scope: "openid email profile",
+      pkce: true,
+      extraIssuers: process.env.GOOGLE_OIDC_ISSUER ? [] : ["accounts.google.com"],
+    };
+  }
+  if (!process.env.APPLE_CLIENT_ID) return null;
+  return {
+    name,
+    issuer: process.env.APPLE_OIDC_ISSUER || "https://appleid.apple.com",
+    clientId: process.env.APPLE_CLIENT_ID,
+    clientSecret: appleClientSecret,
+    scope: "openid name email",
+    responseMode: "form_post",
+    pkce: false,
+  };
+};
+
+const getProvider = (name: string) => {
+  if (!OAUTH_PROVIDERS.includes(name as OAuthProviderName)) {
+    throw new OAuthError(`Unknown sign-in provider: ${name}`, 404);
+  }
+  const config = providerConfig(name as OAuthProviderName);
+  if (!config) {
+    throw new OAuthError(`${name} sign-in is not configured`, 503);
+  }
+  return config;
+};
+
+export const isProviderConfigured = (name: OAuthProviderName) => !!providerConfig(name);
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const discoveryCache = new Map<string, { doc: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+const discover = async (issuer: string) => {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.doc;
+
+  const { data } = await axios.get<DiscoveryDocument>(
+    `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`,
+    { timeout: 10000 }
+  );
+  discoveryCache.set(issuer, { doc: data, fetchedAt: Date.now() });
+  return data;
+};
+
+/**
+ * Signing key for an ID token. Keys are cached, and fetched again when a
+ * token names a key we haven't seen (the provider rotated).
+ */
+const signingKey = async (jwksUri: string, kid?: string) => {
+  const find = (keys: crypto.JsonWebKey[]) =>
+    keys.find((key) => !kid || key.kid === kid);
+
+  const cached = jwksCache.get(jwksUri);
+  let jwk =
+    cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS ? find(cached.keys) : undefined;
+  if (!jwk) {
+    const { data } = await axios.get<{ keys: crypto.JsonWebKey[] }>(jwksUri, { timeout: 10000 });
+    jwksCache.set(jwksUri, { keys: data.keys, fetchedAt: Date.now() });
+    jwk = find(data.keys);
+  }
+  if (!jwk) {
+    throw new OAuthError("ID token was signed with an unknown key", 401);
+  }
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+};
+
+/**
+ * What the browser carries between the redirect to the provider and the
+ * callback, in a short-lived signed cookie
+ */
+interface OAuthState {
+  provider: OAuthProviderName;
+  state: string;
+  nonce: string;
+  codeVerifier?: string;
+  returnTo: string;
+}
+
+export const OAUTH_STATE_COOKIE = "oauth_state";
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+const stateSecret = () => `${process.env.JWT_SECRET}:oauth-state`;
+
+const randomToken = () => crypto.randomBytes(32).toString("base64url");
+
+// Only paths on the storefront. Browsers read "//host" and "/\host" as
+// another site, and drop tabs and newlines that could hide either.
+const safeReturnTo = (returnTo?: unknown) =>
+  typeof returnTo === "string" &&
+  /^\/(?![/\\])/.test(returnTo) &&
+  !/[\u0000-\u001f\u007f]/.test(returnTo)
+    ? returnTo
+    : "/";
+
+/**
+ * Storefront URL sign-in returns the browser to. Required, since a return
+ * path on its own would be resolved against the API host.
+ */
+export const oauthClientUrl = () => {
+  const clientUrl = process.env.CLIENT_URL;
+  if (!clientUrl) {
+    throw new OAuthError("Social sign-in requires CLIENT_URL to be configured", 503);
+  }
+  return clientUrl.replace(/\/+$/, "");
+};
+
+/**
+ * Provider URL to send the browser to, and the signed state cookie value
+ */
+export const buildAuthorizationRequest = async (
+  providerName: string,
+  params: { redirectUri: string; returnTo?: unknown }
+) => {
+  const provider = getProvider(providerName);
+  // Fail before sending the browser off if it can't be sent back
+  oauthClientUrl();
+  const discovery = await discover(provider.issuer);
+
+  const pending: OAuthState = {
+    provider: provider.name,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: provider.pkce ? randomToken() : undefined,
+    returnTo: safeReturnTo(params.returnTo),
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("scope", provider.scope);
+  url.searchParams.set("state", pending.state);
+  url.searchParams.set("nonce", pending.nonce);
+  if (provider.responseMode) {
+    url.searchParams.set("response_mode", provider.responseMode);
+  }
+  if (pending.codeVerifier) {
+    url.searchParams.set(
+      "code_challenge",
+      crypto.createHash("sha256").update(pending.codeVerifier).digest("base64url")
+    );
+    url.searchParams.set("code_challenge_method", "S256");
+  }
+
+  const stateCookie = jwt.sign(pending, stateSecret(), {
+    expiresIn: Math.floor(OAUTH_STATE_TTL_MS / 1000),
+  });
+  return { url: url.toString(), stateCookie };
+};
+
+export interface OAuthProfile {
+  provider: OAuthProviderName;
+  sub: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  image: string | null;
+}
+
+/**
+ * Check the callback against the state cookie, exchange the code and verify
+ * the ID token (signature, issuer, audience, expiry and nonce)
+ */
+export const completeAuthorization = async (
+  providerName: string,
+  params: {
+    code?: unknown;
+    state?: unknown;
+    error?: unknown;
+    user?: unknown; // Apple posts the name on the first sign-in only
+    stateCookie?: string;
+    redirectUri: string;
+  }
+): Promise<{ profile: OAuthProfile; returnTo: string }> => {
+  const provider = getProvider(providerName);
+
+  if (params.error) {
+    throw new OAuthError(`Sign-in was not completed: ${String(params.error)}`, 400);
+  }
+
+  let pending: OAuthState;
+  try {
+    pending = jwt.verify(params.stateCookie || "", stateSecret()) as OAuthState;
+  } catch {
+    throw new OAuthError("Sign-in session expired, please try again", 400);
+  }
+  if (
+    pending.provider !== provider.name ||
+    typeof params.state !== "string" ||
+    params.state !== pending.state
+  ) {
+    throw new OAuthError("Sign-in state did not match, please try again", 400);
+  }
+  if (typeof params.code !== "string" || !params.code) {
+    throw new OAuthError("Authorization code is missing", 400);
+  }
+
+  const discovery = await discover(provider.issuer);
+  const form = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: provider.clientId,
+    client_secret: provider.clientSecret(),
+  });
+  if (pending.codeVerifier) {
+    form.set("code_verifier", pending.codeVerifier);
+  }
+
+  let idToken: string | undefined;
+  try {
+    const { data } = await axios.post<{ id_token?: string }>(
+      discovery.token_endpoint,
+      form.toString(),
+      {
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        timeout: 10000,
+      }
+    );
+    idToken = data.id_token;
+  } catch (error: any) {
+    console.error(`❌ ${provider.name} token exchange failed:`, error.response?.data || error.message);
+    throw new OAuthError("Could not complete sign-in with the provider", 502);
+  }
+  if (!idToken) {
+    throw new OAuthError("Provider did not return an ID token", 502);
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new OAuthError("Provider returned a malformed ID token", 502);
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    const key = await signingKey(discovery.jwks_uri, decoded.header.kid);
+    claims = jwt.verify(idToken, key, {
+      algorithms: ["RS256", "ES256"],
+      issuer: [discovery.issuer, ...(provider.extraIssuers || [])] as [string, ...string[]],
+      audience: provider.clientId,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    if (error instanceof OAuthError) throw error;
+    throw new OAuthError(`ID token rejected: ${(error as Error).message}`, 401);
+  }
+  if (claims.nonce !== pending.nonce) {
+    throw new OAuthError("ID token nonce did not match", 401);
+  }
+  if (!claims.sub) {
+    throw new OAuthError("ID token has no subject", 401);
+  }
+
+  let name: string | null = claims.name || null;
+  if (!name && typeof params.user === "string") {
+    try {
+      const user = JSON.parse(params.user);
+      name = [user?.name?.firstName, user?.name?.lastName].filter(Boolean).join(" ") || null;
+    } catch {
+      // Name is optional
+    }
+  }
+
+  return {
+    profile: {
+      provider: provider.name,
+      sub: claims.sub,
+      email: typeof claims.email === "string" ? claims.email.toLowerCase() : null,
+      // Apple sends "true"/"false" strings
+      emailVerified: claims.email_verified === true || claims.email_verified === "true",
+      name,
+      image: typeof claims.picture === "string" ? claims.picture : null,
+    },
+    returnTo: pending.returnTo,
+  };
+};
+
+/**
+ * The account for a provider identity: the one already linked to it, else an
+ * account with the same email (only when the provider verified that email),
+ * else a new account. Linked and new accounts are marked verified.
+ *
+ * An unverified account's password was never proven to belong to the email's
+ * owner (someone may have registered it first), so linking drops the password
+ * and signs that account out everywhere.
+ */
+export const findOrCreateOAuthUser = async (profile: OAuthProfile) => {
+  const providerId = `${profile.provider}:${profile.sub}`;
+
+  const linked = await prisma.user.findUnique({ where: { providerId } });
+  if (linked) {
+    if (!linked.image && profile.image) {
+      return prisma.user.update({ where: { id: linked.id }, data: { image: profile.image } });
+    }
+    return linked;
+  }
+
+  const existing = profile.email
+    ? await prisma.user.findUnique({ where: { email: profile.email } })
+    : null;
+
+  if (existing) {
+    if (!profile.emailVerified) {
+      throw new OAuthError(
+        "An account with this email already exists. Sign in with your password instead.",
+        409
+      );
+    }
+    const user = await prisma.user.update({
+      where: { id: existing.id },
+      data: {
+        provider: profile.provider,
+        providerId,
+        isVerified: true,
+        name: existing.name || profile.name,
+        image: existing.image || profile.image,
+        ...(!existing.isVerified && { password: null }),
+      },
+    });
+    if (!existing.isVerified) {
+      await revokeAllSessions(existing.id, "oauth_link");
+    }
+    console.log("🔗 Linked sign-in provider to account:", {
+      userId: user.id,
+      provider: profile.provider,
+    });
+    return user;
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      name: profile.name,
+      email: profile.email,
+      image: profile.image,
+      role: "user",
+      provider: profile.provider,
+      providerId,
+      isVerified: true,
+    },
+  });
+  console.log("👤 Account created from sign-in provider:", {
+    userId: user.id,
+    provider: profile.provider,
+  });
+  return user;
+};
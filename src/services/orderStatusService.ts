@@ -0,0 +1,268 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { enqueueFulfillment } from "./fulfillmentService";
+import { reholdGiftCardCredit, releaseGiftCardCredit } from "./giftCardService";
+import { releaseRedemption, restoreRedemption } from "./promotionService";
+
+const prisma = new PrismaClient();
+
+export type OrderStatusField = "status" | "paymentStatus" | "shippingStatus";
+export type OrderEventSource = "admin" | "webhook" | "system" | "customer";
+
+export interface OrderActor {
+  source: OrderEventSource;
+  actorId?: string | null; // User who made the change (admin/customer)
+  actorLabel?: string | null; // e.g. "stripe", "shippo"
+  note?: string | null;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const STATUS_FIELDS: OrderStatusField[] = [
+  "status",
+  "paymentStatus",
+  "shippingStatus",
+];
+
+// Allowed transitions per field. Terminal states map to an empty list.
+const TRANSITIONS: Record<OrderStatusField, Record<string, string[]>> = {
+  status: {
+    pending: ["confirmed", "cancelled"],
+    confirmed: ["shipped", "delivered", "cancelled"],
+    shipped: ["delivered"],
+    delivered: [],
+    cancelled: [],
+  },
+  paymentStatus: {
+    pending: ["paid", "failed"],
+    failed: ["pending", "paid"],
+    paid: ["partially_refunded", "refunded"],
+    partially_refunded: ["refunded"],
+    refunded: [],
+  },
+  shippingStatus: {
+    pending: ["label_created", "in_transit", "delivered", "failure"],
+    label_created: ["in_transit", "delivered", "returned", "failure"],
+    in_transit: ["delivered", "returned", "failure"],
+    failure: ["label_created", "in_transit", "delivered", "returned"],
+    delivered: ["returned"],
+    returned: [],
+  },
+};
+
+// Shipping progress moves the order itself along
+const ORDER_STATUS_FOR_SHIPPING: Record<string, string> = {
+  in_transit: "shipped",
+  delivered: "delivered",
+};
+
+export const ORDER_STATUSES = Object.keys(TRANSITIONS.status);
+export const PAYMENT_STATUSES = Object.keys(TRANSITIONS.paymentStatus);
+export const SHIPPING_STATUSES = Object.keys(TRANSITIONS.shippingStatus);
+
+export class InvalidTransitionError extends CustomError {
+  constructor(field: OrderStatusField, from: string | null, to: string) {
+    super(`Cannot change ${field} from ${from ?? "none"} to ${to}`, 409);
+  }
+}
+
+/**
+ * Whether a field may move from one value to another. Values written before
+ * the state machine existed aren't in the table, so any valid target is
+ * accepted from them.
+ */
+export const canTransition = (
+  field: OrderStatusField,
+  from: string | null | undefined,
+  to: string
+): boolean => {
+  const table = TRANSITIONS[field];
+  if (!(to in table)) return false;
+  if (from === to) return true;
+  if (!from || !(from in table)) return true;
+  return table[from].includes(to);
+};
+
+/**
+ * Map Shippo transaction / tracking statuses onto our shipping states.
+ * Returns null for statuses that don't change anything (e.g. QUEUED, UNKNOWN).
+ */
+export const normalizeShippoStatus = (status?: string | null): string | null => {
+  switch ((status || "").toUpperCase()) {
+    case "SUCCESS":
+    case "PRE_TRANSIT":
+      return "label_created";
+    case "TRANSIT":
+      return "in_transit";
+    case "DELIVERED":
+      return "delivered";
+    case "RETURNED":
+      return "returned";
+    case "FAILURE":
+    case "ERROR":
+      return "failure";
+    default:
+      return null;
+  }
+};
+
+/**
+ * Record the initial status values of a newly created order
+ */
+export const recordOrderCreated = async (
+  order: { id: string; status: string; paymentStatus: string; shippingStatus: string | null },
+  actor: OrderActor,
+  tx: Tx = prisma
+) => {
+  await tx.orderEvent.createMany({
+    data: STATUS_FIELDS.filter((field) => order[field]).map((field) => ({
+      orderId: order.id,
+      field,
+      fromValue: null,
+      toValue: order[field] as string,
+      source: actor.source,
+      actorId: actor.actorId || null,
+      actorLabel: actor.actorLabel || null,
+      note: actor.note || "Order created",
+    })),
+  });
+};
+
+/**
+ * Change an order's status fields through the state machine and record each
+ * change in the order's history.
+ *
+ * With `strict` (the default) a disallowed transition throws
+ * InvalidTransitionError. Webhooks pass `strict: false` so an out-of-order
+ * event is skipped with a warning instead of failing the whole delivery.
+ * `data` carries any other order fields to write in the same update.
+ */
+export const transitionOrder = async (
+  orderId: string,
+  changes: Partial<Record<OrderStatusField, string | null | undefined>>,
+  actor: OrderActor,
+  options: {
+    strict?: boolean;
+    data?: Prisma.OrderUpdateManyMutationInput;
+    tx?: Tx;
+  } = {}
+) => {
+  const strict = options.strict !== false;
+
+  const run = async (tx: Tx) => {
+    const order = await tx.order.findUnique({ where: { id: orderId } });
+    if (!order) {
+      throw new CustomError("Order not found", 404);
+    }
+
+    const requested = { ...changes };
+    const nextShipping = requested.shippingStatus;
+    if (nextShipping && !requested.status && ORDER_STATUS_FOR_SHIPPING[nextShipping]) {
+      const derived = ORDER_STATUS_FOR_SHIPPING[nextShipping];
+      if (canTransition("status", order.status, derived)) {
+        requested.status = derived;
+      }
+    }
+
+    const applied: Partial<Record<OrderStatusField, string>> = {};
+    for (const field of STATUS_FIELDS) {
+      const to = requested[field];
+      const from = order[field];
+      if (!to || to === from) continue;
+
+      if (!canTransition(field, from, to)) {
+        if (strict) {
+          throw new InvalidTransitionError(field, from, to);
+        }
+        console.warn("⚠️ Skipping disallowed order transition:", {
+          orderId,
+          field,
+          from,
+          to,
+          source: actor.source,
+        });
+        continue;
+      }
+      applied[field] = to;
+    }
+
+    const appliedFields = Object.keys(applied) as OrderStatusField[];
+    if (appliedFields.length === 0 && !options.data) {
+      return order;
+    }
+
+    // Only write if the fields still hold the values that were validated, so
+    // two concurrent changes can't both pass the check
+    const guard: Prisma.OrderWhereInput = { id: orderId };
+    if (applied.status) guard.status = order.status;
+    if (applied.paymentStatus) guard.paymentStatus = order.paymentStatus;
+    if (applied.shippingStatus) guard.shippingStatus = order.shippingStatus;
+
+    const result = await tx.order.updateMany({
+      where: guard,
+      data: { ...options.data, ...applied },
+    });
+    if (result.count === 0) {
+      throw new CustomError("Order was changed by another request, try again", 409);
+    }
+
+    // Paid orders get their shipping label bought by the fulfillment worker
+    if (applied.paymentStatus === "paid") {
+      await enqueueFulfillment(orderId, tx);
+    }
+
+    // Gift card credit and the promotion use held by an order go back when it
+    // fails or is cancelled before payment, and are taken again on a retry
+    const paidFor = order.paymentStatus !== "pending" && order.paymentStatus !== "failed";
+    const cancelledUnpaid = applied.status === "cancelled" && !paidFor;
+    if (cancelledUnpaid || applied.paymentStatus === "failed") {
+      const reason = cancelledUnpaid ? "Order cancelled before payment" : "Payment failed";
+      if (order.giftCardAmount > 0) {
+        await releaseGiftCardCredit(tx, { orderId }, reason);
+      }
+      await releaseRedemption(tx, orderId);
+    } else if (order.paymentStatus === "failed" && applied.paymentStatus) {
+      // A retry must still be covered; a late success has already been charged
+      const retried = applied.paymentStatus === "pending";
+      const note = retried ? "Payment retried" : "Paid after payment failed";
+      await reholdGiftCardCredit(tx, order, note).catch((error) => {
+        if (retried) throw error;
+        console.warn("⚠️ Gift card credit could not be taken again:", {
+          orderId,
+          giftCardId: order.giftCardId,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+      await restoreRedemption(tx, order, { enforceLimits: retried });
+    }
+
+    if (appliedFields.length > 0) {
+      await tx.orderEvent.createMany({
+        data: appliedFields.map((field) => ({
+          orderId,
+          field,
+          fromValue: order[field],
+          toValue: applied[field] as string,
+          source: actor.source,
+          actorId: actor.actorId || null,
+          actorLabel: actor.actorLabel || null,
+          note: actor.note || null,
+        })),
+      });
+    }
+
+    return tx.order.findUniqueOrThrow({ where: { id: orderId } });
+  };
+
+  return options.tx ? run(options.tx) : prisma.$transaction(run);
+};
+
+/**
+ * Status history for an order, oldest first
+ */
+export const getOrderHistory = async (orderId: string) => {
+  return prisma.orderEvent.findMany({
+    where: { orderId },
+    orderBy: { createdAt: "asc" },
+  });
+};
@@ -0,0 +1,261 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { ShipmentData } from "./shippoService";
+
+const prisma = new PrismaClient();
+
+type ShippoParcel = ShipmentData["parcels"][number];
+
+export interface PackageSize {
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  weightOz: number;
+}
+
+export interface BoxSpec extends PackageSize {
+  id?: string;
+  name: string;
+  maxWeightOz: number;
+}
+
+export interface PackingLine {
+  productId?: string | null;
+  recipeId?: string | null;
+  flavorIds?: string[];
+  quantity: number;
+}
+
+export interface PackedParcel {
+  box: string;
+  itemCount: number;
+  parcel: ShippoParcel;
+}
+
+// A packed licorice pack when the product or recipe has no size set
+const DEFAULT_PACK_SIZE: PackageSize = { lengthIn: 6, widthIn: 4, heightIn: 2, weightOz: 8 };
+const CUSTOM_PACK_FLAVOR_WEIGHT_OZ = 4;
+
+// Used until boxes are configured in the admin
+export const DEFAULT_BOXES: BoxSpec[] = [
+  { name: "Small", lengthIn: 6, widthIn: 4, heightIn: 2, weightOz: 1, maxWeightOz: 80 },
+  { name: "Medium", lengthIn: 10, widthIn: 8, heightIn: 4, weightOz: 3, maxWeightOz: 320 },
+  { name: "Large", lengthIn: 12, widthIn: 12, heightIn: 8, weightOz: 6, maxWeightOz: 640 },
+];
+
+// Share of a box's volume items can fill once it holds more than one item
+const BOX_FILL_RATIO = 0.8;
+
+interface Unit {
+  dims: number[]; // sorted largest first
+  volume: number;
+  weightOz: number;
+}
+
+interface OpenParcel {
+  box: BoxSpec | null;
+  units: Unit[];
+  volume: number;
+  weightOz: number;
+}
+
+const sortedDims = (size: { lengthIn: number; widthIn: number; heightIn: number }) =>
+  [size.lengthIn, size.widthIn, size.heightIn].sort((a, b) => b - a);
+
+const boxVolume = (box: BoxSpec) => box.lengthIn * box.widthIn * box.heightIn;
+
+// Items are treated as rigid boxes that may be rotated
+const unitFitsBox = (unit: Unit, box: BoxSpec) => {
+  const boxDims = sortedDims(box);
+  return unit.dims.every((dim, i) => dim <= boxDims[i]);
+};
+
+const contentsFitBox = (units: Unit[], volume: number, weightOz: number, box: BoxSpec) =>
+  units.every((unit) => unitFitsBox(unit, box)) &&
+  (units.length <= 1 || volume <= boxVolume(box) * BOX_FILL_RATIO) &&
+  weightOz + box.weightOz <= box.maxWeightOz;
+
+const toParcel = (parcel: OpenParcel): PackedParcel => {
+  const size = parcel.box
+    ? sortedDims(parcel.box)
+    : // Too big for every box: ships in its own packaging
+      parcel.units[0].dims;
+  const weightLb = (parcel.weightOz + (parcel.box?.weightOz ?? 0)) / 16;
+
+  return {
+    box: parcel.box?.name ?? "Own packaging",
+    itemCount: parcel.units.length,
+    parcel: {
+      length: String(size[0]),
+      width: String(size[1]),
+      height: String(size[2]),
+      weight: String(Math.max(Math.ceil(weightLb * 100) / 100, 0.1)),
+      massUnit: "lb",
+      distanceUnit: "in",
+    },
+  };
+};
+
+/**
+ * Pack item sizes into as few boxes as possible (first-fit decreasing), then
+ * move each parcel into the smallest box its contents fit
+ */
+export const packItems = (
+  items: Array<PackageSize & { quantity: number }>,
+  boxes: BoxSpec[]
+): PackedParcel[] => {
+  const bySize = [...boxes].sort((a, b) => boxVolume(a) - boxVolume(b));
+
+  const units: Unit[] = items
+    .flatMap((item) =>
+      Array.from({ length: Math.max(item.quantity, 0) }, () => {
+        const dims = sortedDims(item);
+        return { dims, volume: dims[0] * dims[1] * dims[2], weightOz: item.weightOz };
+      })
+    )
+    .sort((a, b) => b.volume - a.volume);
+
+  const parcels: OpenParcel[] = [];
+  for (const unit of units) {
+    const open = parcels.find(
+      (parcel) =>
+        parcel.box &&
+        contentsFitBox(
+          [...parcel.units, unit],
+          parcel.volume + unit.volume,
+          parcel.weightOz + unit.weightOz,
+          parcel.box
+        )
+    );
+
+    if (open) {
+      open.units.push(unit);
+      open.volume += unit.volume;
+      open.weightOz += unit.weightOz;
+      continue;
+    }
+
+    // Open the largest box that takes the item so later items can share it
+    const box =
+      [...bySize].reverse().find((candidate) =>
+        contentsFitBox([unit], unit.volume, unit.weightOz, candidate)
+      ) ?? null;
+    parcels.push({ box, units: [unit], volume: unit.volume, weightOz: unit.weightOz });
+  }
+
+  for (const parcel of parcels) {
+    if (!parcel.box) continue;
+    parcel.box =
+      bySize.find((box) =>
+        contentsFitBox(parcel.units, parcel.volume, parcel.weightOz, box)
+      ) ?? parcel.box;
+  }
+
+  return parcels.map(toParcel);
+};
+
+/**
+ * Active boxes from the catalog, or the defaults when none are configured
+ */
+export const getBoxCatalog = async (): Promise<BoxSpec[]> => {
+  const boxes = await prisma.shippingBox.findMany({ where: { isActive: true } });
+  return boxes.length > 0 ? boxes : DEFAULT_BOXES;
+};
+
+const sizeOrDefault = (record?: Partial<Record<keyof PackageSize, number | null>> | null) => ({
+  lengthIn: record?.lengthIn || DEFAULT_PACK_SIZE.lengthIn,
+  widthIn: record?.widthIn || DEFAULT_PACK_SIZE.widthIn,
+  heightIn: record?.heightIn || DEFAULT_PACK_SIZE.heightIn,
+  weightOz: record?.weightOz || DEFAULT_PACK_SIZE.weightOz,
+});
+
+/**
+ * Size and weight of each line's packs. A pack recipe's size wins over the
+ * product's; custom packs are weighed by their flavors.
+ */
+export const resolveLineSizes = async (lines: PackingLine[]) => {
+  const productIds = [...new Set(lines.map((l) => l.productId).filter(Boolean))] as string[];
+  const recipeIds = [...new Set(lines.map((l) => l.recipeId).filter(Boolean))] as string[];
+
+  const sizeSelect = { id: true, lengthIn: true, widthIn: true, heightIn: true, weightOz: true };
+  const [products, recipes] = await Promise.all([
+    productIds.length
+      ? prisma.product.findMany({ where: { id: { in: productIds } }, select: sizeSelect })
+      : [],
+    recipeIds.length
+      ? prisma.packRecipe.findMany({ where: { id: { in: recipeIds } }, select: sizeSelect })
+      : [],
+  ]);
+
+  return lines.map((line) => {
+    const recipe = recipes.find((r) => r.id === line.recipeId);
+    const product = products.find((p) => p.id === line.productId);
+    const size = sizeOrDefault(recipe?.weightOz ? recipe : product);
+
+    if (!recipe && !product?.weightOz && line.flavorIds?.length) {
+      size.weightOz = line.flavorIds.length * CUSTOM_PACK_FLAVOR_WEIGHT_OZ;
+    }
+
+    return { ...size, quantity: Number(line.quantity) || 0 };
+  });
+};
+
+/**
+ * Pack order or cart lines into parcels using the box catalog
+ */
+export const packLines = async (lines: PackingLine[]) => {
+  const [sizes, boxes] = await Promise.all([resolveLineSizes(lines), getBoxCatalog()]);
+  const packed = packItems(sizes, boxes);
+  if (packed.length === 0) {
+    throw new Error("Nothing to pack");
+  }
+  return packed;
+};
+
+/**
+ * Shippo parcels for what is left to ship on an order (refunded units excluded)
+ */
+export const packOrder = async (orderId: string) => {
+  const items = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: {
+      productId: true,
+      recipeId: true,
+      flavorIds: true,
+      quantity: true,
+      refundedQuantity: true,
+    },
+  });
+
+  const packed = await packLines(
+    items.map((item) => ({
+      productId: item.productId,
+      recipeId: item.recipeId,
+      flavorIds: item.flavorIds,
+      quantity: item.quantity - item.refundedQuantity,
+    }))
+  );
+  return packed.map(({ parcel }) => parcel);
+};
+
+/**
+ * Read optional size fields (weightOz, lengthIn, widthIn, heightIn) from a
+ * request body. Empty values clear a field.
+ */
+export const parsePackageInput = (body: any) => {
+  const data: Partial<Record<keyof PackageSize, number | null>> = {};
+  for (const field of ["weightOz", "lengthIn", "widthIn", "heightIn"] as const) {
+    const value = body?.[field];
+    if (value === undefined) continue;
+    if (value === null || value === "") {
+      data[field] = null;
+      continue;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new CustomError(`${field} must be a positive number`, 400);
+    }
+    data[field] = parsed;
+  }
+  return data;
+};
@@ -0,0 +1,171 @@
+import Stripe from "stripe";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+export interface PaymentIds {
+  stripeSessionId?: string | null;
+  paymentIntentId?: string | null;
+  chargeId?: string | null;
+}
+
+const idOf = (value: string | { id: string } | null | undefined) =>
+  !value ? null : typeof value === "string" ? value : value.id;
+
+/**
+ * Payment identifiers on a Checkout Session. The charge is only known when
+ * the payment intent was expanded.
+ */
+export const paymentIdsFromSession = (session: Stripe.Checkout.Session): PaymentIds => {
+  const paymentIntent = session.payment_intent;
+  return {
+    stripeSessionId: session.id,
+    paymentIntentId: idOf(paymentIntent),
+    chargeId:
+      paymentIntent && typeof paymentIntent !== "string"
+        ? idOf(paymentIntent.latest_charge)
+        : null,
+  };
+};
+
+/**
+ * Payment identifiers on a paid invoice (subscription orders)
+ */
+export const paymentIdsFromInvoice = (invoice: Stripe.Invoice): PaymentIds => ({
+  paymentIntentId: idOf((invoice as any).payment_intent),
+  chargeId: idOf((invoice as any).charge),
+});
+
+/**
+ * Only the identifiers that are known, so an update never clears one
+ */
+export const definedPaymentIds = (ids: PaymentIds) =>
+  Object.fromEntries(
+    Object.entries(ids).filter(([, value]) => !!value)
+  ) as PaymentIds;
+
+/**
+ * Find the order a Stripe charge or payment intent paid for. Orders created
+ * before these ids were stored are found through their checkout record.
+ */
+export const findOrderIdByPayment = async (ids: PaymentIds) => {
+  const or = [
+    ids.chargeId ? { chargeId: ids.chargeId } : null,
+    ids.paymentIntentId ? { paymentIntentId: ids.paymentIntentId } : null,
+    ids.stripeSessionId ? { stripeSessionId: ids.stripeSessionId } : null,
+  ].filter((clause) => clause !== null);
+  if (or.length === 0) return null;
+
+  const order = await prisma.order.findFirst({
+    where: { OR: or },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  if (order) return order.id;
+
+  const checkoutOr = [
+    ids.paymentIntentId ? { paymentIntentId: ids.paymentIntentId } : null,
+    ids.stripeSessionId ? { stripeSessionId: ids.stripeSessionId } : null,
+  ].filter((clause) => clause !== null);
+  if (checkoutOr.length === 0) return null;
+
+  const checkout = await prisma.checkoutSession.findFirst({
+    where: { orderId: { not: null }, OR: checkoutOr },
+    select: { orderId: true },
+  });
+  return checkout?.orderId || null;
+};
+
+/**
+ * Card, receipt and dispute details for an order's payment (admin view)
+ */
+export const getOrderPaymentDetails = async (stripe: Stripe, orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      total: true,
+      paymentStatus: true,
+      stripeSessionId: true,
+      paymentIntentId: true,
+      chargeId: true,
+      stripeInvoiceId: true,
+      checkoutSession: { select: { stripeSessionId: true, paymentIntentId: true } },
+    },
+  });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+
+  const ids: PaymentIds = {
+    stripeSessionId: order.stripeSessionId || order.checkoutSession?.stripeSessionId,
+    paymentIntentId: order.paymentIntentId || order.checkoutSession?.paymentIntentId,
+    chargeId: order.chargeId,
+  };
+
+  if (!ids.paymentIntentId && order.stripeInvoiceId) {
+    const invoice = await stripe.invoices.retrieve(order.stripeInvoiceId);
+    Object.assign(ids, definedPaymentIds(paymentIdsFromInvoice(invoice)));
+  }
+
+  if (!ids.chargeId && ids.paymentIntentId) {
+    const paymentIntent = await stripe.paymentIntents.retrieve(ids.paymentIntentId);
+    ids.chargeId = idOf(paymentIntent.latest_charge);
+  }
+
+  // Fill in whatever had to be looked up so next time it's direct
+  if (
+    ids.stripeSessionId !== order.stripeSessionId ||
+    ids.paymentIntentId !== order.paymentIntentId ||
+    ids.chargeId !== order.chargeId
+  ) {
+    await prisma.order.update({ where: { id: order.id }, data: definedPaymentIds(ids) });
+  }
+
+  if (!ids.chargeId) {
+    return { orderId: order.id, paymentStatus: order.paymentStatus, ...ids, charge: null };
+  }
+
+  const [charge, disputes] = await Promise.all([
+    stripe.charges.retrieve(ids.chargeId),
+    stripe.disputes.list({ charge: ids.chargeId, limit: 10 }),
+  ]);
+  const card = charge.payment_method_details?.card;
+
+  return {
+    orderId: order.id,
+    paymentStatus: order.paymentStatus,
+    ...ids,
+    charge: {
+      amount: charge.amount / 100,
+      amountRefunded: charge.amount_refunded / 100,
+      currency: charge.currency,
+      status: charge.status,
+      created: new Date(charge.created * 1000),
+      receiptUrl: charge.receipt_url,
+      card: card
+        ? {
+            brand: card.brand,
+            last4: card.last4,
+            expMonth: card.exp_month,
+            expYear: card.exp_year,
+            funding: card.funding,
+            country: card.country,
+          }
+        : null,
+      paymentMethodType: charge.payment_method_details?.type || null,
+    },
+    disputed: charge.disputed,
+    disputes: disputes.data.map((dispute) => ({
+      id: dispute.id,
+      status: dispute.status,
+      reason: dispute.reason,
+      amount: dispute.amount / 100,
+      evidenceDueBy: dispute.evidence_details?.due_by
+        ? new Date(dispute.evidence_details.due_by * 1000)
+        : null,
+      created: new Date(dispute.created * 1000),
+    })),
+  };
+};
@@ -0,0 +1,367 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { getDefaultPrice, isValidProductType } from "../utils/skuGenerator";
+import { getRate } from "./shippoService";
+import {
+  AppliedPromotion,
+  PromotionCustomer,
+  resolvePromotion,
+} from "./promotionService";
+import {
+  fromUsd,
+  getPriceCurrency,
+  PriceCurrency,
+  resolveCurrency,
+  USD,
+} from "./currencyService";
+import { calculateTax, TaxAddress, TaxLine } from "./taxService";
+
+const prisma = new PrismaClient();
+
+// Client-sent amounts are compared with a one-cent tolerance to absorb float rounding
+const PRICE_TOLERANCE = 0.01;
+
+export interface OrderLineInput {
+  productId?: string | null;
+  recipeId?: string | null;
+  flavorIds?: string[] | null;
+  quantity: number | string;
+  price?: number | string | null; // Client-sent unit price, only used to detect mismatches
+  customPackName?: string | null;
+  isCustomPack?: boolean;
+}
+
+export interface PricedLine {
+  productId: string | null;
+  recipeId: string | null;
+  flavorIds: string[];
+  customPackName: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface SelectedShippingRate {
+  objectId: string;
+  carrier?: string;
+  amount?: number | string;
+  serviceName?: string;
+}
+
+export interface VerifiedShippingRate {
+  objectId: string;
+  carrier: string;
+  amount: number; // USD, as quoted by Shippo
+  serviceName: string;
+}
+
+export interface OrderPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  shipping: number;
+  tax: number;
+  taxBreakdown: TaxLine[];
+  total: number;
+  shippingRate: VerifiedShippingRate | null;
+  promotion: AppliedPromotion | null;
+  currency: string;
+  fxRate: number;
+}
+
+export class PricingError extends CustomError {
+  details?: Record<string, unknown>;
+
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 400);
+    this.details = details;
+  }
+}
+
+export const roundCurrency = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+const amountsDiffer = (a: number, b: number): boolean =>
+  Math.abs(a - b) > PRICE_TOLERANCE;
+
+/**
+ * Resolve the pack type ("3-pack", "5-pack") for a pack line and how many
+ * flavors it must contain
+ */
+const resolvePackType = async (productId?: string | null) => {
+  const packType =
+    productId && (await isValidProductType(productId)) ? productId : "3-pack";
+  const size = parseInt(packType, 10) || 3;
+  return { packType, size };
+};
+
+const parseQuantity = (quantity: number | string): number => {
+  const parsed = Number(quantity);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new PricingError("Quantity must be a whole number greater than 0", {
+      quantity,
+    });
+  }
+  return parsed;
+};
+
+// A product's or recipe's price-book amount in a non-USD currency, if set
+const priceBookAmount = async (
+  owner: { productId: string } | { recipeId: string },
+  price: PriceCurrency
+) => {
+  if (price.currency === USD.currency) return null;
+  const entry = await prisma.priceBookEntry.findFirst({
+    where: { ...owner, currency: price.currency },
+    select: { amount: true },
+  });
+  return entry?.amount ?? null;
+};
+
+/**
+ * Price a single order line from the catalog:
+ * - recipeId        → PackRecipe, priced at the pack type's default price
+ * - flavorIds       → custom pack, priced at the pack type's default price
+ * - productId only  → Product.price
+ *
+ * In other currencies the recipe's or product's price-book amount is used,
+ * falling back to the USD price converted at the current rate.
+ */
+const priceLine = async (
+  line: OrderLineInput,
+  price: PriceCurrency
+): Promise<PricedLine> => {
+  const quantity = parseQuantity(line.quantity);
+  const flavorIds = Array.isArray(line.flavorIds) ? line.flavorIds : [];
+
+  let name: string;
+  let unitPrice: number;
+  let recipeId: string | null = null;
+  let customPackName: string | null = null;
+
+  if (line.recipeId) {
+    const { packType, size } = await resolvePackType(line.productId);
+    const recipe = await prisma.packRecipe.findUnique({
+      where: { id: line.recipeId },
+      include: { items: true },
+    });
+
+    if (!recipe || !recipe.active) {
+      throw new PricingError(`Pack recipe not available: ${line.recipeId}`);
+    }
+
+    const totalItems = recipe.items.reduce((sum, item) => sum + item.quantity, 0);
+    if (totalItems !== size) {
+      throw new PricingError(
+        `Invalid recipe: total items is ${totalItems}, must be ${size}`
+      );
+    }
+
+    name = recipe.title;
+    recipeId = recipe.id;
+    unitPrice =
+      (await priceBookAmount({ recipeId: recipe.id }, price)) ??
+      fromUsd(await getDefaultPrice(packType), price);
+  } else if (flavorIds.length > 0) {
+    const { packType, size } = await resolvePackType(line.productId);
+    if (flavorIds.length !== size) {
+      throw new PricingError(`Custom pack must have exactly ${size} flavors`);
+    }
+
+    const uniqueFlavorIds = [...new Set(flavorIds)];
+    const flavors = await prisma.flavor.findMany({
+      where: { id: { in: uniqueFlavorIds }, active: true },
+      select: { id: true },
+    });
+
+    if (flavors.length !== uniqueFlavorIds.length) {
+      throw new PricingError("One or more flavors in custom pack are not available");
+    }
+
+    customPackName = line.customPackName || `Custom ${size}-Pack`;
+    name = customPackName;
+    unitPrice = fromUsd(await getDefaultPrice(packType), price);
+  } else if (line.productId) {
+    const product = await prisma.product.findUnique({
+      where: { id: line.productId, isActive: true },
+      select: { name: true, price: true },
+    });
+
+    if (!product) {
+      throw new PricingError(`Product not found: ${line.productId}`);
+    }
+
+    name = product.name;
+    unitPrice =
+      (await priceBookAmount({ productId: line.productId }, price)) ??
+      fromUsd(product.price, price);
+  } else {
+    throw new PricingError(
+      "Invalid order item: productId, recipeId or flavorIds is required"
+    );
+  }
+
+  if (!(unitPrice > 0)) {
+    throw new PricingError(`No price configured for ${name}`);
+  }
+
+  unitPrice = roundCurrency(unitPrice);
+
+  if (
+    line.price !== undefined &&
+    line.price !== null &&
+    amountsDiffer(Number(line.price), unitPrice)
+  ) {
+    throw new PricingError(`Price mismatch for ${name}`, {
+      expectedPrice: unitPrice,
+      receivedPrice: Number(line.price),
+    });
+  }
+
+  return {
+    productId: line.productId || null,
+    recipeId,
+    flavorIds,
+    customPackName,
+    name,
+    quantity,
+    unitPrice,
+    total: roundCurrency(unitPrice * quantity),
+  };
+};
+
+/**
+ * Price every order line from the catalog, ignoring client-sent prices
+ */
+export const priceOrderLines = async (
+  lines: OrderLineInput[],
+  price: PriceCurrency = USD
+): Promise<PricedLine[]> => {
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new PricingError("No items provided");
+  }
+
+  const priced: PricedLine[] = [];
+  for (const line of lines) {
+    priced.push(await priceLine(line, price));
+  }
+  return priced;
+};
+
+/**
+ * Verify the Shippo rate the customer selected and return its real amount
+ */
+export const verifyShippingRate = async (
+  selectedRate?: SelectedShippingRate | null
+): Promise<VerifiedShippingRate | null> => {
+  if (!selectedRate?.objectId) return null;
+
+  let rate;
+  try {
+    rate = await getRate(selectedRate.objectId);
+  } catch {
+    throw new PricingError("Selected shipping rate could not be verified");
+  }
+
+  const amount = roundCurrency(rate.amount);
+  if (
+    selectedRate.amount !== undefined &&
+    selectedRate.amount !== null &&
+    amountsDiffer(Number(selectedRate.amount), amount)
+  ) {
+    throw new PricingError("Shipping rate mismatch", {
+      expectedShipping: amount,
+      receivedShipping: Number(selectedRate.amount),
+    });
+  }
+
+  return {
+    objectId: rate.objectId || selectedRate.objectId,
+    carrier: rate.carrier,
+    amount,
+    serviceName: rate.serviceName,
+  };
+};
+
+/**
+ * Compute subtotal, discount, shipping, tax and total for an order on the
+ * server, in the requested currency or the shipping country's. Tax follows
+ * the ship-to state/country, so an order without a ship-to country is
+ * rejected rather than left untaxed. If the client sent the total it expects
+ * to pay, reject any mismatch.
+ */
+export const calculateOrderTotals = async (params: {
+  items: OrderLineInput[];
+  selectedShippingRate?: SelectedShippingRate | null;
+  expectedTotal?: number | string | null;
+  discountCode?: string | null;
+  customer?: PromotionCustomer;
+  currency?: string | null;
+  shipTo?: TaxAddress | null;
+}): Promise<OrderPricing> => {
+  if (!params.shipTo?.country) {
+    throw new PricingError("A ship-to country is required to calculate tax");
+  }
+
+  const currency = resolveCurrency({
+    currency: params.currency,
+    country: params.shipTo?.country,
+  });
+  if (!currency) {
+    throw new PricingError(`Unsupported currency: ${params.currency}`);
+  }
+  const price = await getPriceCurrency(currency);
+
+  const lines = await priceOrderLines(params.items, price);
+  const shippingRate = await verifyShippingRate(params.selectedShippingRate);
+  const shippingAmount = shippingRate ? fromUsd(shippingRate.amount, price) : 0;
+
+  const subtotal = roundCurrency(
+    lines.reduce((sum, line) => sum + line.total, 0)
+  );
+  const promotion = await resolvePromotion({
+    code: params.discountCode,
+    lines,
+    subtotal,
+    shipping: shippingAmount,
+    customer: params.customer,
+    fxRate: price.fxRate,
+  });
+  const discount = promotion?.amount ?? 0;
+  const shipping = promotion?.freeShipping ? 0 : shippingAmount;
+  const tax = await calculateTax({
+    address: params.shipTo,
+    itemsAmount: roundCurrency(subtotal - discount),
+    shipping,
+    currency: price.currency,
+  });
+  const total = roundCurrency(subtotal - discount + shipping + tax.amount);
+
+  if (
+    params.expectedTotal !== undefined &&
+    params.expectedTotal !== null &&
+    amountsDiffer(Number(params.expectedTotal), total)
+  ) {
+    throw new PricingError("Order total mismatch", {
+      expectedTotal: total,
+      receivedTotal: Number(params.expectedTotal),
+    });
+  }
+
+  return {
+    lines,
+    subtotal,
+    discount,
+    shipping,
+    tax: tax.amount,
+    taxBreakdown: tax.breakdown,
+    total,
+    shippingRate,
+    promotion,
+    currency: price.currency,
+    fxRate: price.fxRate,
+  };
+};
@@ -0,0 +1,380 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { roundCurrency, toCents } from "./pricingService";
+
+const prisma = new PrismaClient();
+
+export const PROMOTION_TYPES = [
+  "percentage",
+  "fixed_amount",
+  "free_shipping",
+  "buy_n_packs",
+];
+
+type Tx = Prisma.TransactionClient;
+
+type PromotionRecord = Prisma.PromotionGetPayload<{}>;
+
+// The parts of a priced order / cart line a discount is computed from
+export interface DiscountableLine {
+  recipeId: string | null;
+  flavorIds: string[];
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface PromotionCustomer {
+  userId?: string | null;
+  email?: string | null;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  discountCodeId: string | null;
+  code: string | null;
+  name: string;
+  type: string;
+  amount: number; // Taken off the items subtotal
+  freeShipping: boolean;
+}
+
+export class PromotionError extends CustomError {
+  constructor(message: string, statusCode = 400) {
+    super(message, statusCode);
+  }
+}
+
+export const normalizeCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+/**
+ * Key used to count redemptions per customer. Guests are identified by email;
+ * without either there is nothing to cap on.
+ */
+const customerKeyFor = (customer?: PromotionCustomer): string | null =>
+  customer?.userId || customer?.email?.trim().toLowerCase() || null;
+
+// Recipe packs and custom packs count towards "buy N packs" rules
+const isPackLine = (line: DiscountableLine) =>
+  !!line.recipeId || line.flavorIds.length > 0;
+
+/**
+ * Amount a promotion takes off the given lines. Never more than the subtotal.
+ * Fixed amounts are set in USD and converted with the order's fxRate.
+ */
+const calculateDiscount = (
+  promotion: PromotionRecord,
+  lines: DiscountableLine[],
+  subtotal: number,
+  fxRate = 1
+) => {
+  let amount = 0;
+
+  switch (promotion.type) {
+    case "percentage":
+      amount = (subtotal * Math.min(promotion.value, 100)) / 100;
+      break;
+    case "fixed_amount":
+      amount = promotion.value / fxRate;
+      break;
+    case "buy_n_packs": {
+      // For every (buy + free) packs in the order, the cheapest `free` are free
+      const buy = promotion.buyQuantity || 0;
+      const free = promotion.freeQuantity || 0;
+      if (buy < 1 || free < 1) break;
+
+      const unitPrices = lines
+        .filter(isPackLine)
+        .flatMap((line) => Array(line.quantity).fill(line.unitPrice) as number[])
+        .sort((a, b) => a - b);
+      const freeUnits = Math.floor(unitPrices.length / (buy + free)) * free;
+      amount = unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0);
+      break;
+    }
+  }
+
+  return {
+    amount: roundCurrency(Math.min(Math.max(amount, 0), subtotal)),
+    freeShipping: promotion.type === "free_shipping",
+  };
+};
+
+/**
+ * Why a promotion can't be used right now, or null if it can
+ */
+const ineligibilityReason = async (
+  promotion: PromotionRecord,
+  subtotal: number,
+  customer?: PromotionCustomer,
+  fxRate = 1
+): Promise<string | null> => {
+  const now = new Date();
+
+  if (!promotion.isActive) return "This promotion is no longer active";
+  if (promotion.startsAt && promotion.startsAt > now) {
+    return "This promotion has not started yet";
+  }
+  if (promotion.endsAt && promotion.endsAt < now) {
+    return "This promotion has expired";
+  }
+  if (promotion.usageLimit !== null && promotion.timesUsed >= promotion.usageLimit) {
+    return "This promotion has reached its usage limit";
+  }
+  // Minimum subtotals are set in USD
+  if (promotion.minSubtotal && subtotal * fxRate < promotion.minSubtotal) {
+    return `Order subtotal must be at least $${promotion.minSubtotal.toFixed(2)}`;
+  }
+
+  const customerKey = customerKeyFor(customer);
+  if (promotion.perCustomerLimit !== null && customerKey) {
+    const used = await prisma.promotionRedemption.count({
+      where: { promotionId: promotion.id, customerKey },
+    });
+    if (used >= promotion.perCustomerLimit) {
+      return "You have already used this promotion";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Work out which promotion applies to an order and how much it takes off.
+ *
+ * With a code, that code's promotion is used and any problem with it is
+ * reported as a PromotionError. Without one, the best automatic promotion
+ * (if any) is applied. Promotions don't stack.
+ */
+export const resolvePromotion = async (params: {
+  code?: string | null;
+  lines: DiscountableLine[];
+  subtotal: number;
+  shipping: number;
+  customer?: PromotionCustomer;
+  fxRate?: number; // USD value of one unit of the order currency
+}): Promise<AppliedPromotion | null> => {
+  const { lines, subtotal, shipping, customer } = params;
+  const fxRate = params.fxRate ?? 1;
+
+  if (params.code && params.code.trim()) {
+    const code = normalizeCode(params.code);
+    const discountCode = await prisma.discountCode.findUnique({
+      where: { code },
+      include: { promotion: true },
+    });
+
+    if (!discountCode || !discountCode.isActive) {
+      throw new PromotionError("Invalid discount code");
+    }
+    if (
+      discountCode.usageLimit !== null &&
+      discountCode.timesUsed >= discountCode.usageLimit
+    ) {
+      throw new PromotionError("This discount code has reached its usage limit");
+    }
+
+    const reason = await ineligibilityReason(
+      discountCode.promotion,
+      subtotal,
+      customer,
+      fxRate
+    );
+    if (reason) {
+      throw new PromotionError(reason);
+    }
+
+    const discount = calculateDiscount(discountCode.promotion, lines, subtotal, fxRate);
+    if (discount.amount <= 0 && !discount.freeShipping) {
+      throw new PromotionError("This discount code doesn't apply to your items");
+    }
+
+    return {
+      promotionId: discountCode.promotion.id,
+      discountCodeId: discountCode.id,
+      code: discountCode.code,
+      name: discountCode.promotion.name,
+      type: discountCode.promotion.type,
+      ...discount,
+    };
+  }
+
+  const automatic = await prisma.promotion.findMany({
+    where: { isActive: true, requiresCode: false },
+  });
+
+  let best: AppliedPromotion | null = null;
+  let bestValue = 0;
+  for (const promotion of automatic) {
+    if (await ineligibilityReason(promotion, subtotal, customer, fxRate)) continue;
+
+    const discount = calculateDiscount(promotion, lines, subtotal, fxRate);
+    const value = discount.amount + (discount.freeShipping ? shipping : 0);
+    if (value > bestValue) {
+      bestValue = value;
+      best = {
+        promotionId: promotion.id,
+        discountCodeId: null,
+        code: null,
+        name: promotion.name,
+        type: promotion.type,
+        ...discount,
+      };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Count a promotion against its usage limits and record who used it on which
+ * order.
+ *
+ * With `enforceLimits` (the default) the usage counters are only incremented
+ * while under their limits, so two orders can't both take the last use. Paid
+ * Stripe checkouts pass `enforceLimits: false`: the limits were checked when
+ * the session was created and the customer has already been charged.
+ */
+export const recordRedemption = async (
+  tx: Tx,
+  params: {
+    applied: Pick<AppliedPromotion, "promotionId" | "discountCodeId" | "amount">;
+    orderId: string;
+    customer?: PromotionCustomer;
+    enforceLimits?: boolean;
+  }
+) => {
+  const { applied, orderId, customer } = params;
+  const enforceLimits = params.enforceLimits !== false;
+
+  const promotionUpdated = enforceLimits
+    ? await tx.$executeRaw`
+        UPDATE "Promotion"
+        SET "timesUsed" = "timesUsed" + 1, "updatedAt" = NOW()
+        WHERE "id" = ${applied.promotionId}
+          AND ("usageLimit" IS NULL OR "timesUsed" < "usageLimit")
+      `
+    : await tx.$executeRaw`
+        UPDATE "Promotion"
+        SET "timesUsed" = "timesUsed" + 1, "updatedAt" = NOW()
+        WHERE "id" = ${applied.promotionId}
+      `;
+  if (enforceLimits && promotionUpdated === 0) {
+    throw new PromotionError("This promotion has reached its usage limit", 409);
+  }
+
+  if (applied.discountCodeId) {
+    const codeUpdated = enforceLimits
+      ? await tx.$executeRaw`
+          UPDATE "DiscountCode"
+          SET "timesUsed" = "timesUsed" + 1, "updatedAt" = NOW()
+          WHERE "id" = ${applied.discountCodeId}
+            AND ("usageLimit" IS NULL OR "timesUsed" < "usageLimit")
+        `
+      : await tx.$executeRaw`
+          UPDATE "DiscountCode"
+          SET "timesUsed" = "timesUsed" + 1, "updatedAt" = NOW()
+          WHERE "id" = ${applied.discountCodeId}
+        `;
+    if (enforceLimits && codeUpdated === 0) {
+      throw new PromotionError("This discount code has reached its usage limit", 409);
+    }
+  }
+
+  return tx.promotionRedemption.create({
+    data: {
+      promotionId: applied.promotionId,
+      discountCodeId: applied.discountCodeId,
+      orderId,
+      userId: customer?.userId || null,
+      customerKey: customerKeyFor(customer) || `order:${orderId}`,
+      amount: applied.amount,
+    },
+  });
+};
+
+/**
+ * Give back the use an unpaid order took from its promotion's limits. Safe to
+ * call more than once.
+ */
+export const releaseRedemption = async (tx: Tx, orderId: string) => {
+  const redemption = await tx.promotionRedemption.findUnique({ where: { orderId } });
+  if (!redemption) return null;
+
+  const deleted = await tx.promotionRedemption.deleteMany({ where: { id: redemption.id } });
+  if (deleted.count === 0) return null;
+
+  await tx.$executeRaw`
+    UPDATE "Promotion"
+    SET "timesUsed" = GREATEST("timesUsed" - 1, 0), "updatedAt" = NOW()
+    WHERE "id" = ${redemption.promotionId}
+  `;
+  if (redemption.discountCodeId) {
+    await tx.$executeRaw`
+      UPDATE "DiscountCode"
+      SET "timesUsed" = GREATEST("timesUsed" - 1, 0), "updatedAt" = NOW()
+      WHERE "id" = ${redemption.discountCodeId}
+    `;
+  }
+  return redemption;
+};
+
+/**
+ * Count an order's promotion again when it is retried or paid after its
+ * redemption was released
+ */
+export const restoreRedemption = async (
+  tx: Tx,
+  order: {
+    id: string;
+    promotionId: string | null;
+    discountCode: string | null;
+    discountAmount: number;
+    userId: string | null;
+    guestEmail: string | null;
+  },
+  options: { enforceLimits?: boolean } = {}
+) => {
+  if (!order.promotionId) return null;
+  if (await tx.promotionRedemption.findUnique({ where: { orderId: order.id } })) {
+    return null;
+  }
+
+  const discountCode = order.discountCode
+    ? await tx.discountCode.findUnique({ where: { code: normalizeCode(order.discountCode) } })
+    : null;
+  return recordRedemption(tx, {
+    applied: {
+      promotionId: order.promotionId,
+      discountCodeId: discountCode?.id ?? null,
+      amount: order.discountAmount,
+    },
+    orderId: order.id,
+    customer: { userId: order.userId, email: order.guestEmail },
+    enforceLimits: options.enforceLimits,
+  });
+};
+
+/**
+ * One-off Stripe coupon for a checkout session's item discount. Free shipping
+ * needs no coupon since the shipping line is left out of the session.
+ */
+export const createStripeCoupon = async (
+  stripe: Stripe,
+  amount: number,
+  label: string,
+  currency = "usd"
+): Promise<string | null> => {
+  if (amount <= 0) return null;
+
+  const coupon = await stripe.coupons.create({
+    amount_off: toCents(amount),
+    currency,
+    duration: "once",
+    max_redemptions: 1,
+    name: label.slice(0, 40),
+  });
+
+  return coupon.id;
+};
@@ -0,0 +1,444 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import { completeCheckout } from "./checkoutService";
+import { OrderActor, transitionOrder } from "./orderStatusService";
+import { definedPaymentIds, findOrderIdByPayment } from "./paymentDetailsService";
+import { roundCurrency, toCents } from "./pricingService";
+import { handleChargeRefunded } from "./refundService";
+import { markExistingOrderPaid } from "./stripeWebhookService";
+import { fulfillGiftCardPurchase, GIFT_CARD_PURCHASE } from "./giftCardService";
+
+const prisma = new PrismaClient();
+
+const RECONCILIATION_INTERVAL_MS =
+  Math.max(Number(process.env.RECONCILIATION_INTERVAL_MINUTES) || 60, 5) * 60 * 1000;
+// How far back paid orders and Stripe sessions are compared
+const LOOKBACK_MS = 3 * 24 * 60 * 60 * 1000;
+// A pending order this young may still be in an open checkout
+const PENDING_GRACE_MS = 30 * 60 * 1000;
+// A pending order with no Stripe payment this old was abandoned
+const ABANDONED_AFTER_MS = 24 * 60 * 60 * 1000;
+const ORDER_BATCH_SIZE = 200;
+const MAX_SESSIONS = 500;
+// A run left "running" this long is assumed to belong to a crashed process
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+
+const RECONCILIATION_ACTOR: OrderActor = { source: "system", actorLabel: "reconciliation" };
+
+export type MismatchKind =
+  | "pending_but_paid" // Stripe collected the money, the order still waits
+  | "pending_but_failed" // The session expired or the payment was canceled
+  | "no_stripe_payment" // Pending for a day with no session or payment intent
+  | "payment_not_succeeded" // Order is paid but Stripe's payment isn't
+  | "amount_mismatch" // Stripe charged a different amount than the order total
+  | "unrecorded_refund" // Stripe refunded more than the order has on record
+  | "missing_order" // A paid checkout session never became an order
+  | "missing_gift_card" // A paid gift card purchase never issued its card
+  | "unknown_session" // A paid checkout session matches nothing here
+  | "check_failed"; // Stripe or the database errored while checking
+
+export interface Mismatch {
+  kind: MismatchKind;
+  orderId?: string | null;
+  stripeId?: string | null;
+  ours?: string | null;
+  stripe?: string | null;
+  corrected: boolean;
+  note?: string;
+}
+
+const paymentIntentOf = (value: string | Stripe.PaymentIntent | null) =>
+  value && typeof value !== "string" ? value : null;
+
+const chargeOf = (paymentIntent: Stripe.PaymentIntent | null) =>
+  paymentIntent?.latest_charge && typeof paymentIntent.latest_charge !== "string"
+    ? paymentIntent.latest_charge
+    : null;
+
+/**
+ * Compare a pending order with its checkout session or payment intent and
+ * settle it when Stripe already knows the outcome
+ */
+const reconcilePendingOrder = async (
+  stripe: Stripe,
+  runId: string,
+  order: Prisma.OrderGetPayload<{ include: { checkoutSession: true } }>
+): Promise<Mismatch | null> => {
+  const sessionId = order.stripeSessionId || order.checkoutSession?.stripeSessionId;
+  const session = sessionId
+    ? await stripe.checkout.sessions.retrieve(sessionId, { expand: ["payment_intent"] })
+    : null;
+  const paymentIntent =
+    paymentIntentOf(session?.payment_intent ?? null) ||
+    (order.paymentIntentId ? await stripe.paymentIntents.retrieve(order.paymentIntentId) : null);
+
+  const note = (text: string) => `Reconciliation ${runId}: ${text}`;
+
+  if (session?.payment_status === "paid" || paymentIntent?.status === "succeeded") {
+    const stripeId = session?.id || paymentIntent!.id;
+    const { order: updated } = await markExistingOrderPaid(
+      order.id,
+      { ...RECONCILIATION_ACTOR, note: note(`${stripeId} is paid`) },
+      definedPaymentIds({
+        stripeSessionId: session?.id,
+        paymentIntentId: paymentIntent?.id,
+        chargeId: chargeOf(paymentIntent)?.id,
+      })
+    );
+    return {
+      kind: "pending_but_paid",
+      orderId: order.id,
+      stripeId,
+      ours: order.paymentStatus,
+      stripe: session?.payment_status || paymentIntent?.status,
+      corrected: updated.paymentStatus === "paid",
+    };
+  }
+
+  if (session?.status === "expired" || paymentIntent?.status === "canceled") {
+    const stripeId = session?.status === "expired" ? session.id : paymentIntent!.id;
+    const updated = await transitionOrder(
+      order.id,
+      { paymentStatus: "failed" },
+      { ...RECONCILIATION_ACTOR, note: note(`${stripeId} expired without payment`) },
+      { strict: false }
+    );
+    return {
+      kind: "pending_but_failed",
+      orderId: order.id,
+      stripeId,
+      ours: order.paymentStatus,
+      stripe: session?.status === "expired" ? "expired" : paymentIntent?.status,
+      corrected: updated.paymentStatus === "failed",
+    };
+  }
+
+  if (!session && !paymentIntent && order.createdAt.getTime() < Date.now() - ABANDONED_AFTER_MS) {
+    const updated = await transitionOrder(
+      order.id,
+      { paymentStatus: "failed" },
+      { ...RECONCILIATION_ACTOR, note: note("no Stripe payment found after 24h") },
+      { strict: false }
+    );
+    return {
+      kind: "no_stripe_payment",
+      orderId: order.id,
+      ours: order.paymentStatus,
+      stripe: null,
+      corrected: updated.paymentStatus === "failed",
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Compare a paid order with its payment intent: that it succeeded, for the
+ * order total, and that every refund Stripe made is on record
+ */
+const reconcilePaidOrder = async (
+  stripe: Stripe,
+  order: Prisma.OrderGetPayload<{ include: { refunds: true } }>
+): Promise<Mismatch[]> => {
+  let paymentIntent: Stripe.PaymentIntent | null = null;
+  if (order.paymentIntentId) {
+    paymentIntent = await stripe.paymentIntents.retrieve(order.paymentIntentId, {
+      expand: ["latest_charge"],
+    });
+  } else if (order.stripeSessionId) {
+    const session = await stripe.checkout.sessions.retrieve(order.stripeSessionId, {
+      expand: ["payment_intent.latest_charge"],
+    });
+    paymentIntent = paymentIntentOf(session.payment_intent);
+  }
+  if (!paymentIntent) return [];
+
+  const charge = chargeOf(paymentIntent);
+  if (!order.paymentIntentId || (!order.chargeId && charge)) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: definedPaymentIds({ paymentIntentId: paymentIntent.id, chargeId: charge?.id }),
+    });
+  }
+
+  const mismatches: Mismatch[] = [];
+
+  if (paymentIntent.status !== "succeeded") {
+    mismatches.push({
+      kind: "payment_not_succeeded",
+      orderId: order.id,
+      stripeId: paymentIntent.id,
+      ours: order.paymentStatus,
+      stripe: paymentIntent.status,
+      corrected: false,
+      note: "Needs review: the order may have shipped without payment",
+    });
+  }
+
+  // Subscription orders record what their invoice charged; Stripe only
+  // charges what a gift card didn't cover
+  const amountDue = roundCurrency(order.total - order.giftCardAmount);
+  if (!order.stripeInvoiceId && paymentIntent.amount_received !== toCents(amountDue)) {
+    mismatches.push({
+      kind: "amount_mismatch",
+      orderId: order.id,
+      stripeId: paymentIntent.id,
+      ours: amountDue.toFixed(2),
+      stripe: (paymentIntent.amount_received / 100).toFixed(2),
+      corrected: false,
+    });
+  }
+
+  const recorded = roundCurrency(
+    order.refunds
+      .filter((refund) => refund.status === "succeeded" || refund.status === "pending")
+      .reduce((sum, refund) => sum + refund.amount - refund.creditAmount, 0)
+  );
+  if (charge && charge.amount_refunded > toCents(recorded)) {
+    await handleChargeRefunded(stripe, charge);
+    mismatches.push({
+      kind: "unrecorded_refund",
+      orderId: order.id,
+      stripeId: charge.id,
+      ours: recorded.toFixed(2),
+      stripe: (charge.amount_refunded / 100).toFixed(2),
+      corrected: true,
+    });
+  }
+
+  return mismatches;
+};
+
+/**
+ * Check a paid Stripe checkout session has an order, creating it from the
+ * checkout record when the webhook never did
+ */
+const reconcilePaidSession = async (
+  stripe: Stripe,
+  runId: string,
+  session: Stripe.Checkout.Session
+): Promise<Mismatch | null> => {
+  const metadataOrderId = session.metadata?.orderId;
+  if (metadataOrderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: metadataOrderId },
+      select: { id: true, paymentStatus: true },
+    });
+    if (!order) {
+      return { kind: "unknown_session", stripeId: session.id, orderId: metadataOrderId, corrected: false };
+    }
+    if (order.paymentStatus !== "pending" && order.paymentStatus !== "failed") {
+      return null;
+    }
+
+    const { order: updated } = await markExistingOrderPaid(
+      order.id,
+      { ...RECONCILIATION_ACTOR, note: `Reconciliation ${runId}: ${session.id} is paid` },
+      { stripeSessionId: session.id }
+    );
+    return {
+      kind: "pending_but_paid",
+      orderId: order.id,
+      stripeId: session.id,
+      ours: order.paymentStatus,
+      stripe: session.payment_status,
+      corrected: updated.paymentStatus === "paid",
+    };
+  }
+
+  if (session.metadata?.type === GIFT_CARD_PURCHASE) {
+    const result = await fulfillGiftCardPurchase(session);
+    if (!result.created) return null;
+    return {
+      kind: "missing_gift_card",
+      stripeId: session.id,
+      stripe: session.payment_status,
+      corrected: true,
+      note: `Issued gift card ${result.giftCard.id}`,
+    };
+  }
+
+  const checkout = await prisma.checkoutSession.findUnique({
+    where: { stripeSessionId: session.id },
+    select: { orderId: true },
+  });
+  if (checkout?.orderId) return null;
+
+  if (checkout) {
+    const fullSession = await stripe.checkout.sessions.retrieve(session.id, {
+      expand: ["payment_intent"],
+    });
+    const result = await completeCheckout(fullSession);
+    return {
+      kind: "missing_order",
+      orderId: result.orderId,
+      stripeId: session.id,
+      stripe: session.payment_status,
+      corrected: result.created,
+      note: "Order created from the checkout record",
+    };
+  }
+
+  if (await findOrderIdByPayment({ stripeSessionId: session.id })) return null;
+  return { kind: "unknown_session", stripeId: session.id, corrected: false };
+};
+
+// Paid one-off checkout sessions created since `since`, newest first
+const listPaidSessions = async (stripe: Stripe, since: Date) => {
+  const sessions: Stripe.Checkout.Session[] = [];
+  let startingAfter: string | undefined;
+
+  while (sessions.length < MAX_SESSIONS) {
+    const page = await stripe.checkout.sessions.list({
+      created: { gte: Math.floor(since.getTime() / 1000) },
+      status: "complete",
+      limit: 100,
+      ...(startingAfter ? { starting_after: startingAfter } : {}),
+    });
+    sessions.push(
+      ...page.data.filter(
+        (session) => session.mode === "payment" && session.payment_status === "paid"
+      )
+    );
+    if (!page.has_more || page.data.length === 0) break;
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+
+  return sessions.slice(0, MAX_SESSIONS);
+};
+
+/**
+ * Compare recent orders with Stripe, correct what can be corrected safely
+ * and store every mismatch found in a ReconciliationRun report
+ */
+export const runReconciliation = async (options: {
+  trigger: "scheduled" | "manual";
+  triggeredById?: string | null;
+}) => {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new CustomError("Stripe not configured", 503);
+  }
+
+  const running = await prisma.reconciliationRun.findFirst({
+    where: { status: "running", startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) } },
+  });
+  if (running) {
+    throw new CustomError("A reconciliation run is already in progress", 409);
+  }
+
+  const run = await prisma.reconciliationRun.create({
+    data: { trigger: options.trigger, triggeredById: options.triggeredById || null },
+  });
+
+  const since = new Date(Date.now() - LOOKBACK_MS);
+  const mismatches: Mismatch[] = [];
+  let ordersChecked = 0;
+  let sessionsChecked = 0;
+
+  const check = async (
+    target: { orderId?: string; stripeId?: string },
+    fn: () => Promise<Mismatch | Mismatch[] | null>
+  ) => {
+    try {
+      const found = await fn();
+      if (found) mismatches.push(...(Array.isArray(found) ? found : [found]));
+    } catch (error: any) {
+      console.error("❌ Reconciliation check failed:", { ...target, error: error?.message });
+      mismatches.push({ kind: "check_failed", ...target, corrected: false, note: error?.message });
+    }
+  };
+
+  try {
+    const pendingOrders = await prisma.order.findMany({
+      where: {
+        paymentStatus: "pending",
+        createdAt: { lt: new Date(Date.now() - PENDING_GRACE_MS) },
+      },
+      include: { checkoutSession: true },
+      orderBy: { createdAt: "asc" },
+      take: ORDER_BATCH_SIZE,
+    });
+    for (const order of pendingOrders) {
+      ordersChecked++;
+      await check({ orderId: order.id }, () => reconcilePendingOrder(stripe, run.id, order));
+    }
+
+    const paidOrders = await prisma.order.findMany({
+      where: {
+        paymentStatus: { in: ["paid", "partially_refunded", "refunded"] },
+        updatedAt: { gte: since },
+        OR: [{ paymentIntentId: { not: null } }, { stripeSessionId: { not: null } }],
+      },
+      include: { refunds: true },
+      orderBy: { updatedAt: "desc" },
+      take: ORDER_BATCH_SIZE,
+    });
+    for (const order of paidOrders) {
+      ordersChecked++;
+      await check({ orderId: order.id }, () => reconcilePaidOrder(stripe, order));
+    }
+
+    const sessions = await listPaidSessions(stripe, since);
+    for (const session of sessions) {
+      sessionsChecked++;
+      await check({ stripeId: session.id }, () => reconcilePaidSession(stripe, run.id, session));
+    }
+
+    const report = await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: "completed",
+        ordersChecked,
+        sessionsChecked,
+        mismatchCount: mismatches.length,
+        correctedCount: mismatches.filter((mismatch) => mismatch.corrected).length,
+        mismatches: mismatches as unknown as Prisma.InputJsonValue,
+        finishedAt: new Date(),
+      },
+    });
+
+    console.log("🧾 Payment reconciliation completed:", {
+      runId: run.id,
+      ordersChecked,
+      sessionsChecked,
+      mismatches: report.mismatchCount,
+      corrected: report.correctedCount,
+    });
+    return report;
+  } catch (error: any) {
+    await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        ordersChecked,
+        sessionsChecked,
+        mismatchCount: mismatches.length,
+        correctedCount: mismatches.filter((mismatch) => mismatch.corrected).length,
+        mismatches: mismatches as unknown as Prisma.InputJsonValue,
+        error: error?.message || String(error),
+        finishedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+};
+
+/**
+ * Periodically reconcile orders with Stripe (every
+ * RECONCILIATION_INTERVAL_MINUTES, default 60)
+ */
+export const startReconciliationJob = () => {
+  const timer = setInterval(() => {
+    if (!getStripe()) return;
+    runReconciliation({ trigger: "scheduled" }).catch((error) =>
+      console.error("❌ Payment reconciliation failed:", error)
+    );
+  }, RECONCILIATION_INTERVAL_MS);
+
+  // Don't keep the process alive just for the job
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,498 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendRefundEmail } from "../utils/mailer";
+import { roundCurrency, toCents } from "./pricingService";
+import { transitionOrder } from "./orderStatusService";
+import { findOrderIdByPayment } from "./paymentDetailsService";
+import { TaxLine } from "./taxService";
+import { refundToGiftCard } from "./giftCardService";
+import { formatMoney } from "./currencyService";
+
+const prisma = new PrismaClient();
+
+// Orders can only be refunded once money has actually been collected
+const REFUNDABLE_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+export interface RefundItemInput {
+  orderItemId: string;
+  quantity?: number; // Defaults to every unit not yet refunded
+}
+
+interface RefundLine {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const orderWithRefundDetails = {
+  orderItems: { include: { product: { select: { name: true } } } },
+  refunds: true,
+  checkoutSession: { select: { paymentIntentId: true } },
+  user: { select: { email: true, name: true } },
+} satisfies Prisma.OrderInclude;
+
+type RefundableOrder = Prisma.OrderGetPayload<{
+  include: typeof orderWithRefundDetails;
+}>;
+
+const isActiveRefund = (refund: { status: string }) =>
+  refund.status === "succeeded" || refund.status === "pending";
+
+const refundedTotal = (refunds: Array<{ status: string; amount: number }>) =>
+  roundCurrency(
+    refunds.filter(isActiveRefund).reduce((sum, refund) => sum + refund.amount, 0)
+  );
+
+// Part of the refunds that went back on a gift card rather than through Stripe
+const creditRefundedTotal = (refunds: Array<{ status: string; creditAmount: number }>) =>
+  roundCurrency(
+    refunds.filter(isActiveRefund).reduce((sum, refund) => sum + refund.creditAmount, 0)
+  );
+
+/**
+ * Find the Stripe payment intent that paid for an order. It is stored on the
+ * order; older checkout orders keep it on their checkout record, older
+ * subscription orders on their invoice, and retry payments tag the intent
+ * with the order id.
+ */
+const findPaymentIntentId = async (stripe: Stripe, order: RefundableOrder) => {
+  if (order.paymentIntentId) {
+    return order.paymentIntentId;
+  }
+
+  if (order.checkoutSession?.paymentIntentId) {
+    return order.checkoutSession.paymentIntentId;
+  }
+
+  if (order.stripeInvoiceId) {
+    const invoice: any = await stripe.invoices.retrieve(order.stripeInvoiceId);
+    const paymentIntent = invoice.payment_intent;
+    if (paymentIntent) {
+      return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+    }
+  }
+
+  const result = await stripe.paymentIntents.search({
+    query: `metadata['orderId']:'${order.id}' AND status:'succeeded'`,
+    limit: 1,
+  });
+  return result.data[0]?.id || null;
+};
+
+/**
+ * Find the order a Stripe payment intent (or one of its charges) belongs to
+ */
+const findOrderIdForPaymentIntent = async (
+  stripe: Stripe,
+  paymentIntentId: string,
+  chargeId?: string
+) => {
+  const orderId = await findOrderIdByPayment({ paymentIntentId, chargeId });
+  if (orderId) return orderId;
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+  return paymentIntent.metadata?.orderId || null;
+};
+
+/**
+ * Share of each item's list price the customer actually paid once the order's
+ * discount is spread across its items and the sales tax on them is added
+ */
+const paidShare = (order: RefundableOrder) => {
+  const itemsTotal = order.orderItems.reduce((sum, item) => sum + item.total, 0);
+  const taxRate = ((order.taxBreakdown as unknown as TaxLine[] | null) || []).reduce(
+    (sum, line) => sum + line.rate,
+    0
+  );
+  if (!order.discountAmount || itemsTotal <= 0) return 1 + taxRate;
+  return (Math.max(itemsTotal - order.discountAmount, 0) / itemsTotal) * (1 + taxRate);
+};
+
+/**
+ * Work out which units a refund covers and how much they cost
+ */
+const resolveRefundLines = (
+  order: RefundableOrder,
+  items?: RefundItemInput[]
+): RefundLine[] => {
+  const share = paidShare(order);
+
+  if (!items || items.length === 0) {
+    // Full refund: every unit not refunded yet
+    return order.orderItems
+      .filter((item) => item.quantity > item.refundedQuantity)
+      .map((item) => {
+        const quantity = item.quantity - item.refundedQuantity;
+        return {
+          orderItemId: item.id,
+          quantity,
+          amount: roundCurrency(item.price * quantity * share),
+        };
+      });
+  }
+
+  return items.map((input) => {
+    const item = order.orderItems.find((i) => i.id === input.orderItemId);
+    if (!item) {
+      throw new CustomError(`Order item not found: ${input.orderItemId}`, 400);
+    }
+
+    const remaining = item.quantity - item.refundedQuantity;
+    const quantity =
+      input.quantity === undefined ? remaining : Number(input.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > remaining) {
+      throw new CustomError(
+        `Invalid refund quantity for item ${item.id}. Refundable: ${remaining}`,
+        400
+      );
+    }
+
+    return {
+      orderItemId: item.id,
+      quantity,
+      amount: roundCurrency(item.price * quantity * share),
+    };
+  });
+};
+
+/**
+ * Put units of an order item back into stock: flavor inventory for packs,
+ * Product.stock for regular products
+ */
+export const restockOrderItem = async (
+  tx: Tx,
+  item: { recipeId: string | null; flavorIds: string[]; productId: string | null },
+  quantity: number
+) => {
+  if (item.recipeId) {
+    const recipeItems = await tx.packRecipeItem.findMany({
+      where: { packRecipeId: item.recipeId },
+    });
+    for (const recipeItem of recipeItems) {
+      await tx.flavorInventory.update({
+        where: { flavorId: recipeItem.flavorId },
+        data: { onHand: { increment: recipeItem.quantity * quantity } },
+      });
+    }
+  } else if (item.flavorIds.length > 0) {
+    for (const flavorId of item.flavorIds) {
+      await tx.flavorInventory.update({
+        where: { flavorId },
+        data: { onHand: { increment: quantity } },
+      });
+    }
+  } else if (item.productId) {
+    await tx.product.update({
+      where: { id: item.productId },
+      data: { stock: { increment: quantity } },
+    });
+  }
+};
+
+/**
+ * Put refunded units back into stock
+ */
+const restockLines = async (
+  tx: Tx,
+  order: RefundableOrder,
+  lines: RefundLine[]
+) => {
+  for (const line of lines) {
+    const item = order.orderItems.find((i) => i.id === line.orderItemId);
+    if (!item) continue;
+
+    await restockOrderItem(tx, item, line.quantity);
+
+    await tx.orderItem.update({
+      where: { id: item.id },
+      data: { refundedQuantity: { increment: line.quantity } },
+    });
+  }
+};
+
+/**
+ * paymentStatus once a refund of the given running total has gone through
+ */
+const paymentStatusAfterRefund = (orderTotal: number, totalRefunded: number) =>
+  totalRefunded >= orderTotal - 0.01 ? "refunded" : "partially_refunded";
+
+const customerForOrder = (order: RefundableOrder) => {
+  const address = order.shippingAddress as any;
+  return {
+    email: order.user?.email || order.guestEmail || address?.email || null,
+    name: address?.name || order.user?.name || "Customer",
+  };
+};
+
+const itemName = (item: RefundableOrder["orderItems"][number]) =>
+  item.customPackName || item.product?.name || "Item";
+
+/**
+ * Refund an order through Stripe, in full or for specific order items, and
+ * restock what was refunded. For orders part-paid by gift card the card
+ * payment is refunded first and the rest goes back on the gift card.
+ */
+export const refundOrder = async (
+  stripe: Stripe,
+  params: {
+    orderId: string;
+    items?: RefundItemInput[];
+    reason?: string | null;
+    restock?: boolean;
+    createdById?: string | null;
+  }
+) => {
+  const order = await prisma.order.findUnique({
+    where: { id: params.orderId },
+    include: orderWithRefundDetails,
+  });
+
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new CustomError(
+      `Order cannot be refunded while payment status is ${order.paymentStatus}`,
+      400
+    );
+  }
+
+  const alreadyRefunded = refundedTotal(order.refunds);
+  const remaining = roundCurrency(order.total - alreadyRefunded);
+  const isFullRefund = !params.items || params.items.length === 0;
+  const lines = resolveRefundLines(order, params.items);
+
+  // A full refund also returns shipping, so it covers whatever is left
+  const amount = isFullRefund
+    ? remaining
+    : roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  if (amount <= 0 || amount > remaining + 0.01) {
+    throw new CustomError(
+      `Refund amount must be between ${formatMoney(0.01, order.currency)} and ${formatMoney(remaining, order.currency)}`,
+      400
+    );
+  }
+
+  const refundedThroughStripe = roundCurrency(
+    alreadyRefunded - creditRefundedTotal(order.refunds)
+  );
+  const stripeRemaining = roundCurrency(
+    order.total - order.giftCardAmount - refundedThroughStripe
+  );
+  const stripeAmount = roundCurrency(Math.min(amount, Math.max(stripeRemaining, 0)));
+  const creditAmount = roundCurrency(amount - stripeAmount);
+
+  const paymentIntentId =
+    stripeAmount > 0 ? await findPaymentIntentId(stripe, order) : null;
+  if (stripeAmount > 0 && !paymentIntentId) {
+    throw new CustomError("No Stripe payment found for this order", 400);
+  }
+
+  // Record the refund before calling Stripe so the charge.refunded webhook can
+  // match it, and use its id as the idempotency key
+  const refund = await prisma.refund.create({
+    data: {
+      orderId: order.id,
+      amount,
+      creditAmount,
+      reason: params.reason || null,
+      items: isFullRefund ? Prisma.JsonNull : (lines as unknown as Prisma.InputJsonValue),
+      createdById: params.createdById || null,
+    },
+  });
+
+  let stripeRefund: Stripe.Refund | null = null;
+  if (paymentIntentId) {
+    try {
+      stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: toCents(stripeAmount),
+          metadata: { orderId: order.id, refundId: refund.id },
+        },
+        { idempotencyKey: `refund_${refund.id}` }
+      );
+    } catch (err: any) {
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: "failed", error: err?.message || String(err) },
+      });
+      throw new CustomError(`Stripe refund failed: ${err?.message || err}`, 502);
+    }
+  }
+
+  const restock = params.restock !== false;
+  const status =
+    !stripeRefund || stripeRefund.status === "succeeded" ? "succeeded" : "pending";
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (restock) {
+      await restockLines(tx, order, lines);
+    }
+
+    if (creditAmount > 0) {
+      await refundToGiftCard(tx, order, creditAmount, params.createdById);
+    }
+
+    await transitionOrder(
+      order.id,
+      {
+        paymentStatus: paymentStatusAfterRefund(
+          order.total,
+          roundCurrency(alreadyRefunded + amount)
+        ),
+      },
+      {
+        source: "admin",
+        actorId: params.createdById,
+        note: `Refund of ${formatMoney(amount, order.currency)}`,
+      },
+      { tx }
+    );
+
+    return tx.refund.update({
+      where: { id: refund.id },
+      data: {
+        stripeRefundId: stripeRefund?.id,
+        status,
+        restocked: restock,
+      },
+    });
+  });
+
+  console.log("💸 Refund issued:", {
+    orderId: order.id,
+    refundId: updated.id,
+    stripeRefundId: stripeRefund?.id,
+    amount,
+    creditAmount,
+    isFullRefund,
+    restocked: restock,
+  });
+
+  const customer = customerForOrder(order);
+  if (customer.email) {
+    await sendRefundEmail(customer.email, {
+      orderId: order.id,
+      customerName: customer.name,
+      amount,
+      currency: order.currency,
+      isFullRefund,
+      reason: params.reason,
+      items: isFullRefund
+        ? undefined
+        : lines.map((line) => {
+            const item = order.orderItems.find((i) => i.id === line.orderItemId)!;
+            return { name: itemName(item), quantity: line.quantity, amount: line.amount };
+          }),
+    });
+  }
+
+  return updated;
+};
+
+/**
+ * Sync refunds from a charge.refunded webhook. Refunds issued through the API
+ * are already recorded; ones made elsewhere (e.g. the Stripe dashboard) are
+ * recorded here without restocking, since Stripe doesn't say which items they
+ * cover.
+ */
+export const handleChargeRefunded = async (
+  stripe: Stripe,
+  charge: Stripe.Charge
+) => {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string"
+      ? charge.payment_intent
+      : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    console.warn("⚠️ No payment intent in refunded charge:", charge.id);
+    return;
+  }
+
+  const orderId = await findOrderIdForPaymentIntent(stripe, paymentIntentId, charge.id);
+  if (!orderId) {
+    console.warn("⚠️ No order found for refunded charge:", {
+      chargeId: charge.id,
+      paymentIntentId,
+    });
+    return;
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: orderWithRefundDetails,
+  });
+  if (!order) return;
+
+  // Stripe's running total covers the card payment only. Credit returned to a
+  // gift card counts too, so an order part-paid by gift card stays partially
+  // refunded until both parts are back.
+  const totalRefunded = roundCurrency(
+    charge.amount_refunded / 100 + creditRefundedTotal(order.refunds)
+  );
+  const paymentStatus = paymentStatusAfterRefund(order.total, totalRefunded);
+
+  const stripeRefunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+
+  for (const stripeRefund of stripeRefunds.data) {
+    const status = stripeRefund.status || "pending";
+    const existing = order.refunds.find(
+      (refund) =>
+        refund.stripeRefundId === stripeRefund.id ||
+        refund.id === stripeRefund.metadata?.refundId
+    );
+
+    if (existing) {
+      if (existing.status !== status || !existing.stripeRefundId) {
+        await prisma.refund.update({
+          where: { id: existing.id },
+          data: { status, stripeRefundId: stripeRefund.id },
+        });
+      }
+      continue;
+    }
+
+    const amount = roundCurrency(stripeRefund.amount / 100);
+    await prisma.refund.create({
+      data: {
+        orderId: order.id,
+        stripeRefundId: stripeRefund.id,
+        amount,
+        reason: stripeRefund.reason,
+        status,
+        source: "stripe",
+      },
+    });
+    console.log("💸 Recorded refund made outside the API:", {
+      orderId: order.id,
+      stripeRefundId: stripeRefund.id,
+      amount,
+    });
+
+    const customer = customerForOrder(order);
+    if (customer.email) {
+      await sendRefundEmail(customer.email, {
+        orderId: order.id,
+        customerName: customer.name,
+        amount,
+        currency: order.currency,
+        isFullRefund: paymentStatus === "refunded",
+        reason: stripeRefund.reason,
+      });
+    }
+  }
+
+  await transitionOrder(
+    order.id,
+    { paymentStatus },
+    { source: "webhook", actorLabel: "stripe", note: `Charge ${charge.id} refunded` },
+    { strict: false }
+  );
+};
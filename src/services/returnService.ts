@@ -0,0 +1,338 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getStripe } from "../config/stripe";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendReturnStatusEmail } from "../utils/mailer";
+import { toShippoAddress } from "./fulfillmentService";
+import { packLines } from "./packingService";
+import { refundOrder, restockOrderItem } from "./refundService";
+import { createReturnLabel } from "./shippoService";
+import { toSenderAddress } from "./warehouseService";
+
+const prisma = new PrismaClient();
+
+export const RETURN_STATUSES = ["requested", "approved", "rejected", "received"];
+
+export interface ReturnItemInput {
+  orderItemId: string;
+  quantity: number;
+}
+
+const returnOrderInclude = {
+  orderItems: true,
+  returns: true,
+  warehouse: true,
+  user: { select: { email: true, name: true } },
+} satisfies Prisma.OrderInclude;
+
+type ReturnOrder = Prisma.OrderGetPayload<{ include: typeof returnOrderInclude }>;
+
+const returnItems = (request: { items: Prisma.JsonValue }) =>
+  (request.items as unknown as ReturnItemInput[]) || [];
+
+const customerForOrder = (order: ReturnOrder) => {
+  const address = order.shippingAddress as any;
+  return {
+    email: order.user?.email || order.guestEmail || address?.email || null,
+    name: address?.name || order.user?.name || "Customer",
+  };
+};
+
+/**
+ * Units of each order item that can still be returned: not refunded and not
+ * already part of another (non-rejected) return
+ */
+const returnableQuantities = (order: ReturnOrder) => {
+  const returnable = new Map(
+    order.orderItems.map((item) => [item.id, item.quantity - item.refundedQuantity])
+  );
+
+  for (const request of order.returns) {
+    if (request.status === "rejected") continue;
+    // Refunds that restocked already counted their units in refundedQuantity
+    if (request.refundId && request.restocked) continue;
+    for (const item of returnItems(request)) {
+      returnable.set(item.orderItemId, (returnable.get(item.orderItemId) || 0) - item.quantity);
+    }
+  }
+
+  return returnable;
+};
+
+const loadReturn = async (returnId: string) => {
+  const request = await prisma.returnRequest.findUnique({
+    where: { id: returnId },
+    include: { order: { include: returnOrderInclude } },
+  });
+  if (!request) {
+    throw new CustomError("Return request not found", 404);
+  }
+  return request;
+};
+
+// Move a return to its next status only if nobody else already has
+const claimStatus = async (
+  returnId: string,
+  from: string,
+  data: Prisma.ReturnRequestUncheckedUpdateManyInput
+) => {
+  const claimed = await prisma.returnRequest.updateMany({
+    where: { id: returnId, status: from },
+    data,
+  });
+  if (claimed.count === 0) {
+    throw new CustomError(`Return request is no longer ${from}`, 409);
+  }
+};
+
+/**
+ * Open a return for a delivered order
+ */
+export const createReturnRequest = async (params: {
+  orderId: string;
+  items: ReturnItemInput[];
+  reason: string;
+  notes?: string | null;
+  requestedById?: string | null;
+}) => {
+  const order = await prisma.order.findUnique({
+    where: { id: params.orderId },
+    include: returnOrderInclude,
+  });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+  if (order.shippingStatus !== "delivered") {
+    throw new CustomError("Only delivered orders can be returned", 400);
+  }
+  if (!params.reason?.trim()) {
+    throw new CustomError("A reason for the return is required", 400);
+  }
+  if (!Array.isArray(params.items) || params.items.length === 0) {
+    throw new CustomError("Select at least one item to return", 400);
+  }
+
+  const returnable = returnableQuantities(order);
+  const items = params.items.map((input) => {
+    const quantity = Number(input?.quantity ?? 1);
+    const available = returnable.get(input?.orderItemId);
+    if (available === undefined) {
+      throw new CustomError(`Order item not found: ${input?.orderItemId}`, 400);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > available) {
+      throw new CustomError(
+        `Invalid return quantity for item ${input.orderItemId}. Returnable: ${Math.max(available, 0)}`,
+        400
+      );
+    }
+    returnable.set(input.orderItemId, available - quantity);
+    return { orderItemId: input.orderItemId, quantity };
+  });
+
+  const request = await prisma.returnRequest.create({
+    data: {
+      orderId: order.id,
+      reason: params.reason.trim(),
+      notes: params.notes || null,
+      items: items as unknown as Prisma.InputJsonValue,
+      requestedById: params.requestedById || null,
+    },
+  });
+
+  console.log("↩️ Return requested:", { orderId: order.id, returnId: request.id });
+  return request;
+};
+
+/**
+ * Returns for an order, newest first
+ */
+export const getReturnsForOrder = async (orderId: string) => {
+  return prisma.returnRequest.findMany({
+    where: { orderId },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Approve a return and buy a label from the customer back to the warehouse
+ * the order shipped from
+ */
+export const approveReturn = async (returnId: string, adminId?: string | null) => {
+  const request = await loadReturn(returnId);
+  if (request.status !== "requested") {
+    throw new CustomError(`Cannot approve a return that is ${request.status}`, 400);
+  }
+
+  const order = request.order;
+  const customer = customerForOrder(order);
+  const customerAddress = toShippoAddress(order.shippingAddress, customer.email);
+  if (!customerAddress) {
+    throw new CustomError("Order has no complete shipping address for a return label", 400);
+  }
+
+  const items = returnItems(request);
+  const packed = await packLines(
+    items.map((line) => {
+      const item = order.orderItems.find((i) => i.id === line.orderItemId);
+      return {
+        productId: item?.productId,
+        recipeId: item?.recipeId,
+        flavorIds: item?.flavorIds,
+        quantity: line.quantity,
+      };
+    })
+  );
+
+  let label;
+  try {
+    label = await createReturnLabel({
+      returnId: request.id,
+      customerAddress,
+      returnTo: order.warehouse ? toSenderAddress(order.warehouse) : undefined,
+      parcels: packed.map(({ parcel }) => parcel),
+      preferredCarrier: order.shippingCarrier,
+    });
+  } catch (err: any) {
+    throw new CustomError(err?.message || "Failed to create return label", 502);
+  }
+
+  await claimStatus(request.id, "requested", {
+    status: "approved",
+    reviewedById: adminId || null,
+    reviewedAt: new Date(),
+    labelUrl: label.labelUrl,
+    trackingNumber: label.trackingNumber,
+    trackingUrl: label.trackingUrl,
+    carrier: label.carrier,
+    labelCost: label.cost,
+  });
+
+  if (customer.email) {
+    await sendReturnStatusEmail(customer.email, {
+      orderId: order.id,
+      customerName: customer.name,
+      status: "approved",
+      labelUrl: label.labelUrl,
+      trackingNumber: label.trackingNumber,
+    });
+  }
+
+  return prisma.returnRequest.findUniqueOrThrow({ where: { id: request.id } });
+};
+
+/**
+ * Reject a return request
+ */
+export const rejectReturn = async (
+  returnId: string,
+  reason: string,
+  adminId?: string | null
+) => {
+  const request = await loadReturn(returnId);
+  if (request.status !== "requested") {
+    throw new CustomError(`Cannot reject a return that is ${request.status}`, 400);
+  }
+  if (!reason?.trim()) {
+    throw new CustomError("A reason for rejecting the return is required", 400);
+  }
+
+  await claimStatus(request.id, "requested", {
+    status: "rejected",
+    rejectionReason: reason.trim(),
+    reviewedById: adminId || null,
+    reviewedAt: new Date(),
+  });
+
+  const customer = customerForOrder(request.order);
+  if (customer.email) {
+    await sendReturnStatusEmail(customer.email, {
+      orderId: request.orderId,
+      customerName: customer.name,
+      status: "rejected",
+      rejectionReason: reason.trim(),
+    });
+  }
+
+  return prisma.returnRequest.findUniqueOrThrow({ where: { id: request.id } });
+};
+
+/**
+ * Mark a returned parcel as received. Items go back into stock, and with
+ * `refund` they are refunded through Stripe as well.
+ */
+export const receiveReturn = async (
+  returnId: string,
+  options: { refund?: boolean; restock?: boolean; adminId?: string | null }
+) => {
+  const request = await loadReturn(returnId);
+  if (request.status !== "approved") {
+    throw new CustomError(`Cannot receive a return that is ${request.status}`, 400);
+  }
+
+  const restock = options.restock !== false;
+  const items = returnItems(request);
+
+  if (options.refund) {
+    const stripe = getStripe();
+    if (!stripe) {
+      throw new CustomError("Stripe not configured", 503);
+    }
+
+    // Claim the return first so two requests can't refund it twice
+    await claimStatus(request.id, "approved", {
+      status: "received",
+      receivedAt: new Date(),
+      restocked: restock,
+    });
+
+    try {
+      // The refund restocks the items it covers
+      const refund = await refundOrder(stripe, {
+        orderId: request.orderId,
+        items,
+        reason: `Return ${request.id}: ${request.reason}`,
+        restock,
+        createdById: options.adminId,
+      });
+      await prisma.returnRequest.update({
+        where: { id: request.id },
+        data: { refundId: refund.id },
+      });
+    } catch (err) {
+      // Put the return back so receiving can be retried
+      await prisma.returnRequest.update({
+        where: { id: request.id },
+        data: { status: "approved", receivedAt: null, restocked: false },
+      });
+      throw err;
+    }
+  } else {
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.returnRequest.updateMany({
+        where: { id: request.id, status: "approved" },
+        data: { status: "received", receivedAt: new Date(), restocked: restock },
+      });
+      if (claimed.count === 0) {
+        throw new CustomError("Return request is no longer approved", 409);
+      }
+
+      if (restock) {
+        for (const line of items) {
+          const item = request.order.orderItems.find((i) => i.id === line.orderItemId);
+          if (item) await restockOrderItem(tx, item, line.quantity);
+        }
+      }
+    });
+  }
+
+  console.log("📥 Return received:", {
+    returnId: request.id,
+    orderId: request.orderId,
+    refunded: !!options.refund,
+    restocked: restock,
+  });
+
+  return prisma.returnRequest.findUniqueOrThrow({
+    where: { id: request.id },
+    include: { refund: true },
+  });
+};
@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  generateRefreshToken,
+  generateToken,
+  verifyRefreshToken,
+} from "../utils/jwt";
+
+const prisma = new PrismaClient();
+
+export interface ClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+// Two tabs refreshing at once both present the same token; the slower one
+// should fail quietly rather than look like a stolen token
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const refreshExpiry = () =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const clientData = (client: ClientInfo) => ({
+  userAgent: client.userAgent?.slice(0, 512) || null,
+  ipAddress: client.ipAddress || null,
+});
+
+/**
+ * Start a session for a device that just signed in
+ */
+export const createSession = async (
+  user: { id: string; role: string },
+  client: ClientInfo,
+  options: { mfaVerified?: boolean } = {}
+): Promise<SessionTokens> => {
+  // The token embeds the session id, so the row is created with a throwaway hash first
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashToken(crypto.randomBytes(32).toString("hex")),
+      expiresAt: refreshExpiry(),
+      mfaVerified: options.mfaVerified ?? false,
+      ...clientData(client),
+    },
+  });
+
+  const refreshToken = generateRefreshToken(session.id);
+  await prisma.session.update({
+    where: { id: session.id },
+    data: { refreshTokenHash: hashToken(refreshToken) },
+  });
+
+  return {
+    accessToken: generateToken(user.id, user.role, session.id, session.mfaVerified),
+    refreshToken,
+    sessionId: session.id,
+  };
+};
+
+/**
+ * Record that a signed-in session has now passed two-factor authentication
+ * (after enrolling) and return an access token carrying the claim
+ */
+export const markSessionMfaVerified = async (
+  sessionId: string,
+  user: { id: string; role: string }
+) => {
+  const updated = await prisma.session.updateMany({
+    where: { id: sessionId, userId: user.id, revokedAt: null },
+    data: { mfaVerified: true },
+  });
+  if (updated.count === 0) {
+    throw new CustomError("Session has ended, please log in again", 401);
+  }
+  return generateToken(user.id, user.role, sessionId, true);
+};
+
+const revoke = (sessionId: string, reason: string) =>
+  prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+/**
+ * Trade a refresh token for a new access token and a new refresh token. A
+ * token that was already rotated away means it was copied, so the whole
+ * session is revoked.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<SessionTokens> => {
+  const claims = verifyRefreshToken(refreshToken);
+  if (!claims) {
+    throw new CustomError("Invalid or expired refresh token", 401);
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: claims.sid },
+    include: { user: { select: { id: true, role: true } } },
+  });
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    throw new CustomError("Session has ended, please log in again", 401);
+  }
+
+  const presentedHash = hashToken(refreshToken);
+  if (presentedHash !== session.refreshTokenHash) {
+    const justRotated =
+      presentedHash === session.previousTokenHash &&
+      !!session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (justRotated) {
+      throw new CustomError("Session was refreshed by another request", 409);
+    }
+
+    await revoke(session.id, "reuse_detected");
+    console.warn("🚨 Refresh token reuse detected, session revoked:", {
+      sessionId: session.id,
+      userId: session.userId,
+      ipAddress: client.ipAddress,
+    });
+    throw new CustomError("Session has ended, please log in again", 401);
+  }
+
+  const nextToken = generateRefreshToken(session.id);
+  const now = new Date();
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: presentedHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(),
+      ...clientData(client),
+    },
+  });
+  if (rotated.count === 0) {
+    throw new CustomError("Session was refreshed by another request", 409);
+  }
+
+  return {
+    accessToken: generateToken(
+      session.user.id,
+      session.user.role,
+      session.id,
+      session.mfaVerified
+    ),
+    refreshToken: nextToken,
+    sessionId: session.id,
+  };
+};
+
+/**
+ * End the session a refresh token belongs to (logout). Unknown or invalid
+ * tokens are ignored.
+ */
+export const endSession = async (refreshToken?: string | null) => {
+  const claims = refreshToken ? verifyRefreshToken(refreshToken) : null;
+  if (claims) {
+    await revoke(claims.sid, "logout");
+  }
+};
+
+/**
+ * A user's signed-in devices, most recently used first
+ */
+export const listSessions = (userId: string) =>
+  prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+
+export const revokeSession = async (userId: string, sessionId: string) => {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId, revokedAt: null },
+  });
+  if (!session) {
+    throw new CustomError("Session not found", 404);
+  }
+  await revoke(session.id, "user");
+};
+
+/**
+ * Sign a user out everywhere, optionally keeping the current device
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+) => {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+};
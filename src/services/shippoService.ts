@@ -1,8 +1,17 @@
 import { Shippo } from 'shippo';
 import { PrismaClient } from '../generated/prisma';
+import {
+  normalizeShippoStatus,
+  OrderActor,
+  transitionOrder,
+} from './orderStatusService';
+import { readTrackingUpdate, recordTrackingUpdate } from './trackingService';
+import { notifyTrackingUpdate } from './notificationService';
 
 const prisma = new PrismaClient();
 
+const SHIPPO_ACTOR: OrderActor = { source: 'system', actorLabel: 'shippo' };
+
 // Initialize Shippo client
 function getShippoClient(): Shippo {
   // Use live token for testing since test tokens don't generate real tracking data
@@ -25,8 +34,8 @@ function getShippoClient(): Shippo {
   });
 }
 
-// Default sender address (Landmark Foods LLC)
-const DEFAULT_SENDER_ADDRESS = {
+// Sender address when no warehouses are configured (Landmark Foods LLC)
+export const DEFAULT_SENDER_ADDRESS: SenderAddress = {
   name: 'Nathan ODay',
   company: 'Landmark Foods LLC',
   email: 'landmarkfoods@outlook.com',
@@ -52,9 +61,13 @@ export interface ShippingAddress {
   country: string;
 }
 
+export type SenderAddress = Omit<ShippingAddress, 'company'> & { company: string };
+
 export interface ShipmentData {
   orderId: string;
   toAddress: ShippingAddress;
+  // Ship-from location; defaults to DEFAULT_SENDER_ADDRESS
+  fromAddress?: SenderAddress;
   parcels: Array<{
     length: string;
     width: string;
@@ -120,12 +133,16 @@ export const validateAddress = async (address: ShippingAddress) => {
 };
 
 // Get shipping rates
-export const getShippingRates = async (toAddress: ShippingAddress, parcels: ShipmentData['parcels']) => {
+export const getShippingRates = async (
+  toAddress: ShippingAddress,
+  parcels: ShipmentData['parcels'],
+  fromAddress: SenderAddress = DEFAULT_SENDER_ADDRESS
+) => {
   try {
     const shippo = getShippoClient();
     
     console.log('🚚 Creating Shippo shipment request:', {
-      from: DEFAULT_SENDER_ADDRESS,
+      from: fromAddress,
       to: {
         name: toAddress.name,
         company: toAddress.company || '',
@@ -143,7 +160,7 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
     
     // Create shipment for rate calculation
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: fromAddress,
       addressTo: {
         name: toAddress.name,
         company: toAddress.company || '',
@@ -202,6 +219,31 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
   }
 };
 
+// Look up a single rate by id so the amount the customer selected can be verified server-side
+export const getRate = async (rateId: string) => {
+  try {
+    const shippo = getShippoClient();
+    const rate: any = await shippo.rates.get(rateId);
+
+    return {
+      objectId: rate.objectId,
+      serviceName: rate.servicelevel?.name || rate.servicelevelName || 'Standard Shipping',
+      serviceToken: rate.servicelevel?.token || rate.servicelevelToken || '',
+      carrier: rate.provider || 'USPS',
+      amount: parseFloat(rate.amount || '0'),
+      currency: rate.currency || 'USD',
+      estimatedDays: rate.estimatedDays || 3,
+    };
+  } catch (error: any) {
+    console.error('❌ Shipping rate lookup error:', {
+      rateId,
+      message: error.message,
+      status: error.status,
+    });
+    throw new Error('Failed to get shipping rate');
+  }
+};
+
 // Create shipment and purchase label
 export const createShipment = async (
   shipmentData: ShipmentData, 
@@ -228,7 +270,7 @@ export const createShipment = async (
     
     // Create shipment with proper configuration for USPS compatibility
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: shipmentData.fromAddress || DEFAULT_SENDER_ADDRESS,
       addressTo: {
         name: shipmentData.toAddress.name,
         company: shipmentData.toAddress.company || '',
@@ -425,19 +467,23 @@ export const createShipment = async (
     });
 
     // Update order with shipment data
-    await prisma.order.update({
-      where: { id: shipmentData.orderId },
-      data: {
-        shipmentId: transaction.objectId,
-        trackingNumber: trackingNumber,
-        trackingUrl: trackingUrl,
-        shippingLabelUrl: labelUrl,
-        shippingStatus: 'label_created',
-        shippingCarrier: carrier,
-        shippingService: service,
-        shippingCost: cost,
-      },
-    });
+    await transitionOrder(
+      shipmentData.orderId,
+      { shippingStatus: 'label_created' },
+      SHIPPO_ACTOR,
+      {
+        strict: false,
+        data: {
+          shipmentId: transaction.objectId,
+          trackingNumber: trackingNumber,
+          trackingUrl: trackingUrl,
+          shippingLabelUrl: labelUrl,
+          shippingCarrier: carrier,
+          shippingService: service,
+          shippingCost: cost,
+        },
+      }
+    );
 
     return {
       shipmentId: transaction.objectId,
@@ -466,7 +512,7 @@ export const createShipment = async (
       }
     });
     
-    throw new Error('Failed to create shipment');
+    throw new Error(`Failed to create shipment: ${error?.message || 'Unknown error'}`);
   }
 };
 
@@ -492,6 +538,90 @@ export const getShipmentStatus = async (shipmentId: string) => {
   }
 };
 
+// Buy a return label: the customer's address becomes the sender and our
+// warehouse the recipient. Does not touch the order's outbound shipment.
+export const createReturnLabel = async (params: {
+  returnId: string;
+  customerAddress: ShippingAddress;
+  returnTo?: SenderAddress;
+  parcels: ShipmentData['parcels'];
+  preferredCarrier?: string | null;
+}) => {
+  try {
+    const shippo = getShippoClient();
+    const returnTo = params.returnTo || DEFAULT_SENDER_ADDRESS;
+
+    const shipment = await shippo.shipments.create({
+      addressFrom: {
+        name: params.customerAddress.name,
+        company: params.customerAddress.company || '',
+        street1: params.customerAddress.street1,
+        street2: params.customerAddress.street2 || '',
+        city: params.customerAddress.city,
+        state: params.customerAddress.state,
+        zip: params.customerAddress.zip,
+        country: params.customerAddress.country,
+        email: params.customerAddress.email,
+        phone: params.customerAddress.phone || '',
+      },
+      addressTo: returnTo,
+      parcels: params.parcels,
+      extra: {
+        bypassAddressValidation: true
+      },
+      metadata: `Return ${params.returnId}`,
+    });
+
+    const rates: any[] = shipment.rates || [];
+    if (rates.length === 0) {
+      throw new Error('No return shipping rates available');
+    }
+
+    // Prefer the carrier the order went out with, then the cheapest rate
+    const byPrice = [...rates].sort((a, b) => parseFloat(a.amount) - parseFloat(b.amount));
+    const rate =
+      byPrice.find((r) => params.preferredCarrier && r.provider === params.preferredCarrier) ||
+      byPrice[0];
+
+    let transaction = await shippo.transactions.create({
+      rate: rate.objectId,
+      labelFileType: 'PDF',
+      metadata: `Return ${params.returnId}`,
+    });
+
+    if (transaction.status === 'QUEUED' && transaction.objectId) {
+      await new Promise(resolve => setTimeout(resolve, 3000));
+      transaction = await shippo.transactions.get(transaction.objectId);
+    }
+
+    if (transaction.status !== 'SUCCESS' || !transaction.trackingNumber) {
+      const errorMessage = transaction.messages?.map(m => `${m.source}: ${m.text}`).join('; ') || transaction.status;
+      throw new Error(`Shippo return transaction failed: ${errorMessage}`);
+    }
+
+    console.log('↩️ Return label created:', {
+      returnId: params.returnId,
+      carrier: rate.provider,
+      trackingNumber: transaction.trackingNumber,
+    });
+
+    return {
+      transactionId: transaction.objectId,
+      labelUrl: transaction.labelUrl || '',
+      trackingNumber: transaction.trackingNumber,
+      trackingUrl: transaction.trackingUrlProvider || `https://goshippo.com/track/${transaction.trackingNumber}`,
+      carrier: rate.provider as string,
+      cost: parseFloat(rate.amount || '0'),
+    };
+  } catch (error: any) {
+    console.error('❌ Return label creation failed:', {
+      returnId: params.returnId,
+      error: error?.message,
+    });
+    throw new Error(`Failed to create return label: ${error?.message || 'Unknown error'}`);
+  }
+};
+
 // Handle webhook events
 export const handleWebhookEvent = async (eventType: string, data: any) => {
   try {
@@ -516,35 +646,75 @@ export const handleWebhookEvent = async (eventType: string, data: any) => {
   }
 };
 
+// Move every order matching the webhook through the state machine
+const transitionShippingStatus = async (
+  where: { shipmentId: string } | { trackingNumber: string },
+  shippingStatus: string | null,
+  note: string
+) => {
+  if (!shippingStatus) return;
+
+  // An undefined filter would match every order
+  if (!Object.values(where).every(Boolean)) {
+    console.warn(`⚠️ Shippo webhook without a shipment or tracking number (${note}), skipped`);
+    return;
+  }
+
+  const orders = await prisma.order.findMany({ where, select: { id: true } });
+  for (const order of orders) {
+    await transitionOrder(
+      order.id,
+      { shippingStatus },
+      { ...SHIPPO_ACTOR, source: 'webhook', note },
+      { strict: false }
+    );
+  }
+};
+
 const handleTransactionCreated = async (data: any) => {
   // Transaction created - label is ready
-  await prisma.order.updateMany({
-    where: { shipmentId: data.objectId },
-    data: {
-      shippingStatus: 'label_created',
-      updatedAt: new Date(),
-    },
-  });
+  await transitionShippingStatus(
+    { shipmentId: data.objectId || data.object_id },
+    'label_created',
+    'transaction.created'
+  );
 };
 
 const handleTransactionUpdated = async (data: any) => {
   // Transaction updated - status changed
-  await prisma.order.updateMany({
-    where: { shipmentId: data.objectId },
-    data: {
-      shippingStatus: data.status || 'unknown',
-      updatedAt: new Date(),
-    },
-  });
+  await transitionShippingStatus(
+    { shipmentId: data.objectId || data.object_id },
+    normalizeShippoStatus(data.status),
+    `transaction.updated: ${data.status}`
+  );
 };
 
 const handleTrackUpdated = async (data: any) => {
-  // Tracking updated - delivery status changed
-  await prisma.order.updateMany({
-    where: { trackingNumber: data.trackingNumber },
-    data: {
-      shippingStatus: data.status || 'in_transit',
-      updatedAt: new Date(),
-    },
+  // Tracking updated - store the timeline, then move the order's delivery status
+  const parsed = readTrackingUpdate(data);
+  if (!parsed.trackingNumber) {
+    console.warn('⚠️ track.updated webhook without a tracking number, skipped:', {
+      status: parsed.current?.status || data?.status,
+    });
+    return;
+  }
+
+  const update = await recordTrackingUpdate(data);
+  const status = update.current?.status || data.status;
+
+  await transitionShippingStatus(
+    { trackingNumber: parsed.trackingNumber },
+    normalizeShippoStatus(status),
+    `track.updated: ${status}`
+  );
+
+  // Let the customer know, once per order and status
+  await notifyTrackingUpdate({
+    trackingNumber: update.trackingNumber,
+    carrier: update.carrier,
+    status,
+    substatus: update.current?.substatus,
+    statusDetails: update.current?.statusDetails,
+    eventKey: update.current?.objectId,
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,519 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendOrderConfirmationEmail } from "../utils/mailer";
+import { completeCheckout, releaseCheckout } from "./checkoutService";
+import { toCents } from "./pricingService";
+import { handleChargeRefunded } from "./refundService";
+import { OrderActor, transitionOrder } from "./orderStatusService";
+import { fulfillNow } from "./fulfillmentService";
+import { consumeOrderItemStock } from "./inventoryReservationService";
+import { syncDispute } from "./disputeService";
+import {
+  definedPaymentIds,
+  findOrderIdByPayment,
+  paymentIdsFromSession,
+} from "./paymentDetailsService";
+import {
+  activateSubscriptionFromCheckout,
+  checkRenewalInvoice,
+  handleInvoicePaid,
+  syncSubscription,
+} from "./subscriptionService";
+import { fulfillGiftCardPurchase, GIFT_CARD_PURCHASE } from "./giftCardService";
+
+const prisma = new PrismaClient();
+
+// An event left in "processing" this long is assumed to belong to a crashed
+// delivery and may be claimed again
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const STRIPE_ACTOR: OrderActor = { source: "webhook", actorLabel: "stripe" };
+
+export interface WebhookResult {
+  skipped?: boolean;
+  orderCreated?: boolean;
+  orderId?: string;
+}
+
+/**
+ * Mark an existing unpaid order paid and take its items out of stock in one
+ * transaction. Every path that learns an order was paid goes through here.
+ * Only the call that actually moves it to paid takes the stock (and reports
+ * `paid: true`), so a later webhook or reconciliation run can't take it twice.
+ */
+export const markExistingOrderPaid = (
+  orderId: string,
+  actor: OrderActor,
+  data: Prisma.OrderUpdateManyMutationInput
+) =>
+  prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: { orderItems: true },
+    });
+
+    const updated = await transitionOrder(
+      orderId,
+      { paymentStatus: "paid", status: "confirmed" },
+      actor,
+      { strict: false, data, tx }
+    );
+
+    const paid = order.paymentStatus !== "paid" && updated.paymentStatus === "paid";
+    if (paid) {
+      for (const item of order.orderItems) {
+        await consumeOrderItemStock(tx, item, item.quantity);
+      }
+      console.log("📦 Inventory decremented for paid order:", {
+        orderId,
+        items: order.orderItems.length,
+      });
+    }
+
+    return { order: updated, paid };
+  });
+
+/**
+ * Apply a verified Stripe event to orders, inventory and shipments
+ */
+const handleStripeEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<WebhookResult> => {
+  const startTime = Date.now();
+
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object as Stripe.Checkout.Session;
+    
+    // Retrieve the full session to get shipping details
+    // The webhook event payload doesn't include shipping_details by default
+    const fullSession = await stripe.checkout.sessions.retrieve(session.id, {
+      expand: ['line_items', 'payment_intent']
+    });
+    
+    const orderId = fullSession.metadata?.orderId;
+    const isRetry = fullSession.metadata?.isRetry === "true";
+
+    console.log("💳 Processing checkout.session.completed:", {
+      sessionId: fullSession.id,
+      orderId,
+      isRetry,
+      paymentStatus: fullSession.payment_status,
+      amountTotal: fullSession.amount_total,
+      currency: fullSession.currency,
+      customerEmail: fullSession.customer_details?.email,
+      paymentIntentId: fullSession.payment_intent,
+      hasShippingDetails: !!(fullSession as any).shipping_details,
+      hasShippingCost: !!(fullSession as any).shipping_cost,
+    });
+
+    if (fullSession.mode === "subscription") {
+      // Subscription orders are created per paid invoice, not per session
+      await activateSubscriptionFromCheckout(stripe, fullSession);
+      return {};
+    }
+
+    if (fullSession.metadata?.type === GIFT_CARD_PURCHASE) {
+      await fulfillGiftCardPurchase(fullSession);
+      return {};
+    }
+
+    if (orderId) {
+      console.log(`🔍 Looking up order: ${orderId}`);
+      // Verify the order exists
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
+      });
+
+      if (!existingOrder) {
+        console.error("❌ Order not found for webhook:", orderId);
+        throw new CustomError("Order not found", 404);
+      }
+
+      console.log("📋 Found existing order:", {
+        orderId: existingOrder.id,
+        currentStatus: existingOrder.status,
+        currentPaymentStatus: existingOrder.paymentStatus,
+        currentTotal: existingOrder.total,
+        createdAt: existingOrder.createdAt,
+      });
+
+      // Handle existing order updates (for retry payments)
+      const shippingDetails: any = (fullSession as any).shipping_details || null;
+      const customerDetails: any = (fullSession as any).customer_details || null;
+
+      const updateData: any = definedPaymentIds(paymentIdsFromSession(fullSession));
+
+      // Order.total is computed on the server and never overwritten from
+      // Stripe, which charges what the gift card didn't cover
+      const amountDue = existingOrder.total - existingOrder.giftCardAmount;
+      if (fullSession.amount_total && fullSession.amount_total !== toCents(amountDue)) {
+        console.warn("⚠️ Stripe amount differs from order total:", {
+          orderTotal: existingOrder.total,
+          giftCardAmount: existingOrder.giftCardAmount,
+          stripeAmount: fullSession.amount_total,
+        });
+      }
+
+      // Only update shipping address if we have new data
+      if (shippingDetails || customerDetails) {
+        updateData.shippingAddress = shippingDetails || customerDetails;
+        console.log("📦 Updating shipping address:", {
+          hasShippingDetails: !!shippingDetails,
+          hasCustomerDetails: !!customerDetails,
+        });
+      }
+
+      console.log("🔄 Updating order with data:", updateData);
+
+      // Retry payments hold no reservation, so the order's items come out of
+      // stock here, in the same transaction that marks it paid
+      const { order: updatedOrder, paid } = await markExistingOrderPaid(
+        orderId,
+        STRIPE_ACTOR,
+        updateData
+      );
+
+      console.log("✅ Order updated successfully:", {
+        orderId,
+        oldStatus: existingOrder.status,
+        oldPaymentStatus: existingOrder.paymentStatus,
+        newStatus: updatedOrder.status,
+        newPaymentStatus: updatedOrder.paymentStatus,
+        processingTime: Date.now() - startTime + "ms",
+      });
+
+      // Buy the label (queued when the order became paid) BEFORE the email so
+      // it can include tracking; the fulfillment worker retries failures
+      const retryShippingDetails = await fulfillNow(orderId);
+
+      // Send order confirmation email for retry payment with shipping details,
+      // once: not when charge.updated or a sync already marked the order paid
+      try {
+        const customerEmail = fullSession.customer_details?.email;
+        if (customerEmail && paid) {
+          // Fetch order items for email
+          const orderWithItems = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: { orderItems: true },
+          });
+
+          if (orderWithItems) {
+            const shippingAddr = updatedOrder.shippingAddress as any;
+            
+            // Fetch product names for order items
+            const retryItemsWithNames = await Promise.all(
+              orderWithItems.orderItems.map(async (item: any) => {
+                if (item.customPackName) {
+                  return {
+                    name: item.customPackName,
+                    quantity: item.quantity,
+                    price: item.price,
+                  };
+                }
+                
+                // Fetch product name from database
+                try {
+                  const product = await prisma.product.findUnique({
+                    where: { id: item.productId },
+                    select: { name: true },
+                  });
+                  
+                  return {
+                    name: product?.name || `Product #${item.productId}`,
+                    quantity: item.quantity,
+                    price: item.price,
+                  };
+                } catch (err) {
+                  console.error(`Error fetching product name for ${item.productId}:`, err);
+                  return {
+                    name: `Product #${item.productId}`,
+                    quantity: item.quantity,
+                    price: item.price,
+                  };
+                }
+              })
+            );
+            
+            await sendOrderConfirmationEmail(customerEmail, {
+              orderId: updatedOrder.id,
+              customerName: shippingAddr?.name || 'Customer',
+              total: updatedOrder.total,
+              currency: updatedOrder.currency,
+              items: retryItemsWithNames,
+              shippingAddress: {
+                street1: shippingAddr?.street1 || '',
+                city: shippingAddr?.city || '',
+                state: shippingAddr?.state || '',
+                zip: shippingAddr?.zip || '',
+                country: shippingAddr?.country || '',
+              },
+              shippingDetails: retryShippingDetails,
+            });
+            console.log("📧 Order confirmation email sent for retry payment with shipping details");
+          }
+        }
+      } catch (emailError) {
+        console.error("❌ Error sending order confirmation email:", emailError);
+        // Don't fail the order update if email fails
+      }
+    } else {
+      // Create new order from the persisted checkout record (ONLY after successful payment)
+      console.log("🆕 Creating order from checkout record - PAYMENT SUCCESSFUL");
+
+      const result = await completeCheckout(fullSession);
+      return { orderCreated: result.created, orderId: result.orderId };
+    }
+  } else if (event.type === "payment_intent.payment_failed") {
+    const pi = event.data.object as Stripe.PaymentIntent;
+    const orderId = (pi.metadata as any)?.orderId;
+    
+    console.log("💥 Processing payment_intent.payment_failed:", {
+      paymentIntentId: pi.id,
+      orderId,
+      failureReason: pi.last_payment_error?.message,
+    });
+
+    // If this is an existing order (retry payment), mark it as failed
+    if (orderId) {
+      try {
+      await transitionOrder(
+        orderId,
+        { paymentStatus: "failed" },
+        { ...STRIPE_ACTOR, note: pi.last_payment_error?.message },
+        { strict: false }
+      );
+        console.log("❌ Order marked as failed:", orderId);
+      } catch (updateError) {
+        console.error("❌ Failed to update order:", updateError);
+      }
+    } else {
+      console.log("ℹ️ No order to update - order was not created yet (as expected)");
+
+      // Give back the stock held for the checkout this payment belonged to
+      const sessions = await stripe.checkout.sessions.list({
+        payment_intent: pi.id,
+        limit: 1,
+      });
+      if (sessions.data[0]) {
+        await releaseCheckout(sessions.data[0].id, "payment_failed");
+      }
+    }
+  } else if (event.type === "charge.refunded") {
+    const charge = event.data.object as Stripe.Charge;
+
+    console.log("💸 Processing charge.refunded:", {
+      chargeId: charge.id,
+      amountRefunded: charge.amount_refunded,
+      paymentIntentId: charge.payment_intent,
+    });
+
+    await handleChargeRefunded(stripe, charge);
+  } else if (event.type === "invoice.paid") {
+    const invoice = event.data.object as Stripe.Invoice;
+
+    console.log("🧾 Processing invoice.paid:", {
+      invoiceId: invoice.id,
+      billingReason: invoice.billing_reason,
+      amountPaid: invoice.amount_paid,
+    });
+
+    const result = await handleInvoicePaid(stripe, invoice);
+    return { orderCreated: result.created, orderId: result.orderId };
+  } else if (event.type === "invoice.created") {
+    const invoice = event.data.object as Stripe.Invoice;
+
+    console.log("🧾 Processing invoice.created:", {
+      invoiceId: invoice.id,
+      billingReason: invoice.billing_reason,
+      status: invoice.status,
+    });
+
+    await checkRenewalInvoice(stripe, invoice);
+  } else if (
+    event.type === "customer.subscription.updated" ||
+    event.type === "customer.subscription.deleted"
+  ) {
+    const subscription = event.data.object as Stripe.Subscription;
+
+    console.log(`🔁 Processing ${event.type}:`, {
+      stripeSubscriptionId: subscription.id,
+      status: subscription.status,
+    });
+
+    await syncSubscription(subscription);
+  } else if (event.type === "checkout.session.expired") {
+    const session = event.data.object as Stripe.Checkout.Session;
+
+    console.log("⌛ Processing checkout.session.expired:", {
+      sessionId: session.id,
+      orderId: session.metadata?.orderId,
+    });
+
+    await releaseCheckout(session.id, "expired");
+  } else if (event.type === "charge.updated") {
+    const charge = event.data.object as Stripe.Charge;
+    
+    console.log("⚡ Processing charge.updated:", {
+      chargeId: charge.id,
+      amount: charge.amount,
+      status: charge.status,
+      paid: charge.paid,
+      paymentIntentId: charge.payment_intent,
+      currency: charge.currency,
+      created: new Date(charge.created * 1000).toISOString(),
+    });
+
+    const paymentIntentId =
+      typeof charge.payment_intent === "string"
+        ? charge.payment_intent
+        : charge.payment_intent?.id || null;
+    const orderId = await findOrderIdByPayment({ chargeId: charge.id, paymentIntentId });
+
+    if (orderId) {
+      console.log(`📋 Found order for charge: ${orderId}`);
+
+      if (charge.status === "succeeded" && charge.paid) {
+        console.log(`🔄 Updating order from charge.updated: ${orderId}`);
+        await markExistingOrderPaid(
+          orderId,
+          STRIPE_ACTOR,
+          definedPaymentIds({ chargeId: charge.id, paymentIntentId })
+        );
+        console.log("✅ Order updated from charge.updated:", {
+          orderId,
+          chargeId: charge.id,
+          status: "confirmed",
+          processingTime: Date.now() - startTime + "ms",
+        });
+      } else {
+        console.log("ℹ️ Charge not succeeded, skipping order update:", {
+          chargeStatus: charge.status,
+          chargePaid: charge.paid,
+        });
+      }
+    } else {
+      console.warn("⚠️ No order found for charge:", {
+        chargeId: charge.id,
+        paymentIntentId,
+      });
+    }
+  } else if (
+    event.type === "charge.dispute.created" ||
+    event.type === "charge.dispute.updated" ||
+    event.type === "charge.dispute.closed"
+  ) {
+    const dispute = event.data.object as Stripe.Dispute;
+
+    console.log(`⚖️ Processing ${event.type}:`, {
+      disputeId: dispute.id,
+      chargeId: dispute.charge,
+      status: dispute.status,
+      reason: dispute.reason,
+    });
+
+    const record = await syncDispute(dispute);
+    return record.orderId ? { orderId: record.orderId } : {};
+  } else {
+    console.log("ℹ️ Unhandled webhook event type:", {
+      type: event.type,
+      id: event.id,
+      created: new Date(event.created * 1000).toISOString(),
+    });
+  }
+
+  return {};
+};
+
+/**
+ * Claim an event for processing. Returns false when it was already processed
+ * or another delivery of the same event is being processed right now.
+ */
+const claimEvent = async (event: Stripe.Event, force: boolean) => {
+  await prisma.webhookEvent.upsert({
+    where: { stripeEventId: event.id },
+    create: {
+      stripeEventId: event.id,
+      type: event.type,
+      payload: event as unknown as Prisma.InputJsonValue,
+    },
+    update: {},
+  });
+
+  const claimable: Prisma.WebhookEventWhereInput[] = [
+    { status: { in: ["received", "failed"] } },
+    {
+      status: "processing",
+      updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+    },
+  ];
+  if (force) claimable.push({ status: "processing" });
+
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: { stripeEventId: event.id, OR: claimable },
+    data: { status: "processing", attempts: { increment: 1 }, error: null },
+  });
+
+  return claimed.count > 0;
+};
+
+/**
+ * Process a Stripe event at most once, recording the outcome in the
+ * WebhookEvent ledger. Failed events are kept so they can be reprocessed.
+ */
+export const processStripeEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event,
+  options: { force?: boolean } = {}
+): Promise<WebhookResult> => {
+  const claimed = await claimEvent(event, !!options.force);
+  if (!claimed) {
+    console.log("⏭️ Webhook event already handled, skipping:", {
+      eventId: event.id,
+      type: event.type,
+    });
+    return { skipped: true };
+  }
+
+  try {
+    const result = await handleStripeEvent(stripe, event);
+
+    await prisma.webhookEvent.update({
+      where: { stripeEventId: event.id },
+      data: { status: "processed", processedAt: new Date() },
+    });
+
+    return result;
+  } catch (err) {
+    await prisma.webhookEvent
+      .update({
+        where: { stripeEventId: event.id },
+        data: {
+          status: "failed",
+          error: err instanceof Error ? err.message : String(err),
+        },
+      })
+      .catch((ledgerError) =>
+        console.error("❌ Failed to record webhook failure:", ledgerError)
+      );
+    throw err;
+  }
+};
+
+/**
+ * Run a stored event through the handler again (admin). Processed events are
+ * never replayed, so reprocessing cannot create a second order or email.
+ */
+export const reprocessWebhookEvent = async (stripe: Stripe, id: string) => {
+  const record = await prisma.webhookEvent.findUnique({ where: { id } });
+  if (!record) {
+    throw new CustomError("Webhook event not found", 404);
+  }
+  if (record.status === "processed") {
+    throw new CustomError("Webhook event was already processed", 409);
+  }
+
+  const event = record.payload as unknown as Stripe.Event;
+  return processStripeEvent(stripe, event, { force: true });
+};
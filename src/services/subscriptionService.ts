@@ -0,0 +1,702 @@
+import Stripe from "stripe";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendOrderConfirmationEmail } from "../utils/mailer";
+import {
+  PricedLine,
+  PricingError,
+  priceOrderLines,
+  roundCurrency,
+  SelectedShippingRate,
+  toCents,
+  verifyShippingRate,
+} from "./pricingService";
+import { ShippingAddress } from "./shippoService";
+import { normalizeCheckoutAddress } from "./checkoutService";
+import { consumeStock } from "./inventoryReservationService";
+import { recordOrderCreated } from "./orderStatusService";
+import { enqueueFulfillment, fulfillNow } from "./fulfillmentService";
+import { paymentIdsFromInvoice } from "./paymentDetailsService";
+import { fromUsd, getPriceCurrency, PriceCurrency, resolveCurrency, USD } from "./currencyService";
+import { calculateTax } from "./taxService";
+
+const prisma = new PrismaClient();
+
+// Statuses in which the customer can still change the subscription
+const MANAGEABLE_STATUSES = ["active", "paused", "past_due"];
+
+type SubscriptionRecord = Prisma.SubscriptionGetPayload<{}>;
+
+/**
+ * The Stripe subscription an invoice bills for. Newer API versions moved it
+ * under `parent.subscription_details`.
+ */
+const subscriptionIdForInvoice = (invoice: Stripe.Invoice): string | null => {
+  const subscription =
+    invoice.parent?.subscription_details?.subscription ??
+    (invoice as any).subscription;
+  if (!subscription) return null;
+  return typeof subscription === "string" ? subscription : subscription.id;
+};
+
+/**
+ * End of the subscription's current billing period. Newer API versions only
+ * report it per subscription item.
+ */
+const periodEndOf = (subscription: Stripe.Subscription): Date | null => {
+  const periodEnd =
+    (subscription as any).current_period_end ??
+    subscription.items?.data[0]?.current_period_end;
+  return periodEnd ? new Date(periodEnd * 1000) : null;
+};
+
+/**
+ * Map a Stripe subscription onto our status values. A subscription whose
+ * collection is paused is still "active" in Stripe.
+ */
+const statusFromStripe = (subscription: Stripe.Subscription): string => {
+  if (subscription.status === "canceled") return "canceled";
+  if (subscription.pause_collection && !subscription.pause_collection.resumes_at) {
+    return "paused";
+  }
+  switch (subscription.status) {
+    case "active":
+    case "trialing":
+      return "active";
+    case "past_due":
+    case "unpaid":
+      return "past_due";
+    case "paused":
+      return "paused";
+    default:
+      return "incomplete";
+  }
+};
+
+/**
+ * The single pack line a subscription delivers each period
+ */
+const lineForSubscription = (subscription: SubscriptionRecord) => ({
+  productId: subscription.productId,
+  recipeId: subscription.recipeId,
+  flavorIds: subscription.recipeId ? [] : subscription.flavorIds,
+  customPackName: subscription.customPackName,
+  quantity: subscription.quantity,
+});
+
+/**
+ * Price a subscription pack from the catalog. Only recipe and custom flavor
+ * packs can be subscribed to.
+ */
+const pricePack = async (
+  input: {
+    productId?: string | null;
+    recipeId?: string | null;
+    flavorIds?: string[] | null;
+    customPackName?: string | null;
+    quantity?: number | string | null;
+  },
+  price: PriceCurrency = USD
+): Promise<PricedLine> => {
+  if (!input.recipeId && !(Array.isArray(input.flavorIds) && input.flavorIds.length > 0)) {
+    throw new PricingError("A pack recipe or custom pack flavors are required");
+  }
+
+  const [line] = await priceOrderLines([
+    {
+      productId: input.productId || "3-pack",
+      recipeId: input.recipeId,
+      flavorIds: input.recipeId ? [] : input.flavorIds,
+      customPackName: input.customPackName,
+      quantity: input.quantity ?? 1,
+    },
+  ], price);
+  return line;
+};
+
+/**
+ * The pack line a renewal delivers, from the subscription as stored. No
+ * catalog checks: those happen before the invoice is charged.
+ */
+const snapshotLine = async (subscription: SubscriptionRecord): Promise<PricedLine> => {
+  const recipe = subscription.recipeId
+    ? await prisma.packRecipe.findUnique({
+        where: { id: subscription.recipeId },
+        select: { title: true },
+      })
+    : null;
+
+  return {
+    ...lineForSubscription(subscription),
+    name: recipe?.title || subscription.customPackName || "Subscription pack",
+    unitPrice: subscription.unitPrice,
+    total: roundCurrency(subscription.unitPrice * subscription.quantity),
+  };
+};
+
+/**
+ * Start a subscription: record it as incomplete and open a Stripe Checkout
+ * session in subscription mode. It becomes active once Checkout completes.
+ */
+export const createSubscriptionCheckout = async (
+  stripe: Stripe,
+  params: {
+    userId: string;
+    email?: string | null;
+    productId?: string | null;
+    recipeId?: string | null;
+    flavorIds?: string[] | null;
+    customPackName?: string | null;
+    quantity?: number | string | null;
+    currency?: string | null;
+    shippingAddress: any;
+    selectedShippingRate?: SelectedShippingRate | null;
+    successUrl?: string;
+    cancelUrl?: string;
+  }
+) => {
+  const shippingAddress = normalizeCheckoutAddress(params.shippingAddress);
+  if (!shippingAddress || !shippingAddress.street1 || !shippingAddress.zip) {
+    throw new CustomError("A complete shipping address is required", 400);
+  }
+
+  // Billed in the requested currency or the shipping country's, with the
+  // ship-to address's tax added to every period
+  const currency = resolveCurrency({
+    currency: params.currency,
+    country: shippingAddress.country,
+  });
+  if (!currency) {
+    throw new PricingError(`Unsupported currency: ${params.currency}`);
+  }
+  const price = await getPriceCurrency(currency);
+
+  const line = await pricePack(params, price);
+  const shippingRate = await verifyShippingRate(params.selectedShippingRate);
+  const shippingCost = shippingRate ? fromUsd(shippingRate.amount, price) : 0;
+  const tax = await calculateTax({
+    address: { state: shippingAddress.state, country: shippingAddress.country },
+    itemsAmount: line.total,
+    shipping: shippingCost,
+    currency,
+  });
+
+  const subscription = await prisma.subscription.create({
+    data: {
+      userId: params.userId,
+      productId: line.productId || "3-pack",
+      recipeId: line.recipeId,
+      flavorIds: line.recipeId ? [] : line.flavorIds,
+      customPackName: line.customPackName,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      shippingCost,
+      taxAmount: tax.amount,
+      taxBreakdown: tax.breakdown as unknown as Prisma.InputJsonValue,
+      currency,
+      fxRate: price.fxRate,
+      shippingAddress: shippingAddress as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency,
+        product_data: { name: `${line.name} (monthly)` },
+        unit_amount: toCents(line.unitPrice),
+        recurring: { interval: "month" },
+      },
+      quantity: line.quantity,
+    },
+  ];
+
+  // Shipping is billed every period at the rate chosen when subscribing
+  if (shippingCost > 0) {
+    line_items.push({
+      price_data: {
+        currency,
+        product_data: { name: "Shipping" },
+        unit_amount: toCents(shippingCost),
+        recurring: { interval: "month" },
+      },
+      quantity: 1,
+    });
+  }
+
+  if (tax.amount > 0) {
+    line_items.push({
+      price_data: {
+        currency,
+        product_data: { name: "Sales tax" },
+        unit_amount: toCents(tax.amount),
+        recurring: { interval: "month" },
+      },
+      quantity: 1,
+    });
+  }
+
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await stripe.checkout.sessions.create({
+      mode: "subscription",
+      line_items,
+      customer_email: params.email || shippingAddress.email || undefined,
+      success_url:
+        params.successUrl ||
+        `${process.env.CLIENT_URL}/subscriptions/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: params.cancelUrl || `${process.env.CLIENT_URL}/subscriptions`,
+      metadata: { subscriptionId: subscription.id },
+      subscription_data: { metadata: { subscriptionId: subscription.id } },
+    });
+  } catch (err) {
+    await prisma.subscription.delete({ where: { id: subscription.id } });
+    throw err;
+  }
+
+  await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { stripeCheckoutSessionId: session.id },
+  });
+
+  return { subscriptionId: subscription.id, url: session.url };
+};
+
+/**
+ * Link a completed subscription-mode Checkout session to its subscription
+ */
+export const activateSubscriptionFromCheckout = async (
+  stripe: Stripe,
+  session: Stripe.Checkout.Session
+) => {
+  const subscriptionId = session.metadata?.subscriptionId;
+  const stripeSubscriptionId =
+    typeof session.subscription === "string"
+      ? session.subscription
+      : session.subscription?.id;
+
+  if (!subscriptionId || !stripeSubscriptionId) {
+    console.warn("⚠️ Subscription checkout without subscription details:", session.id);
+    return;
+  }
+
+  const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+
+  await prisma.subscription.update({
+    where: { id: subscriptionId },
+    data: {
+      stripeSubscriptionId,
+      stripeCustomerId:
+        typeof session.customer === "string" ? session.customer : session.customer?.id,
+      status: statusFromStripe(stripeSubscription),
+      currentPeriodEnd: periodEndOf(stripeSubscription),
+    },
+  });
+
+  console.log("🔁 Subscription activated:", { subscriptionId, stripeSubscriptionId });
+};
+
+/**
+ * Keep our copy of a subscription in sync with customer.subscription.* events
+ */
+export const syncSubscription = async (stripeSubscription: Stripe.Subscription) => {
+  const where = stripeSubscription.metadata?.subscriptionId
+    ? { id: stripeSubscription.metadata.subscriptionId }
+    : { stripeSubscriptionId: stripeSubscription.id };
+
+  const status = statusFromStripe(stripeSubscription);
+  const result = await prisma.subscription.updateMany({
+    where,
+    data: {
+      stripeSubscriptionId: stripeSubscription.id,
+      status,
+      currentPeriodEnd: periodEndOf(stripeSubscription),
+      cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+      skipUntil: stripeSubscription.pause_collection?.resumes_at
+        ? new Date(stripeSubscription.pause_collection.resumes_at * 1000)
+        : null,
+      canceledAt:
+        status === "canceled" && stripeSubscription.canceled_at
+          ? new Date(stripeSubscription.canceled_at * 1000)
+          : undefined,
+    },
+  });
+
+  if (result.count === 0) {
+    console.warn("⚠️ No subscription found for Stripe subscription:", stripeSubscription.id);
+  }
+};
+
+/**
+ * Check a renewal's pack can still be sold while its invoice is a draft,
+ * before Stripe charges it. If a recipe or flavor has left the catalog the
+ * invoice is voided and the subscription paused until the customer swaps
+ * flavors and resumes.
+ */
+export const checkRenewalInvoice = async (stripe: Stripe, invoice: Stripe.Invoice) => {
+  const stripeSubscriptionId = subscriptionIdForInvoice(invoice);
+  if (
+    !stripeSubscriptionId ||
+    !invoice.id ||
+    invoice.status !== "draft" ||
+    invoice.billing_reason !== "subscription_cycle"
+  ) {
+    return { paused: false };
+  }
+
+  const subscription = await prisma.subscription.findUnique({
+    where: { stripeSubscriptionId },
+  });
+  if (!subscription) {
+    return { paused: false };
+  }
+
+  try {
+    await pricePack(lineForSubscription(subscription), {
+      currency: subscription.currency,
+      fxRate: subscription.fxRate,
+    });
+    return { paused: false };
+  } catch (error) {
+    if (!(error instanceof PricingError)) throw error;
+    console.warn("⚠️ Subscription pack is no longer available, pausing before renewal:", {
+      subscriptionId: subscription.id,
+      invoiceId: invoice.id,
+      reason: error.message,
+    });
+  }
+
+  await stripe.subscriptions.update(stripeSubscriptionId, {
+    pause_collection: { behavior: "void" },
+  });
+  // Subscription drafts can't be deleted; finalizing without auto-advance
+  // charges nothing, and the void closes it
+  await stripe.invoices.finalizeInvoice(invoice.id, { auto_advance: false });
+  await stripe.invoices.voidInvoice(invoice.id);
+
+  await prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { status: "paused", pausedAt: new Date(), skipUntil: null },
+  });
+  return { paused: true };
+};
+
+/**
+ * Turn a paid subscription invoice into an order with a shipment. Safe to call
+ * more than once for the same invoice.
+ */
+export const handleInvoicePaid = async (stripe: Stripe, invoice: Stripe.Invoice) => {
+  const stripeSubscriptionId = subscriptionIdForInvoice(invoice);
+  if (!stripeSubscriptionId) {
+    return { created: false };
+  }
+
+  const existing = await prisma.order.findUnique({
+    where: { stripeInvoiceId: invoice.id },
+    select: { id: true },
+  });
+  if (existing) {
+    console.log("⏭️ Order already created for invoice:", invoice.id);
+    return { created: false, orderId: existing.id };
+  }
+
+  // invoice.paid can arrive before checkout.session.completed links the
+  // subscription, so fall back to the id we put in the subscription metadata
+  let subscription = await prisma.subscription.findUnique({
+    where: { stripeSubscriptionId },
+  });
+  if (!subscription) {
+    const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+    const subscriptionId = stripeSubscription.metadata?.subscriptionId;
+    subscription = subscriptionId
+      ? await prisma.subscription.update({
+          where: { id: subscriptionId },
+          data: {
+            stripeSubscriptionId,
+            status: statusFromStripe(stripeSubscription),
+            currentPeriodEnd: periodEndOf(stripeSubscription),
+          },
+        })
+      : null;
+  }
+
+  if (!subscription) {
+    throw new CustomError(
+      `No subscription found for Stripe subscription ${stripeSubscriptionId}`,
+      404
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: subscription.userId },
+    select: { id: true, email: true, name: true },
+  });
+
+  // Stripe has already charged, so the order is built from what was
+  // subscribed to (with any flavor swaps) rather than checked against the
+  // catalog again; the order total is what the invoice actually charged
+  const line = await snapshotLine(subscription);
+  const shippingAddress = subscription.shippingAddress as unknown as ShippingAddress;
+  const total = roundCurrency(invoice.amount_paid / 100);
+
+  const order = await prisma.$transaction(async (tx) => {
+    const created = await tx.order.create({
+      data: {
+        userId: subscription.userId,
+        subscriptionId: subscription.id,
+        stripeInvoiceId: invoice.id,
+        ...paymentIdsFromInvoice(invoice),
+        status: "confirmed",
+        paymentStatus: "paid",
+        total,
+        currency: subscription.currency,
+        fxRate: subscription.fxRate,
+        shippingCost: subscription.shippingCost || undefined,
+        taxAmount: subscription.taxAmount,
+        taxBreakdown: subscription.taxBreakdown ?? undefined,
+        shippingAddress: shippingAddress as unknown as Prisma.InputJsonValue,
+        orderNotes: "Subscription delivery",
+        orderItems: {
+          create: {
+            productId: line.productId,
+            recipeId: line.recipeId,
+            quantity: line.quantity,
+            price: line.unitPrice,
+            total: line.total,
+            flavorIds: line.flavorIds,
+            customPackName: line.customPackName,
+          },
+        },
+      },
+      include: { orderItems: true },
+    });
+
+    await recordOrderCreated(
+      created,
+      { source: "webhook", actorLabel: "stripe", note: `Subscription invoice ${invoice.id}` },
+      tx
+    );
+
+    await consumeStock(tx, [line]);
+    await enqueueFulfillment(created.id, tx);
+
+    return created;
+  });
+
+  console.log("🔁 Subscription order created:", {
+    orderId: order.id,
+    subscriptionId: subscription.id,
+    invoiceId: invoice.id,
+    total,
+  });
+
+  // Renewals don't have a pre-selected rate, so the cheapest one is bought
+  const shippingDetails = await fulfillNow(order.id);
+
+  const email = user?.email || shippingAddress.email;
+  if (email) {
+    try {
+      await sendOrderConfirmationEmail(email, {
+        orderId: order.id,
+        customerName: shippingAddress.name || user?.name || "Customer",
+        total,
+        currency: subscription.currency,
+        items: [{ name: line.name, quantity: line.quantity, price: line.unitPrice }],
+        shippingAddress: {
+          street1: shippingAddress.street1,
+          city: shippingAddress.city,
+          state: shippingAddress.state,
+          zip: shippingAddress.zip,
+          country: shippingAddress.country,
+        },
+        shippingDetails: shippingDetails
+          ? { ...shippingDetails, shippingCost: subscription.shippingCost }
+          : undefined,
+      });
+    } catch (emailError) {
+      console.error("❌ Error sending subscription order email:", emailError);
+    }
+  }
+
+  return { created: true, orderId: order.id };
+};
+
+/**
+ * Load a subscription the user may manage (their own, or any for admins
+ * whose session passed two-factor authentication)
+ */
+export const getSubscriptionForUser = async (
+  id: string,
+  user: { id: string; role?: string; mfa?: boolean }
+) => {
+  const subscription = await prisma.subscription.findUnique({
+    where: { id },
+    include: {
+      packRecipe: { select: { id: true, title: true } },
+      orders: {
+        orderBy: { createdAt: "desc" },
+        take: 12,
+        select: {
+          id: true,
+          total: true,
+          status: true,
+          shippingStatus: true,
+          trackingNumber: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  const isAdmin = user.role === "admin" && user.mfa === true;
+  if (!subscription || (subscription.userId !== user.id && !isAdmin)) {
+    throw new CustomError("Subscription not found", 404);
+  }
+
+  return subscription;
+};
+
+const requireManageable = (subscription: SubscriptionRecord) => {
+  if (!subscription.stripeSubscriptionId) {
+    throw new CustomError("Subscription checkout has not been completed", 400);
+  }
+  if (!MANAGEABLE_STATUSES.includes(subscription.status)) {
+    throw new CustomError(
+      `Subscription cannot be changed while ${subscription.status}`,
+      400
+    );
+  }
+  return subscription.stripeSubscriptionId;
+};
+
+/**
+ * Pause deliveries until resumed. Stripe voids the invoices in between.
+ */
+export const pauseSubscription = async (stripe: Stripe, subscription: SubscriptionRecord) => {
+  const stripeSubscriptionId = requireManageable(subscription);
+  if (subscription.status === "paused") {
+    throw new CustomError("Subscription is already paused", 400);
+  }
+
+  await stripe.subscriptions.update(stripeSubscriptionId, {
+    pause_collection: { behavior: "void" },
+  });
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { status: "paused", pausedAt: new Date(), skipUntil: null },
+  });
+};
+
+export const resumeSubscription = async (stripe: Stripe, subscription: SubscriptionRecord) => {
+  const stripeSubscriptionId = requireManageable(subscription);
+  if (subscription.status !== "paused" && !subscription.skipUntil) {
+    throw new CustomError("Subscription is not paused", 400);
+  }
+
+  await stripe.subscriptions.update(stripeSubscriptionId, { pause_collection: "" });
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { status: "active", pausedAt: null, skipUntil: null },
+  });
+};
+
+/**
+ * Skip the next delivery: collection is paused until just after the next
+ * renewal, so that renewal's invoice is voided and billing resumes after it
+ */
+export const skipNextDelivery = async (stripe: Stripe, subscription: SubscriptionRecord) => {
+  const stripeSubscriptionId = requireManageable(subscription);
+  if (subscription.status === "paused") {
+    throw new CustomError("Resume the subscription before skipping a delivery", 400);
+  }
+
+  const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  const periodEnd = periodEndOf(stripeSubscription);
+  if (!periodEnd) {
+    throw new CustomError("Next renewal date is not known yet", 409);
+  }
+
+  const skipUntil = new Date(periodEnd.getTime() + 60 * 60 * 1000);
+  await stripe.subscriptions.update(stripeSubscriptionId, {
+    pause_collection: {
+      behavior: "void",
+      resumes_at: Math.floor(skipUntil.getTime() / 1000),
+    },
+  });
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { skipUntil, currentPeriodEnd: periodEnd },
+  });
+};
+
+/**
+ * Change the recipe or flavors delivered from the next renewal on. The pack
+ * type stays the same so the billed price doesn't change.
+ */
+export const swapSubscriptionFlavors = async (
+  subscription: SubscriptionRecord,
+  input: {
+    recipeId?: string | null;
+    flavorIds?: string[] | null;
+    customPackName?: string | null;
+  }
+) => {
+  requireManageable(subscription);
+
+  const line = await pricePack({
+    productId: subscription.productId,
+    recipeId: input.recipeId,
+    flavorIds: input.flavorIds,
+    customPackName: input.customPackName,
+    quantity: subscription.quantity,
+  });
+
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: {
+      recipeId: line.recipeId,
+      flavorIds: line.recipeId ? [] : line.flavorIds,
+      customPackName: line.customPackName,
+    },
+  });
+};
+
+/**
+ * Cancel at the end of the current period, or straight away
+ */
+export const cancelSubscription = async (
+  stripe: Stripe,
+  subscription: SubscriptionRecord,
+  immediately = false
+) => {
+  if (subscription.status === "canceled") {
+    throw new CustomError("Subscription is already canceled", 400);
+  }
+
+  // Checkout was never completed, so there is nothing to cancel in Stripe
+  if (!subscription.stripeSubscriptionId) {
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "canceled", canceledAt: new Date() },
+    });
+  }
+
+  if (immediately) {
+    await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
+    return prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "canceled", canceledAt: new Date(), cancelAtPeriodEnd: false },
+    });
+  }
+
+  await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+    cancel_at_period_end: true,
+  });
+  return prisma.subscription.update({
+    where: { id: subscription.id },
+    data: { cancelAtPeriodEnd: true },
+  });
+};
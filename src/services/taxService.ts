@@ -0,0 +1,201 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { roundCurrency } from "./pricingService";
+
+const prisma = new PrismaClient();
+
+export interface TaxAddress {
+  state?: string | null;
+  country?: string | null;
+}
+
+export interface TaxRequest {
+  address: TaxAddress;
+  itemsAmount: number; // Item subtotal after discounts
+  shipping: number;
+  currency: string;
+}
+
+export interface TaxLine {
+  jurisdiction: string; // "US-CA", "CA", "CA-BC"
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
+}
+
+export interface TaxQuote {
+  amount: number;
+  breakdown: TaxLine[];
+}
+
+/**
+ * Computes tax for a ship-to address. The local rate table is the default;
+ * tests or an external tax service can be plugged in with setTaxProvider.
+ */
+export interface TaxProvider {
+  name: string;
+  calculate(request: TaxRequest): Promise<TaxQuote>;
+}
+
+export const NO_TAX: TaxQuote = { amount: 0, breakdown: [] };
+
+const normalizeCode = (code?: string | null) =>
+  code ? code.trim().toUpperCase() : null;
+
+/**
+ * Rates from the TaxRate table: the country row and the state/province row
+ * both apply when present
+ */
+export const localTaxProvider: TaxProvider = {
+  name: "local",
+  async calculate(request) {
+    const country = normalizeCode(request.address.country);
+    if (!country) return NO_TAX;
+    const region = normalizeCode(request.address.state);
+
+    const rates = await prisma.taxRate.findMany({
+      where: {
+        country,
+        isActive: true,
+        OR: [{ region: null }, ...(region ? [{ region }] : [])],
+      },
+      orderBy: { region: { sort: "asc", nulls: "first" } },
+    });
+
+    const breakdown = rates.map((rate) => {
+      const taxableAmount = roundCurrency(
+        request.itemsAmount + (rate.taxShipping ? request.shipping : 0)
+      );
+      return {
+        jurisdiction: rate.region ? `${rate.country}-${rate.region}` : rate.country,
+        name: rate.name,
+        rate: rate.rate,
+        taxableAmount,
+        amount: roundCurrency(taxableAmount * rate.rate),
+      };
+    });
+
+    return {
+      amount: roundCurrency(breakdown.reduce((sum, line) => sum + line.amount, 0)),
+      breakdown,
+    };
+  },
+};
+
+let provider: TaxProvider = localTaxProvider;
+
+export const setTaxProvider = (next: TaxProvider) => {
+  provider = next;
+};
+
+export const getTaxProvider = () => provider;
+
+/**
+ * Tax owed on an order. Without a ship-to country nothing can be computed,
+ * so no tax is charged.
+ */
+export const calculateTax = async (request: TaxRequest): Promise<TaxQuote> => {
+  if (!request.address.country || request.itemsAmount + request.shipping <= 0) {
+    return NO_TAX;
+  }
+
+  const quote = await provider.calculate({
+    ...request,
+    itemsAmount: Math.max(0, request.itemsAmount),
+  });
+  return {
+    amount: roundCurrency(quote.amount),
+    breakdown: quote.breakdown.filter((line) => line.amount > 0),
+  };
+};
+
+const parseRate = (value: unknown) => {
+  const rate = Number(value);
+  if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+    throw new CustomError("rate must be a fraction between 0 and 1 (0.0725 for 7.25%)", 400);
+  }
+  return rate;
+};
+
+export const listTaxRates = () =>
+  prisma.taxRate.findMany({
+    orderBy: [{ country: "asc" }, { region: { sort: "asc", nulls: "first" } }],
+  });
+
+/**
+ * Create or replace the rate for a country, or one of its states/provinces
+ */
+export const upsertTaxRate = async (body: {
+  country?: string;
+  region?: string | null;
+  name?: string;
+  rate?: unknown;
+  taxShipping?: boolean;
+  isActive?: boolean;
+}) => {
+  const country = normalizeCode(body.country);
+  if (!country || !body.name) {
+    throw new CustomError("country and name are required", 400);
+  }
+  const region = normalizeCode(body.region);
+  const data = {
+    name: body.name,
+    rate: parseRate(body.rate),
+    taxShipping: body.taxShipping ?? false,
+    isActive: body.isActive ?? true,
+  };
+
+  // Prisma can't upsert on a compound unique with a null member
+  const existing = await prisma.taxRate.findFirst({ where: { country, region } });
+  if (existing) {
+    return prisma.taxRate.update({ where: { id: existing.id }, data });
+  }
+  return prisma.taxRate.create({ data: { country, region, ...data } });
+};
+
+export const deleteTaxRate = async (id: string) => {
+  const rate = await prisma.taxRate.findUnique({ where: { id } });
+  if (!rate) {
+    throw new CustomError("Tax rate not found", 404);
+  }
+  await prisma.taxRate.delete({ where: { id } });
+};
+
+/**
+ * Tax collected on paid orders between two dates, per jurisdiction and currency
+ */
+export const getTaxReport = async (from: Date, to: Date) => {
+  const orders = await prisma.order.findMany({
+    where: {
+      paymentStatus: { in: ["paid", "partially_refunded"] },
+      taxAmount: { gt: 0 },
+      createdAt: { gte: from, lte: to },
+    },
+    select: { taxBreakdown: true, currency: true },
+  });
+
+  const totals = new Map<string, Omit<TaxLine, "rate"> & { currency: string; orders: number }>();
+  for (const order of orders) {
+    const lines = (order.taxBreakdown as unknown as TaxLine[] | null) || [];
+    for (const line of lines) {
+      const key = `${line.jurisdiction}:${order.currency}`;
+      const entry = totals.get(key) || {
+        jurisdiction: line.jurisdiction,
+        name: line.name,
+        currency: order.currency,
+        taxableAmount: 0,
+        amount: 0,
+        orders: 0,
+      };
+      entry.taxableAmount = roundCurrency(entry.taxableAmount + line.taxableAmount);
+      entry.amount = roundCurrency(entry.amount + line.amount);
+      entry.orders += 1;
+      totals.set(key, entry);
+    }
+  }
+
+  return [...totals.values()].sort(
+    (a, b) => a.jurisdiction.localeCompare(b.jurisdiction) || a.currency.localeCompare(b.currency)
+  );
+};
@@ -0,0 +1,123 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const prisma = new PrismaClient();
+
+export interface TrackingLocation {
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  country?: string | null;
+}
+
+interface ShippoTrackingStatus {
+  objectId?: string | null;
+  status: string;
+  substatus?: string | null;
+  statusDetails?: string | null;
+  statusDate?: string | null;
+  location?: TrackingLocation | null;
+}
+
+/**
+ * Shippo sends raw webhook bodies in snake_case while the SDK returns
+ * camelCase, so read either
+ */
+const pick = (source: any, camel: string, snake: string) =>
+  source?.[camel] ?? source?.[snake] ?? null;
+
+const readTrackingStatus = (raw: any): ShippoTrackingStatus | null => {
+  if (!raw || !raw.status) return null;
+
+  const substatus = raw.substatus;
+  return {
+    objectId: pick(raw, "objectId", "object_id"),
+    status: String(raw.status).toUpperCase(),
+    substatus:
+      typeof substatus === "object" && substatus !== null
+        ? substatus.code || substatus.text || null
+        : substatus || null,
+    statusDetails: pick(raw, "statusDetails", "status_details"),
+    statusDate: pick(raw, "statusDate", "status_date"),
+    location: raw.location || null,
+  };
+};
+
+/**
+ * Every status in a track.updated payload: the full history plus the current
+ * status (which may not be in the history yet)
+ */
+export const readTrackingUpdate = (data: any) => {
+  const current = readTrackingStatus(pick(data, "trackingStatus", "tracking_status"));
+  const history = ((pick(data, "trackingHistory", "tracking_history") || []) as any[])
+    .map(readTrackingStatus)
+    .filter((status): status is ShippoTrackingStatus => !!status);
+
+  return {
+    trackingNumber: pick(data, "trackingNumber", "tracking_number") as string | null,
+    carrier: (data?.carrier as string) || null,
+    current,
+    statuses: current ? [...history, current] : history,
+  };
+};
+
+/**
+ * Store a track.updated webhook's statuses against the orders with that
+ * tracking number. Statuses already stored are skipped, so repeated or
+ * overlapping webhooks don't duplicate the timeline.
+ */
+export const recordTrackingUpdate = async (data: any) => {
+  const update = readTrackingUpdate(data);
+  if (!update.trackingNumber || update.statuses.length === 0) {
+    return { ...update, recorded: 0 };
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { trackingNumber: update.trackingNumber },
+    select: { id: true },
+  });
+
+  const rows: Prisma.TrackingEventCreateManyInput[] = [];
+  for (const order of orders) {
+    for (const status of update.statuses) {
+      const occurredAt = status.statusDate ? new Date(status.statusDate) : new Date();
+      rows.push({
+        orderId: order.id,
+        trackingNumber: update.trackingNumber,
+        carrier: update.carrier,
+        eventKey: status.objectId || `${status.status}:${occurredAt.toISOString()}`,
+        status: status.status,
+        substatus: status.substatus,
+        statusDetails: status.statusDetails,
+        location: status.location
+          ? (status.location as Prisma.InputJsonValue)
+          : Prisma.JsonNull,
+        occurredAt,
+      });
+    }
+  }
+
+  const result = await prisma.trackingEvent.createMany({
+    data: rows,
+    skipDuplicates: true,
+  });
+
+  return { ...update, recorded: result.count };
+};
+
+/**
+ * Delivery timeline for an order, oldest first
+ */
+export const getTrackingTimeline = async (orderId: string) => {
+  return prisma.trackingEvent.findMany({
+    where: { orderId },
+    orderBy: { occurredAt: "asc" },
+    select: {
+      status: true,
+      substatus: true,
+      statusDetails: true,
+      location: true,
+      occurredAt: true,
+      carrier: true,
+    },
+  });
+};
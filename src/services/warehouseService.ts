@@ -0,0 +1,163 @@
+import { PrismaClient, Prisma, Warehouse } from "../generated/prisma";
+import { flavorQuantitiesForLines } from "./inventoryReservationService";
+import { SenderAddress } from "./shippoService";
+
+const prisma = new PrismaClient();
+
+type Tx = Prisma.TransactionClient;
+
+export interface RoutingLine {
+  recipeId?: string | null;
+  flavorIds?: string[];
+  quantity: number;
+}
+
+export interface RoutingDestination {
+  zip?: string | null;
+  country?: string | null;
+}
+
+// Sorts after any real distance (different country or unusable zip)
+const FAR_AWAY = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Rough distance between two postal codes. US ZIP prefixes are assigned
+ * geographically, so the gap between the 3-digit prefixes is a usable
+ * proximity measure without geocoding.
+ */
+export const zipDistance = (
+  from: RoutingDestination,
+  to: RoutingDestination
+): number => {
+  const fromCountry = (from.country || "US").toUpperCase();
+  const toCountry = (to.country || "US").toUpperCase();
+  if (fromCountry !== toCountry) return FAR_AWAY;
+
+  const fromPrefix = parseInt(String(from.zip || "").slice(0, 3), 10);
+  const toPrefix = parseInt(String(to.zip || "").slice(0, 3), 10);
+  if (isNaN(fromPrefix) || isNaN(toPrefix)) return FAR_AWAY - 1;
+
+  return Math.abs(fromPrefix - toPrefix);
+};
+
+export const toSenderAddress = (warehouse: Warehouse): SenderAddress => ({
+  name: warehouse.name,
+  company: warehouse.company || "",
+  email: warehouse.email,
+  phone: warehouse.phone || "",
+  street1: warehouse.street1,
+  street2: warehouse.street2 || "",
+  city: warehouse.city,
+  state: warehouse.state,
+  zip: warehouse.zip,
+  country: warehouse.country,
+});
+
+const normalizeLines = (lines: RoutingLine[]) =>
+  lines.map((line) => ({
+    recipeId: line.recipeId || null,
+    flavorIds: Array.isArray(line.flavorIds) ? line.flavorIds : [],
+    quantity: Number(line.quantity) || 0,
+  }));
+
+/**
+ * Pick the ship-from warehouse for a set of lines: the closest active
+ * warehouse that holds every flavor needed, or the closest one overall when
+ * none does. Returns null when no warehouses are configured.
+ */
+export const selectWarehouse = async (
+  lines: RoutingLine[],
+  destination: RoutingDestination,
+  tx: Tx = prisma
+) => {
+  const needed = await flavorQuantitiesForLines(tx, normalizeLines(lines));
+
+  const warehouses = await tx.warehouse.findMany({
+    where: { isActive: true },
+    include: {
+      inventory: { where: { flavorId: { in: [...needed.keys()] } } },
+    },
+  });
+  if (warehouses.length === 0) return null;
+
+  const hasStock = (warehouse: (typeof warehouses)[number]) =>
+    [...needed].every(([flavorId, quantity]) => {
+      const row = warehouse.inventory.find((item) => item.flavorId === flavorId);
+      return !!row && row.onHand >= quantity;
+    });
+
+  const stocked = warehouses.filter(hasStock);
+  const candidates = stocked.length > 0 ? stocked : warehouses;
+  if (stocked.length === 0) {
+    console.warn("⚠️ No warehouse has stock for every flavor, routing to the closest one");
+  }
+
+  const [closest] = candidates.sort(
+    (a, b) =>
+      zipDistance(a, destination) - zipDistance(b, destination) ||
+      a.priority - b.priority
+  );
+
+  const { inventory, ...warehouse } = closest;
+  return { warehouse, needed };
+};
+
+/**
+ * The warehouse an order ships from. The first call routes the order, stores
+ * the choice and draws the flavors down from that warehouse's stock.
+ */
+export const assignWarehouse = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      warehouse: true,
+      shippingAddress: true,
+      orderItems: {
+        select: { recipeId: true, flavorIds: true, quantity: true, refundedQuantity: true },
+      },
+    },
+  });
+  if (!order) return null;
+  if (order.warehouse) return order.warehouse;
+
+  const address = order.shippingAddress as any;
+  const routed = await selectWarehouse(
+    order.orderItems.map((item) => ({
+      recipeId: item.recipeId,
+      flavorIds: item.flavorIds,
+      quantity: item.quantity - item.refundedQuantity,
+    })),
+    {
+      zip: address?.zip || address?.zipCode || address?.address?.postal_code,
+      country: address?.country || address?.address?.country,
+    }
+  );
+  if (!routed) return null;
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the order so concurrent runs can't draw stock down twice
+    const claimed = await tx.order.updateMany({
+      where: { id: orderId, warehouseId: null },
+      data: { warehouseId: routed.warehouse.id },
+    });
+    if (claimed.count === 0) {
+      return (await tx.order.findUnique({
+        where: { id: orderId },
+        select: { warehouse: true },
+      }))?.warehouse ?? null;
+    }
+
+    for (const [flavorId, quantity] of routed.needed) {
+      await tx.warehouseInventory.updateMany({
+        where: { warehouseId: routed.warehouse.id, flavorId },
+        data: { onHand: { decrement: quantity } },
+      });
+    }
+
+    console.log("🏭 Order routed to warehouse:", {
+      orderId,
+      warehouse: routed.warehouse.code,
+    });
+    return routed.warehouse;
+  });
+};
@@ -0,0 +1,39 @@
+import { CookieOptions, Response } from "express";
+import { ACCESS_TOKEN_TTL_MINUTES, REFRESH_TOKEN_TTL_DAYS } from "./jwt";
+
+/**
+ * Options shared by every cookie the API sets for a signed-in session. In
+ * production the leading-dot domain makes it work across all subdomains;
+ * locally no domain is set so localhost works.
+ */
+export const sessionCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+  domain: process.env.NODE_ENV === "production" ? ".licorice4good.com" : undefined,
+  path: "/",
+});
+
+export const setAccessCookie = (res: Response, accessToken: string) =>
+  res.cookie("token", accessToken, {
+    ...sessionCookieOptions(),
+    maxAge: ACCESS_TOKEN_TTL_MINUTES * 60 * 1000,
+  });
+
+/**
+ * The short-lived access token (`token`) and the session's refresh token
+ */
+export const setAuthCookies = (
+  res: Response,
+  tokens: { accessToken: string; refreshToken: string }
+) =>
+  setAccessCookie(res, tokens.accessToken)
+    .cookie("refreshToken", tokens.refreshToken, {
+      ...sessionCookieOptions(),
+      maxAge: REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+    });
+
+export const clearAuthCookies = (res: Response) =>
+  res
+    .clearCookie("token", sessionCookieOptions())
+    .clearCookie("refreshToken", sessionCookieOptions());
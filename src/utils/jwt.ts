@@ -1,7 +1,113 @@
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
 
-export const generateToken = (userId: string, role: string): string => {
-  return jwt.sign({ id: userId, role }, process.env.JWT_SECRET!, {
-    expiresIn: "7d",
+// Access tokens are short-lived; a session's refresh token gets a new one
+export const ACCESS_TOKEN_TTL_MINUTES =
+  Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15;
+
+export const REFRESH_TOKEN_TTL_DAYS =
+  Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// `mfa` marks a session that passed two-factor authentication; adminOnly requires it
+export const generateToken = (
+  userId: string,
+  role: string,
+  sessionId?: string,
+  mfa = false
+): string => {
+  return jwt.sign({ id: userId, role, sid: sessionId, mfa }, process.env.JWT_SECRET!, {
+    expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m`,
   });
 };
+
+export interface RefreshClaims {
+  sid: string;
+  jti: string;
+}
+
+const refreshSecret = () =>
+  process.env.REFRESH_TOKEN_SECRET || `${process.env.JWT_SECRET}:refresh`;
+
+/**
+ * Refresh token for a session; the random jti makes every rotation unique
+ */
+export const generateRefreshToken = (sessionId: string): string => {
+  return jwt.sign(
+    { sid: sessionId, jti: crypto.randomBytes(16).toString("hex") },
+    refreshSecret(),
+    { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+  );
+};
+
+/**
+ * Claims of a refresh token we signed, or null
+ */
+export const verifyRefreshToken = (token: string): RefreshClaims | null => {
+  try {
+    return jwt.verify(token, refreshSecret()) as RefreshClaims;
+  } catch {
+    return null;
+  }
+};
+
+export interface MfaChallengeClaims {
+  id: string;
+  purpose: "mfa_challenge";
+}
+
+const mfaChallengeSecret = () => `${process.env.JWT_SECRET}:mfa-challenge`;
+
+/**
+ * Proof that the password (or provider sign-in) step passed, traded for a
+ * session once the second factor is checked
+ */
+export const generateMfaChallengeToken = (userId: string): string => {
+  return jwt.sign({ id: userId, purpose: "mfa_challenge" }, mfaChallengeSecret(), {
+    expiresIn: "5m",
+  });
+};
+
+export const verifyMfaChallengeToken = (token: string): MfaChallengeClaims | null => {
+  try {
+    const claims = jwt.verify(token, mfaChallengeSecret()) as MfaChallengeClaims;
+    return claims.purpose === "mfa_challenge" ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface OrderAccessClaims {
+  orderId: string;
+  email: string;
+}
+
+// Order links are signed with their own key so they can never pass as a login token
+const orderAccessSecret = () =>
+  process.env.ORDER_ACCESS_SECRET || `${process.env.JWT_SECRET}:order-access`;
+
+export const ORDER_ACCESS_TTL_HOURS =
+  Number(process.env.ORDER_ACCESS_TTL_HOURS) || 72;
+
+/**
+ * Signed token for a guest's order link, emailed after a lookup
+ */
+export const generateOrderAccessToken = (orderId: string, email: string): string => {
+  return jwt.sign({ orderId, email }, orderAccessSecret(), {
+    expiresIn: `${ORDER_ACCESS_TTL_HOURS}h`,
+  });
+};
+
+/**
+ * Claims of a valid order link for this order, or null
+ */
+export const verifyOrderAccessToken = (
+  token: string,
+  orderId: string
+): OrderAccessClaims | null => {
+  try {
+    const claims = jwt.verify(token, orderAccessSecret()) as OrderAccessClaims;
+    return claims.orderId === orderId ? claims : null;
+  } catch {
+    return null;
+  }
+};
@@ -1,4 +1,5 @@
 import nodemailer from "nodemailer";
+import { formatMoney } from "../services/currencyService";
 
 export const sendResetEmail = async (to: string, code: string) => {
   // Check if email credentials are configured
@@ -391,6 +392,7 @@ export const sendOrderConfirmationEmail = async (
     orderId: string;
     customerName: string;
     total: number;
+    currency?: string;
     items: Array<{
       name: string;
       quantity: number;
@@ -417,8 +419,8 @@ export const sendOrderConfirmationEmail = async (
       <tr>
         <td style="padding: 10px; border-bottom: 1px solid #e9ecef;">${item.name}</td>
         <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: center;">${item.quantity}</td>
-        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">$${item.price.toFixed(2)}</td>
-        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">$${(item.quantity * item.price).toFixed(2)}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">${formatMoney(item.price, orderDetails.currency)}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">${formatMoney(item.quantity * item.price, orderDetails.currency)}</td>
       </tr>
     `
     )
@@ -453,7 +455,7 @@ export const sendOrderConfirmationEmail = async (
             ${itemsHtml}
             <tr style="background: #f8f9fa; font-weight: bold;">
               <td colspan="3" style="padding: 15px; text-align: right;">Total:</td>
-              <td style="padding: 15px; text-align: right; color: #28a745; font-size: 18px;">$${orderDetails.total.toFixed(2)}</td>
+              <td style="padding: 15px; text-align: right; color: #28a745; font-size: 18px;">${formatMoney(orderDetails.total, orderDetails.currency)}</td>
             </tr>
           </tbody>
         </table>
@@ -472,7 +474,7 @@ export const sendOrderConfirmationEmail = async (
             <p style="margin: 5px 0; color: #495057;"><strong>Carrier:</strong> ${orderDetails.shippingDetails.carrier}</p>
           ` : ''}
           ${orderDetails.shippingDetails.shippingCost !== undefined ? `
-            <p style="margin: 5px 0; color: #495057;"><strong>Shipping Cost:</strong> $${orderDetails.shippingDetails.shippingCost.toFixed(2)}</p>
+            <p style="margin: 5px 0; color: #495057;"><strong>Shipping Cost:</strong> ${formatMoney(orderDetails.shippingDetails.shippingCost, orderDetails.currency)}</p>
           ` : ''}
           ${orderDetails.shippingDetails.trackingNumber ? `
             <p style="margin: 5px 0; color: #495057;"><strong>Tracking Number:</strong> ${orderDetails.shippingDetails.trackingNumber}</p>
@@ -593,3 +595,481 @@ export const sendOrderConfirmationEmail = async (
     }
   }
 };
+
+// Send through Gmail when configured, falling back to Ethereal in development
+// or when Gmail fails. Never throws, so callers' flows continue.
+const deliverEmail = async (
+  label: string,
+  mail: { to: string; subject: string; html: string; bcc?: string }
+) => {
+  const sendViaEthereal = async (reason: string) => {
+    try {
+      const testAccount = await nodemailer.createTestAccount();
+      const transporter = nodemailer.createTransport({
+        host: "smtp.ethereal.email",
+        port: 587,
+        secure: false,
+        auth: {
+          user: testAccount.user,
+          pass: testAccount.pass,
+        },
+      });
+
+      const info = await transporter.sendMail({
+        from: `"Licrorice" <${testAccount.user}>`,
+        ...mail,
+      });
+      console.log(`📧 ${label} email sent (${reason}): ${nodemailer.getTestMessageUrl(info)}`);
+    } catch (fallbackErr) {
+      console.error(`❌ Error sending ${label} email (Ethereal):`, fallbackErr);
+    }
+  };
+
+  if (!process.env.EMAIL_USER || !process.env.EMAIL_PASS) {
+    console.warn("⚠️  Gmail credentials not configured. Using Ethereal email for development.");
+    await sendViaEthereal("Ethereal");
+    return;
+  }
+
+  try {
+    const transporter = nodemailer.createTransport({
+      service: "gmail",
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS,
+      },
+    });
+
+    await transporter.sendMail({
+      from: "Licrorice <no-reply@licorice4good.com>",
+      ...mail,
+    });
+    console.log(`✅ ${label} email sent to ${mail.to}`);
+  } catch (error) {
+    console.error(`❌ Error sending ${label} email via Gmail:`, error);
+    await sendViaEthereal("Ethereal fallback");
+  }
+};
+
+// Refund confirmation email
+export const sendRefundEmail = async (
+  to: string,
+  refundDetails: {
+    orderId: string;
+    customerName: string;
+    amount: number;
+    currency?: string;
+    isFullRefund: boolean;
+    items?: Array<{
+      name: string;
+      quantity: number;
+      amount: number;
+    }>;
+    reason?: string | null;
+  }
+) => {
+  const itemsHtml = (refundDetails.items || [])
+    .map(
+      (item) => `
+      <tr>
+        <td style="padding: 10px; border-bottom: 1px solid #e9ecef;">${item.name}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: center;">${item.quantity}</td>
+        <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">${formatMoney(item.amount, refundDetails.currency)}</td>
+      </tr>
+    `
+    )
+    .join("");
+
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #339af0 0%, #228be6 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">💸 ${refundDetails.isFullRefund ? "Order Refunded" : "Partial Refund Issued"}</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">Hi ${refundDetails.customerName}, we've issued a refund for your order.</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        <div style="background: #e7f5ff; border-left: 4px solid #339af0; padding: 15px; margin-bottom: 20px;">
+          <p style="margin: 0; font-size: 14px; color: #1864ab;">
+            <strong>Order Number:</strong> #${refundDetails.orderId}
+          </p>
+        </div>
+        
+        ${itemsHtml ? `
+        <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px; background: white;">
+          <thead>
+            <tr style="background: #e9ecef;">
+              <th style="padding: 10px; text-align: left;">Item</th>
+              <th style="padding: 10px; text-align: center;">Qty</th>
+              <th style="padding: 10px; text-align: right;">Refunded</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${itemsHtml}
+          </tbody>
+        </table>
+        ` : ''}
+        
+        <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6;">
+          <p style="margin: 5px 0; color: #495057;"><strong>Refund Amount:</strong> ${formatMoney(refundDetails.amount, refundDetails.currency)}</p>
+          ${refundDetails.reason ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Reason:</strong> ${refundDetails.reason}</p>
+          ` : ''}
+        </div>
+        
+        <p style="font-size: 14px; color: #495057; margin-top: 20px;">
+          The refund goes back to your original payment method. Depending on your bank it can take 5-10 business days to appear.
+        </p>
+        
+        <p style="font-size: 14px; color: #6c757d; margin-top: 30px; text-align: center;">
+          Questions? Contact us at <a href="mailto:support@licorice4good.com" style="color: #007bff;">support@licorice4good.com</a>
+        </p>
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail("Refund", {
+    to,
+    subject: `Refund for Order #${refundDetails.orderId}`,
+    html: emailHtml,
+  });
+};
+
+export type ShippingNotificationType =
+  | "shipped"
+  | "out_for_delivery"
+  | "delivered"
+  | "delivery_exception";
+
+const SHIPPING_EMAIL_TEMPLATES: Record<
+  ShippingNotificationType,
+  { subject: string; heading: string; message: string; color: string }
+> = {
+  shipped: {
+    subject: "Your order is on its way",
+    heading: "📦 Your Order Has Shipped",
+    message: "Good news! Your licorice has left our warehouse and is on its way to you.",
+    color: "#339af0",
+  },
+  out_for_delivery: {
+    subject: "Your order is out for delivery",
+    heading: "🚚 Out for Delivery",
+    message: "Your order is out for delivery and should arrive today.",
+    color: "#7950f2",
+  },
+  delivered: {
+    subject: "Your order has been delivered",
+    heading: "🎉 Delivered",
+    message: "Your order has been delivered. Enjoy your licorice!",
+    color: "#40c057",
+  },
+  delivery_exception: {
+    subject: "There's a problem delivering your order",
+    heading: "⚠️ Delivery Problem",
+    message:
+      "The carrier reported a problem delivering your order. Check the tracking page for details, and contact us if it isn't resolved soon.",
+    color: "#fa5252",
+  },
+};
+
+// Shipping progress email (shipped, out for delivery, delivered, exception)
+export const sendShippingUpdateEmail = async (
+  to: string,
+  type: ShippingNotificationType,
+  details: {
+    orderId: string;
+    customerName: string;
+    trackingNumber?: string | null;
+    trackingUrl?: string | null;
+    carrier?: string | null;
+    statusDetails?: string | null;
+  }
+) => {
+  const template = SHIPPING_EMAIL_TEMPLATES[type];
+
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: ${template.color}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">${template.heading}</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">Hi ${details.customerName}, ${template.message}</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6;">
+          <p style="margin: 5px 0; color: #495057;"><strong>Order Number:</strong> #${details.orderId}</p>
+          ${details.carrier ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Carrier:</strong> ${details.carrier.toUpperCase()}</p>
+          ` : ''}
+          ${details.trackingNumber ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Tracking Number:</strong> ${details.trackingNumber}</p>
+          ` : ''}
+          ${details.statusDetails ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Latest Update:</strong> ${details.statusDetails}</p>
+          ` : ''}
+        </div>
+        
+        ${details.trackingUrl ? `
+        <div style="text-align: center; margin-top: 25px;">
+          <a href="${details.trackingUrl}" style="background: ${template.color}; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Track Your Package
+          </a>
+        </div>
+        ` : ''}
+        
+        <p style="font-size: 14px; color: #6c757d; margin-top: 30px; text-align: center;">
+          Questions? Contact us at <a href="mailto:support@licorice4good.com" style="color: #007bff;">support@licorice4good.com</a>
+        </p>
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail(`Shipping update (${type})`, {
+    to,
+    subject: `${template.subject} - Order #${details.orderId}`,
+    html: emailHtml,
+  });
+};
+
+// Return request approved (with the return label) or rejected
+export const sendReturnStatusEmail = async (
+  to: string,
+  details: {
+    orderId: string;
+    customerName: string;
+    status: "approved" | "rejected";
+    labelUrl?: string | null;
+    trackingNumber?: string | null;
+    rejectionReason?: string | null;
+  }
+) => {
+  const approved = details.status === "approved";
+
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: ${approved ? "#339af0" : "#868e96"}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">↩️ ${approved ? "Return Approved" : "Return Request Declined"}</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">Hi ${details.customerName}, we've reviewed your return request.</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6;">
+          <p style="margin: 5px 0; color: #495057;"><strong>Order Number:</strong> #${details.orderId}</p>
+          ${details.trackingNumber ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Return Tracking Number:</strong> ${details.trackingNumber}</p>
+          ` : ''}
+          ${details.rejectionReason ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Reason:</strong> ${details.rejectionReason}</p>
+          ` : ''}
+        </div>
+        
+        ${approved ? `
+        <p style="font-size: 14px; color: #495057; margin-top: 20px;">
+          Print the prepaid label below, attach it to the package and drop it off with the carrier. We'll let you know once it arrives.
+        </p>
+        ${details.labelUrl ? `
+        <div style="text-align: center; margin-top: 25px;">
+          <a href="${details.labelUrl}" style="background: #339af0; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Download Return Label
+          </a>
+        </div>
+        ` : ''}
+        ` : ''}
+        
+        <p style="font-size: 14px; color: #6c757d; margin-top: 30px; text-align: center;">
+          Questions? Contact us at <a href="mailto:support@licorice4good.com" style="color: #007bff;">support@licorice4good.com</a>
+        </p>
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail("Return", {
+    to,
+    subject: `${approved ? "Your return label" : "Your return request"} - Order #${details.orderId}`,
+    html: emailHtml,
+  });
+};
+
+// Admin alert for a Stripe dispute (chargeback) being opened or closed
+export const sendDisputeAlertEmail = async (
+  to: string,
+  details: {
+    stripeDisputeId: string;
+    orderId?: string | null;
+    customerEmail?: string | null;
+    amount: number;
+    currency: string;
+    reason: string;
+    status: string;
+    evidenceDueBy?: Date | null;
+    closed: boolean;
+  }
+) => {
+  const won = details.status === "won";
+  const color = !details.closed ? "#e03131" : won ? "#28a745" : "#868e96";
+  const heading = !details.closed
+    ? "Payment Disputed"
+    : won
+      ? "Dispute Won"
+      : `Dispute Closed (${details.status})`;
+  const amount = `${details.amount.toFixed(2)} ${details.currency.toUpperCase()}`;
+
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: ${color}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">⚠️ ${heading}</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">A customer disputed a payment of ${amount}.</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6;">
+          <p style="margin: 5px 0; color: #495057;"><strong>Order Number:</strong> ${details.orderId ? `#${details.orderId}` : "Not matched"}</p>
+          ${details.customerEmail ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Customer:</strong> ${details.customerEmail}</p>
+          ` : ''}
+          <p style="margin: 5px 0; color: #495057;"><strong>Reason:</strong> ${details.reason.replace(/_/g, " ")}</p>
+          <p style="margin: 5px 0; color: #495057;"><strong>Status:</strong> ${details.status.replace(/_/g, " ")}</p>
+          <p style="margin: 5px 0; color: #495057;"><strong>Stripe Dispute:</strong> ${details.stripeDisputeId}</p>
+          ${details.evidenceDueBy && !details.closed ? `
+            <p style="margin: 5px 0; color: #e03131;"><strong>Evidence Due By:</strong> ${details.evidenceDueBy.toUTCString()}</p>
+          ` : ''}
+        </div>
+        
+        ${!details.closed ? `
+        <p style="font-size: 14px; color: #495057; margin-top: 20px;">
+          The order has been flagged. Review the evidence in the admin dashboard and submit it to Stripe before the due date.
+        </p>
+        ` : ''}
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail("Dispute alert", {
+    to,
+    subject: `${heading} - ${details.orderId ? `Order #${details.orderId}` : details.stripeDisputeId}`,
+    html: emailHtml,
+  });
+};
+
+// Gift card code for a purchased card or store credit issued by an admin
+export const sendGiftCardEmail = async (
+  to: string,
+  details: {
+    code: string;
+    amount: number;
+    currency: string;
+    recipientName?: string | null;
+    message?: string | null;
+    expiresAt?: Date | null;
+    isStoreCredit: boolean;
+  }
+) => {
+  const amount = `${details.amount.toFixed(2)} ${details.currency.toUpperCase()}`;
+  const heading = details.isStoreCredit ? "You've Got Store Credit" : "You've Got a Gift Card";
+
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: #f76707; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">🎁 ${heading}</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">Hi ${details.recipientName || "there"}, ${amount} is waiting for you.</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        ${details.message ? `
+        <p style="font-size: 16px; color: #495057; font-style: italic; text-align: center;">"${details.message}"</p>
+        ` : ''}
+        
+        <div style="background: white; padding: 20px; border-radius: 5px; border: 1px solid #dee2e6; text-align: center;">
+          <p style="margin: 5px 0; color: #6c757d;">Your code</p>
+          <p style="margin: 10px 0; color: #212529; font-size: 26px; font-weight: bold; letter-spacing: 2px;">${details.code}</p>
+          <p style="margin: 5px 0; color: #495057;"><strong>Balance:</strong> ${amount}</p>
+          ${details.expiresAt ? `
+            <p style="margin: 5px 0; color: #495057;"><strong>Expires:</strong> ${details.expiresAt.toDateString()}</p>
+          ` : ''}
+        </div>
+        
+        <p style="font-size: 14px; color: #495057; margin-top: 20px;">
+          Enter the code at checkout. Any balance you don't use stays on the card for your next order.
+        </p>
+        
+        <div style="text-align: center; margin-top: 25px;">
+          <a href="${process.env.CLIENT_URL || "https://licorice4good.com"}" style="background: #f76707; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            Start Shopping
+          </a>
+        </div>
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail("Gift card", {
+    to,
+    subject: details.isStoreCredit
+      ? `You've received ${amount} in store credit`
+      : `You've received a ${amount} gift card`,
+    html: emailHtml,
+  });
+};
+
+// Signed link that lets a guest view their order without an account
+export const sendOrderAccessEmail = async (
+  to: string,
+  details: {
+    orderId: string;
+    customerName: string;
+    link: string;
+    expiresInHours: number;
+  }
+) => {
+  const emailHtml = `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: #339af0; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">📦 View Your Order</h1>
+        <p style="color: white; margin: 10px 0 0 0; font-size: 16px;">Hi ${details.customerName}, here's the link you asked for.</p>
+      </div>
+      
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6;">
+          <p style="margin: 5px 0; color: #495057;"><strong>Order Number:</strong> #${details.orderId}</p>
+        </div>
+        
+        <div style="text-align: center; margin-top: 25px;">
+          <a href="${details.link}" style="background: #339af0; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-weight: bold;">
+            View Order Status
+          </a>
+        </div>
+        
+        <p style="font-size: 14px; color: #6c757d; margin-top: 20px; text-align: center;">
+          The link works for ${details.expiresInHours} hours. If you didn't request it, you can ignore this email.
+        </p>
+        
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  await deliverEmail("Order access", {
+    to,
+    subject: `Your order link - Order #${details.orderId}`,
+    html: emailHtml,
+  });
+};
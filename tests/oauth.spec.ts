@@ -0,0 +1,401 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "../src/generated/prisma";
+import {
+  buildAuthorizationRequest,
+  completeAuthorization,
+  findOrCreateOAuthUser,
+  OAuthProfile,
+} from "../src/services/oauthService";
+
+const prisma = new PrismaClient() as any;
+
+const CLIENT_ID = "test-client";
+const REDIRECT_URI = "http://localhost:5000/auth/oauth/google/callback";
+
+// Mock OpenID provider: discovery, JWKS and a token endpoint that checks PKCE
+// and signs ID tokens with the nonce given at authorization time
+const signing = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const otherKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+interface IssuedCode {
+  challenge: string | null;
+  nonce: string;
+  claims?: Record<string, unknown>;
+  privateKey?: crypto.KeyObject;
+  kid?: string;
+}
+
+const issuedCodes = new Map<string, IssuedCode>();
+const tokenRequests: URLSearchParams[] = [];
+let issuer = "";
+
+const server = http.createServer((req, res) => {
+  const json = (status: number, body: unknown) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.url === "/.well-known/openid-configuration") {
+    return json(200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+    });
+  }
+  if (req.url === "/jwks") {
+    const jwk = signing.publicKey.export({ format: "jwk" });
+    return json(200, { keys: [{ ...jwk, kid: "test-key", alg: "RS256", use: "sig" }] });
+  }
+  if (req.url === "/token" && req.method === "POST") {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const form = new URLSearchParams(body);
+      tokenRequests.push(form);
+
+      const issued = issuedCodes.get(form.get("code") || "");
+      if (!issued || form.get("client_id") !== CLIENT_ID) {
+        return json(400, { error: "invalid_grant" });
+      }
+      const verifier = form.get("code_verifier") || "";
+      const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+      if (issued.challenge && challenge !== issued.challenge) {
+        return json(400, { error: "invalid_grant", error_description: "PKCE check failed" });
+      }
+
+      const idToken = jwt.sign(
+        {
+          sub: "google-user-1",
+          email: "Shopper@Example.com",
+          email_verified: true,
+          name: "Sam Shopper",
+          nonce: issued.nonce,
+          ...issued.claims,
+        },
+        issued.privateKey || signing.privateKey,
+        {
+          algorithm: "RS256",
+          keyid: issued.kid || "test-key",
+          issuer,
+          audience: CLIENT_ID,
+          expiresIn: 300,
+        }
+      );
+      return json(200, { access_token: "access", token_type: "Bearer", id_token: idToken });
+    });
+    return;
+  }
+  json(404, { error: "not_found" });
+});
+
+/**
+ * What the provider's authorize page would do: remember the challenge and
+ * nonce from the authorization URL against a new code
+ */
+const authorize = async (overrides: Partial<IssuedCode> = {}, returnTo?: unknown) => {
+  const request = await buildAuthorizationRequest("google", {
+    redirectUri: REDIRECT_URI,
+    returnTo,
+  });
+  const url = new URL(request.url);
+  const code = crypto.randomBytes(8).toString("hex");
+  issuedCodes.set(code, {
+    challenge: url.searchParams.get("code_challenge"),
+    nonce: url.searchParams.get("nonce")!,
+    ...overrides,
+  });
+  return { url, code, state: url.searchParams.get("state")!, stateCookie: request.stateCookie };
+};
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.GOOGLE_CLIENT_ID = CLIENT_ID;
+  process.env.GOOGLE_CLIENT_SECRET = "test-secret";
+  process.env.GOOGLE_OIDC_ISSUER = issuer;
+});
+
+afterAll(async () => {
+  delete process.env.GOOGLE_CLIENT_ID;
+  delete process.env.GOOGLE_CLIENT_SECRET;
+  delete process.env.GOOGLE_OIDC_ISSUER;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  tokenRequests.length = 0;
+});
+
+describe("buildAuthorizationRequest", () => {
+  it("sends the browser to the provider with state, nonce and an S256 PKCE challenge", async () => {
+    const { url } = await authorize();
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer}/authorize`);
+    expect(url.searchParams.get("client_id")).toBe(CLIENT_ID);
+    expect(url.searchParams.get("redirect_uri")).toBe(REDIRECT_URI);
+    expect(url.searchParams.get("scope")).toBe("openid email profile");
+    expect(url.searchParams.get("state")).toBeTruthy();
+    expect(url.searchParams.get("nonce")).toBeTruthy();
+    expect(url.searchParams.get("code_challenge")).toBeTruthy();
+    expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+  });
+
+  it.each(["//evil.example", "/\\evil.example", "https://evil.example", "/orders\n/x", "orders"])(
+    "only returns to storefront paths (%j)",
+    async (returnTo) => {
+      const { code, state, stateCookie } = await authorize({}, returnTo);
+      const result = await completeAuthorization("google", {
+        code,
+        state,
+        stateCookie,
+        redirectUri: REDIRECT_URI,
+      });
+      expect(result.returnTo).toBe("/");
+    }
+  );
+});
+
+describe("completeAuthorization", () => {
+  it("exchanges the code with the PKCE verifier and returns the verified profile", async () => {
+    const { code, state, stateCookie, url } = await authorize({}, "/orders?tab=recent");
+
+    const result = await completeAuthorization("google", {
+      code,
+      state,
+      stateCookie,
+      redirectUri: REDIRECT_URI,
+    });
+
+    expect(result.returnTo).toBe("/orders?tab=recent");
+    expect(result.profile).toEqual({
+      provider: "google",
+      sub: "google-user-1",
+      email: "shopper@example.com",
+      emailVerified: true,
+      name: "Sam Shopper",
+      image: null,
+    });
+
+    const [form] = tokenRequests;
+    expect(form.get("grant_type")).toBe("authorization_code");
+    expect(form.get("redirect_uri")).toBe(REDIRECT_URI);
+    expect(
+      crypto.createHash("sha256").update(form.get("code_verifier")!).digest("base64url")
+    ).toBe(url.searchParams.get("code_challenge"));
+  });
+
+  it("rejects a callback whose state doesn't match the cookie", async () => {
+    const { code, stateCookie } = await authorize();
+
+    await expect(
+      completeAuthorization("google", {
+        code,
+        state: "forged-state",
+        stateCookie,
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining("state did not match") });
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it("rejects a missing or tampered state cookie", async () => {
+    const { code, state, stateCookie } = await authorize();
+
+    for (const cookie of [undefined, `${stateCookie}x`]) {
+      await expect(
+        completeAuthorization("google", {
+          code,
+          state,
+          stateCookie: cookie,
+          redirectUri: REDIRECT_URI,
+        })
+      ).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining("expired") });
+    }
+    expect(tokenRequests).toHaveLength(0);
+  });
+
+  it("rejects an ID token issued for another sign-in's nonce", async () => {
+    const { code, state, stateCookie } = await authorize({ nonce: "someone-elses-nonce" });
+
+    await expect(
+      completeAuthorization("google", { code, state, stateCookie, redirectUri: REDIRECT_URI })
+    ).rejects.toMatchObject({ statusCode: 401, message: "ID token nonce did not match" });
+  });
+
+  it("fails when the provider's PKCE check fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { code, state, stateCookie } = await authorize({ challenge: "not-our-challenge" });
+
+    await expect(
+      completeAuthorization("google", { code, state, stateCookie, redirectUri: REDIRECT_URI })
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(tokenRequests[0].get("code_verifier")).toBeTruthy();
+  });
+
+  it("rejects ID tokens signed with a key the provider doesn't publish", async () => {
+    const { code, state, stateCookie } = await authorize({
+      privateKey: otherKey.privateKey,
+      kid: "rotated-key",
+    });
+
+    await expect(
+      completeAuthorization("google", { code, state, stateCookie, redirectUri: REDIRECT_URI })
+    ).rejects.toMatchObject({ statusCode: 401, message: "ID token was signed with an unknown key" });
+  });
+
+  it("rejects ID tokens with a bad signature for a published key", async () => {
+    const { code, state, stateCookie } = await authorize({ privateKey: otherKey.privateKey });
+
+    await expect(
+      completeAuthorization("google", { code, state, stateCookie, redirectUri: REDIRECT_URI })
+    ).rejects.toMatchObject({ statusCode: 401, message: expect.stringContaining("ID token rejected") });
+  });
+
+  it("reports a provider error instead of exchanging a code", async () => {
+    const { state, stateCookie } = await authorize();
+
+    await expect(
+      completeAuthorization("google", {
+        error: "access_denied",
+        state,
+        stateCookie,
+        redirectUri: REDIRECT_URI,
+      })
+    ).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining("access_denied") });
+    expect(tokenRequests).toHaveLength(0);
+  });
+});
+
+describe("findOrCreateOAuthUser", () => {
+  const profile: OAuthProfile = {
+    provider: "google",
+    sub: "google-user-1",
+    email: "shopper@example.com",
+    emailVerified: true,
+    name: "Sam Shopper",
+    image: "https://example.com/avatar.png",
+  };
+
+  beforeEach(() => {
+    prisma.user.findUnique.mockReset();
+    prisma.user.update.mockReset().mockImplementation(async ({ where, data }: any) => ({
+      id: where.id,
+      ...data,
+    }));
+    prisma.user.create.mockReset().mockImplementation(async ({ data }: any) => ({
+      id: "new-user",
+      ...data,
+    }));
+  });
+
+  it("signs in the account already linked to the provider identity", async () => {
+    const linked = { id: "user-1", providerId: "google:google-user-1", image: "old.png" };
+    prisma.user.findUnique.mockResolvedValueOnce(linked);
+
+    await expect(findOrCreateOAuthUser(profile)).resolves.toBe(linked);
+    expect(prisma.user.findUnique).toHaveBeenCalledWith({
+      where: { providerId: "google:google-user-1" },
+    });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it("fills in a missing picture on the linked account", async () => {
+    prisma.user.findUnique.mockResolvedValueOnce({ id: "user-1", image: null });
+
+    await findOrCreateOAuthUser(profile);
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      data: { image: profile.image },
+    });
+  });
+
+  it("links the provider to an existing account when the provider verified the email", async () => {
+    prisma.user.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "user-2", name: "Samantha", image: null, isVerified: true });
+
+    const user = await findOrCreateOAuthUser(profile);
+
+    expect(prisma.user.findUnique).toHaveBeenLastCalledWith({
+      where: { email: "shopper@example.com" },
+    });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: "user-2" },
+      data: {
+        provider: "google",
+        providerId: "google:google-user-1",
+        isVerified: true,
+        name: "Samantha",
+        image: profile.image,
+      },
+    });
+    expect(user.id).toBe("user-2");
+    expect(prisma.user.create).not.toHaveBeenCalled();
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("drops the password and sessions of an unverified account it links", async () => {
+    prisma.user.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "user-2", name: null, image: null, isVerified: false });
+    prisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+    await findOrCreateOAuthUser(profile);
+
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: "user-2" },
+      data: expect.objectContaining({ isVerified: true, password: null }),
+    });
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-2", revokedAt: null },
+      data: { revokedAt: expect.any(Date), revokedReason: "oauth_link" },
+    });
+  });
+
+  it("refuses to link an existing account on an unverified email", async () => {
+    prisma.user.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: "user-2", name: "Samantha", image: null });
+
+    await expect(
+      findOrCreateOAuthUser({ ...profile, emailVerified: false })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it("creates an account for a new identity", async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+
+    const user = await findOrCreateOAuthUser(profile);
+
+    expect(prisma.user.create).toHaveBeenCalledWith({
+      data: {
+        name: "Sam Shopper",
+        email: "shopper@example.com",
+        image: profile.image,
+        role: "user",
+        provider: "google",
+        providerId: "google:google-user-1",
+        isVerified: true,
+      },
+    });
+    expect(user.id).toBe("new-user");
+  });
+
+  it("marks new accounts verified whether or not the provider verified the email", async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+
+    await findOrCreateOAuthUser({ ...profile, emailVerified: false });
+
+    expect(prisma.user.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ isVerified: true }),
+    });
+  });
+});
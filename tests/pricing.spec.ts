@@ -0,0 +1,194 @@
+import { PrismaClient } from "../src/generated/prisma";
+import {
+  calculateOrderTotals,
+  PricingError,
+  roundCurrency,
+  toCents,
+} from "../src/services/pricingService";
+import { getRate } from "../src/services/shippoService";
+import { resolvePromotion } from "../src/services/promotionService";
+import { localTaxProvider, setTaxProvider, TaxProvider } from "../src/services/taxService";
+
+jest.mock("../src/services/shippoService", () => ({
+  getRate: jest.fn(),
+}));
+
+jest.mock("../src/services/promotionService", () => ({
+  resolvePromotion: jest.fn(),
+}));
+
+const prisma = new PrismaClient() as any;
+const mockGetRate = getRate as jest.Mock;
+const mockResolvePromotion = resolvePromotion as jest.Mock;
+
+// 10% of items and shipping, so expected totals are easy to read
+const stubTaxProvider: TaxProvider = {
+  name: "stub",
+  calculate: jest.fn(async (request) => {
+    const amount = roundCurrency((request.itemsAmount + request.shipping) * 0.1);
+    return {
+      amount,
+      breakdown: [
+        {
+          jurisdiction: "US-CA",
+          name: "Stub tax",
+          rate: 0.1,
+          taxableAmount: request.itemsAmount + request.shipping,
+          amount,
+        },
+      ],
+    };
+  }),
+};
+
+const shipTo = { country: "US", state: "CA" };
+
+describe("roundCurrency / toCents", () => {
+  it("rounds to whole cents", () => {
+    expect(roundCurrency(1.005 + 2.004)).toBe(3.01);
+    expect(roundCurrency(19.999)).toBe(20);
+    expect(roundCurrency(0.1 + 0.2)).toBe(0.3);
+  });
+
+  it("converts amounts to integer cents", () => {
+    expect(toCents(12.34)).toBe(1234);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+});
+
+describe("calculateOrderTotals", () => {
+  beforeEach(() => {
+    setTaxProvider(stubTaxProvider);
+    prisma.product.findUnique.mockResolvedValue({ name: "Red Licorice", price: 12.5 });
+    prisma.priceBookEntry.findFirst.mockResolvedValue(null);
+    prisma.exchangeRate.findUnique.mockResolvedValue(null);
+    mockResolvePromotion.mockResolvedValue(null);
+    mockGetRate.mockResolvedValue({
+      objectId: "rate_1",
+      carrier: "USPS",
+      amount: 5.25,
+      serviceName: "Ground Advantage",
+    });
+  });
+
+  afterAll(() => {
+    setTaxProvider(localTaxProvider);
+  });
+
+  it("prices lines from the catalog and adds shipping and tax", async () => {
+    const pricing = await calculateOrderTotals({
+      items: [{ productId: "prod_1", quantity: 2 }],
+      selectedShippingRate: { objectId: "rate_1" },
+      shipTo,
+    });
+
+    expect(pricing.lines).toEqual([
+      expect.objectContaining({ productId: "prod_1", unitPrice: 12.5, total: 25 }),
+    ]);
+    expect(pricing.subtotal).toBe(25);
+    expect(pricing.shipping).toBe(5.25);
+    expect(pricing.tax).toBe(3.03);
+    expect(pricing.taxBreakdown).toHaveLength(1);
+    expect(pricing.total).toBe(33.28);
+    expect(pricing.currency).toBe("usd");
+    expect(stubTaxProvider.calculate).toHaveBeenCalledWith({
+      address: shipTo,
+      itemsAmount: 25,
+      shipping: 5.25,
+      currency: "usd",
+    });
+  });
+
+  it("taxes the discounted subtotal and drops shipping for free-shipping promotions", async () => {
+    mockResolvePromotion.mockResolvedValue({
+      promotionId: "promo_1",
+      discountCodeId: null,
+      code: "SHIPFREE",
+      name: "Free shipping",
+      type: "free_shipping",
+      amount: 5,
+      freeShipping: true,
+    });
+
+    const pricing = await calculateOrderTotals({
+      items: [{ productId: "prod_1", quantity: 2 }],
+      selectedShippingRate: { objectId: "rate_1" },
+      discountCode: "SHIPFREE",
+      shipTo,
+    });
+
+    expect(pricing.discount).toBe(5);
+    expect(pricing.shipping).toBe(0);
+    expect(pricing.tax).toBe(2);
+    expect(pricing.total).toBe(22);
+  });
+
+  it("rejects an order without a ship-to country instead of leaving it untaxed", async () => {
+    await expect(
+      calculateOrderTotals({ items: [{ productId: "prod_1", quantity: 1 }] })
+    ).rejects.toThrow("A ship-to country is required to calculate tax");
+    await expect(
+      calculateOrderTotals({
+        items: [{ productId: "prod_1", quantity: 1 }],
+        shipTo: { country: "", state: "CA" },
+      })
+    ).rejects.toBeInstanceOf(PricingError);
+    expect(stubTaxProvider.calculate).not.toHaveBeenCalled();
+  });
+
+  it("converts USD prices into the shipping country's currency", async () => {
+    prisma.exchangeRate.findUnique.mockResolvedValue({ currency: "cad", usdRate: 0.75 });
+
+    const pricing = await calculateOrderTotals({
+      items: [{ productId: "prod_1", quantity: 1 }],
+      selectedShippingRate: { objectId: "rate_1" },
+      shipTo: { country: "CA", state: "BC" },
+    });
+
+    expect(pricing.currency).toBe("cad");
+    expect(pricing.fxRate).toBe(0.75);
+    expect(pricing.subtotal).toBe(16.67);
+    expect(pricing.shipping).toBe(7);
+    expect(pricing.total).toBe(roundCurrency(16.67 + 7 + pricing.tax));
+  });
+
+  it("uses a price-book amount over the converted price", async () => {
+    prisma.priceBookEntry.findFirst.mockResolvedValue({ amount: 15.99 });
+
+    const pricing = await calculateOrderTotals({
+      items: [{ productId: "prod_1", quantity: 1 }],
+      currency: "cad",
+      shipTo,
+    });
+
+    expect(pricing.lines[0].unitPrice).toBe(15.99);
+  });
+
+  it("rejects a total the client expected that doesn't match", async () => {
+    await expect(
+      calculateOrderTotals({
+        items: [{ productId: "prod_1", quantity: 1 }],
+        shipTo,
+        expectedTotal: 12.5,
+      })
+    ).rejects.toMatchObject({
+      message: "Order total mismatch",
+      details: { expectedTotal: 13.75, receivedTotal: 12.5 },
+    });
+  });
+
+  it("rejects a client unit price that doesn't match the catalog", async () => {
+    await expect(
+      calculateOrderTotals({ items: [{ productId: "prod_1", quantity: 1, price: 1 }], shipTo })
+    ).rejects.toThrow("Price mismatch for Red Licorice");
+  });
+
+  it("rejects unsupported currencies and bad quantities", async () => {
+    await expect(
+      calculateOrderTotals({ items: [{ productId: "prod_1", quantity: 1 }], currency: "eur", shipTo })
+    ).rejects.toBeInstanceOf(PricingError);
+    await expect(
+      calculateOrderTotals({ items: [{ productId: "prod_1", quantity: 0 }], shipTo })
+    ).rejects.toThrow("Quantity must be a whole number greater than 0");
+  });
+});
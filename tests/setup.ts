@@ -13,6 +13,7 @@ const createMockPrismaModel = () => ({
   findFirst: jest.fn(),
   create: jest.fn(),
   update: jest.fn(),
+  updateMany: jest.fn(),
   delete: jest.fn(),
   deleteMany: jest.fn(),
   count: jest.fn(),
@@ -21,9 +22,10 @@ const createMockPrismaModel = () => ({
   groupBy: jest.fn(),
 });
 
-// Mock the PrismaClient constructor
-jest.mock("../src/generated/prisma", () => ({
-  PrismaClient: jest.fn().mockImplementation(() => ({
+// Mock the PrismaClient constructor. Every service shares one client, so a
+// test can stub a query with `new PrismaClient()` and the service sees it.
+jest.mock("../src/generated/prisma", () => {
+  const client = {
     user: createMockPrismaModel(),
     product: createMockPrismaModel(),
     order: createMockPrismaModel(),
@@ -35,11 +37,16 @@ jest.mock("../src/generated/prisma", () => ({
     packRecipeItem: createMockPrismaModel(),
     flavorInventory: createMockPrismaModel(),
     productFlavor: createMockPrismaModel(),
+    priceBookEntry: createMockPrismaModel(),
+    exchangeRate: createMockPrismaModel(),
+    taxRate: createMockPrismaModel(),
+    session: createMockPrismaModel(),
     $transaction: jest.fn(),
     $connect: jest.fn(),
     $disconnect: jest.fn(),
-  })),
-}));
+  };
+  return { PrismaClient: jest.fn().mockImplementation(() => client) };
+});
 
 // Also mock the database config file
 jest.mock("../src/config/database", () => ({
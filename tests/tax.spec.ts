@@ -0,0 +1,120 @@
+import { PrismaClient } from "../src/generated/prisma";
+import {
+  calculateTax,
+  getTaxProvider,
+  localTaxProvider,
+  NO_TAX,
+  setTaxProvider,
+  TaxProvider,
+} from "../src/services/taxService";
+
+const prisma = new PrismaClient() as any;
+
+const request = {
+  address: { country: "US", state: "CA" },
+  itemsAmount: 40,
+  shipping: 10,
+  currency: "usd",
+};
+
+describe("tax provider", () => {
+  afterEach(() => {
+    setTaxProvider(localTaxProvider);
+  });
+
+  it("uses the local rate table by default", () => {
+    expect(getTaxProvider()).toBe(localTaxProvider);
+  });
+
+  it("sends requests to the provider that was plugged in", async () => {
+    const stub: TaxProvider = {
+      name: "stub",
+      calculate: jest.fn().mockResolvedValue({
+        amount: 4.125,
+        breakdown: [
+          { jurisdiction: "US", name: "Federal", rate: 0, taxableAmount: 40, amount: 0 },
+          { jurisdiction: "US-CA", name: "State", rate: 0.0825, taxableAmount: 50, amount: 4.125 },
+        ],
+      }),
+    };
+    setTaxProvider(stub);
+
+    const quote = await calculateTax(request);
+
+    expect(getTaxProvider()).toBe(stub);
+    expect(stub.calculate).toHaveBeenCalledWith(request);
+    expect(prisma.taxRate.findMany).not.toHaveBeenCalled();
+    // Rounded to cents, and jurisdictions that owe nothing are left out
+    expect(quote.amount).toBe(4.13);
+    expect(quote.breakdown.map((line) => line.jurisdiction)).toEqual(["US-CA"]);
+  });
+
+  it("never passes a negative item amount to the provider", async () => {
+    const stub: TaxProvider = { name: "stub", calculate: jest.fn().mockResolvedValue(NO_TAX) };
+    setTaxProvider(stub);
+
+    await calculateTax({ ...request, itemsAmount: -5 });
+
+    expect(stub.calculate).toHaveBeenCalledWith({ ...request, itemsAmount: 0 });
+  });
+
+  it("charges nothing without a country or anything to tax", async () => {
+    const stub: TaxProvider = { name: "stub", calculate: jest.fn() };
+    setTaxProvider(stub);
+
+    await expect(calculateTax({ ...request, address: { state: "CA" } })).resolves.toEqual(NO_TAX);
+    await expect(calculateTax({ ...request, itemsAmount: 0, shipping: 0 })).resolves.toEqual(
+      NO_TAX
+    );
+    expect(stub.calculate).not.toHaveBeenCalled();
+  });
+});
+
+describe("localTaxProvider", () => {
+  it("applies the country and state rates, taxing shipping only where the rate says so", async () => {
+    prisma.taxRate.findMany.mockResolvedValue([
+      { country: "CA", region: null, name: "GST", rate: 0.05, taxShipping: true },
+      { country: "CA", region: "BC", name: "PST", rate: 0.07, taxShipping: false },
+    ]);
+
+    const quote = await localTaxProvider.calculate({
+      ...request,
+      address: { country: "ca", state: " bc " },
+    });
+
+    expect(prisma.taxRate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          country: "CA",
+          isActive: true,
+          OR: [{ region: null }, { region: "BC" }],
+        },
+      })
+    );
+    expect(quote.breakdown).toEqual([
+      { jurisdiction: "CA", name: "GST", rate: 0.05, taxableAmount: 50, amount: 2.5 },
+      { jurisdiction: "CA-BC", name: "PST", rate: 0.07, taxableAmount: 40, amount: 2.8 },
+    ]);
+    expect(quote.amount).toBe(5.3);
+  });
+
+  it("only looks up country-wide rates without a state", async () => {
+    prisma.taxRate.findMany.mockResolvedValue([]);
+
+    const quote = await localTaxProvider.calculate({ ...request, address: { country: "GB" } });
+
+    expect(prisma.taxRate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { country: "GB", isActive: true, OR: [{ region: null }] },
+      })
+    );
+    expect(quote).toEqual({ amount: 0, breakdown: [] });
+  });
+
+  it("returns no tax without a country", async () => {
+    await expect(
+      localTaxProvider.calculate({ ...request, address: { country: null } })
+    ).resolves.toEqual(NO_TAX);
+    expect(prisma.taxRate.findMany).not.toHaveBeenCalled();
+  });
+});